@@ -1,4 +1,8 @@
 const typescript = require('@rollup/plugin-typescript');
+const { builtinModules } = require('module');
+
+// Node built-ins (fs, path, async_hooks, v8) are imported at runtime, never bundled
+const external = ['reflect-metadata', ...builtinModules];
 
 module.exports = [
   // CommonJS build
@@ -17,7 +21,7 @@ module.exports = [
         exclude: ['**/*.test.ts', '**/*.spec.ts', 'src/examples/**/*']
       })
     ],
-    external: ['reflect-metadata']
+    external
   },
   // ES Modules build
   {
@@ -34,6 +38,6 @@ module.exports = [
         exclude: ['**/*.test.ts', '**/*.spec.ts', 'src/examples/**/*']
       })
     ],
-    external: ['reflect-metadata']
+    external
   }
 ];
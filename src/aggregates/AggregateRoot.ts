@@ -0,0 +1,139 @@
+// aggregates/AggregateRoot.ts - Базовый класс агрегата с источником событий
+import { IEvent, EventType, EventData } from '../types';
+import { MessageFactory } from '../core/MessageFactory';
+import { isSnapshotCapable } from './Snapshot';
+
+const messageFactory = new MessageFactory();
+
+/**
+ * Handler that applies an event to the aggregate state.
+ * @template TEventMap - Event map type
+ * @template K - Event type key
+ * @typedef {(data: EventData<TEventMap, K>, event: IEvent<TEventMap, K>) => void} AggregateEventHandler
+ */
+export type AggregateEventHandler<
+  TEventMap extends Record<string, any> = any,
+  K extends EventType<TEventMap> = EventType<TEventMap>
+> = (data: EventData<TEventMap, K>, event: IEvent<TEventMap, K>) => void;
+
+/**
+ * Base class for event-sourced aggregates.
+ * Subclasses register state transitions with `when` and raise new events with `apply`;
+ * raised events are tracked as uncommitted until a repository saves them.
+ * @template TEventMap - Event map type
+ */
+export abstract class AggregateRoot<TEventMap extends Record<string, any> = any> {
+  private handlers = new Map<string, AggregateEventHandler<TEventMap, any>>();
+  private uncommittedEvents: IEvent<TEventMap>[] = [];
+  private currentVersion = 0;
+
+  /**
+   * Creates a new aggregate instance.
+   * @param {string} id - The aggregate ID (event stream ID).
+   */
+  constructor(public readonly id: string) {}
+
+  /**
+   * Current version, including uncommitted events.
+   * @returns {number}
+   */
+  get version(): number {
+    return this.currentVersion;
+  }
+
+  /**
+   * Version of the last committed event.
+   * @returns {number}
+   */
+  get committedVersion(): number {
+    return this.currentVersion - this.uncommittedEvents.length;
+  }
+
+  /**
+   * Registers the state transition for an event type.
+   * @template K
+   * @param {K} type - The event type.
+   * @param {AggregateEventHandler<TEventMap, K>} handler - Applies the event data to the state.
+   */
+  protected when<K extends EventType<TEventMap>>(type: K, handler: AggregateEventHandler<TEventMap, K>): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Raises a new event: applies it to the state and tracks it as uncommitted.
+   * @template K
+   * @param {K} type - The event type.
+   * @param {EventData<TEventMap, K>} data - The event data.
+   * @param {Record<string, any>} [metadata] - Optional metadata.
+   */
+  protected apply<K extends EventType<TEventMap>>(
+    type: K,
+    data: EventData<TEventMap, K>,
+    metadata?: Record<string, any>
+  ): void {
+    const event = messageFactory.createEvent<TEventMap, K>(type, data, this.id, this.currentVersion + 1, metadata);
+    this.applyEvent(event);
+    this.uncommittedEvents.push(event);
+  }
+
+  /**
+   * Rebuilds the state from previously committed events.
+   * @param {IEvent<TEventMap>[]} events - Events ordered by version.
+   */
+  loadFromHistory(events: IEvent<TEventMap>[]): void {
+    for (const event of events) {
+      this.applyEvent(event);
+    }
+  }
+
+  /**
+   * Restores the state from a snapshot taken at the given version.
+   * The aggregate must implement SnapshotCapable and must not have applied any events yet.
+   * @param {unknown} state - The snapshot state.
+   * @param {number} version - The version the snapshot was taken at.
+   */
+  loadFromSnapshot(state: unknown, version: number): void {
+    if (!isSnapshotCapable(this)) {
+      throw new Error(`Aggregate '${this.id}' does not implement SnapshotCapable`);
+    }
+    if (this.currentVersion !== 0) {
+      throw new Error(`Cannot load a snapshot into aggregate '${this.id}' at version ${this.currentVersion}`);
+    }
+    this.restoreSnapshotState(state);
+    this.currentVersion = version;
+  }
+
+  /**
+   * Returns events raised since the aggregate was loaded or last committed.
+   * @returns {IEvent<TEventMap>[]}
+   */
+  getUncommittedEvents(): IEvent<TEventMap>[] {
+    return [...this.uncommittedEvents];
+  }
+
+  /**
+   * Clears the uncommitted events after they have been persisted.
+   * @param {number} [count] - Number of oldest uncommitted events that were persisted (default: all)
+   */
+  markEventsAsCommitted(count: number = this.uncommittedEvents.length): void {
+    this.uncommittedEvents = this.uncommittedEvents.slice(count);
+  }
+
+  /**
+   * Runs the registered handler for an event and advances the version.
+   * Events without a registered handler only advance the version.
+   * @param {IEvent<TEventMap>} event
+   */
+  private applyEvent(event: IEvent<TEventMap>): void {
+    if (event.version !== this.currentVersion + 1) {
+      throw new Error(
+        `Cannot apply '${event.type}' version ${event.version} to aggregate '${this.id}' at version ${this.currentVersion}`
+      );
+    }
+    const handler = this.handlers.get(event.type);
+    if (handler) {
+      handler(event.data, event);
+    }
+    this.currentVersion = event.version;
+  }
+}
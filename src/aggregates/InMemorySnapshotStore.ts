@@ -0,0 +1,37 @@
+// aggregates/InMemorySnapshotStore.ts - Хранилище снимков в памяти
+import { ISnapshotStore, Snapshot } from './Snapshot';
+
+/**
+ * Snapshot store that keeps the latest snapshot of each aggregate in memory.
+ * @implements {ISnapshotStore}
+ */
+export class InMemorySnapshotStore implements ISnapshotStore {
+  private snapshots = new Map<string, Snapshot>();
+
+  /**
+   * Saves a snapshot, replacing the previous one of the same aggregate.
+   * @param {Snapshot} snapshot
+   * @returns {Promise<void>}
+   */
+  async save(snapshot: Snapshot): Promise<void> {
+    this.snapshots.set(snapshot.aggregateId, snapshot);
+  }
+
+  /**
+   * Loads the latest snapshot of an aggregate.
+   * @param {string} aggregateId
+   * @returns {Promise<Snapshot | undefined>}
+   */
+  async load(aggregateId: string): Promise<Snapshot | undefined> {
+    return this.snapshots.get(aggregateId);
+  }
+
+  /**
+   * Deletes the snapshot of an aggregate.
+   * @param {string} aggregateId
+   * @returns {Promise<void>}
+   */
+  async delete(aggregateId: string): Promise<void> {
+    this.snapshots.delete(aggregateId);
+  }
+}
@@ -0,0 +1,208 @@
+// aggregates/Repository.ts - Репозиторий агрегатов поверх хранилища событий
+import { IEventStore, ConcurrencyError } from '../eventstore/EventStore';
+import { TypeBus } from '../core/TypeBus';
+import { AggregateRoot } from './AggregateRoot';
+import { ISnapshotStore, Snapshot, isSnapshotCapable } from './Snapshot';
+import { ISnapshotPolicy, EveryNEventsSnapshotPolicy } from './SnapshotPolicy';
+
+/**
+ * Snapshot options of a repository.
+ * @typedef {Object} RepositorySnapshotOptions
+ * @property {ISnapshotStore} store - Where snapshots are kept
+ * @property {ISnapshotPolicy} [policy] - When snapshots are taken (default: every 100 events)
+ * @property {number} [schemaVersion] - Current state format; snapshots with another version are discarded (default: 1)
+ */
+export interface RepositorySnapshotOptions {
+  store: ISnapshotStore;
+  policy?: ISnapshotPolicy;
+  schemaVersion?: number;
+}
+
+/**
+ * Options for configuring a Repository.
+ * @typedef {Object} RepositoryOptions
+ * @property {RepositorySnapshotOptions} [snapshots] - Enables snapshotting; aggregates must implement SnapshotCapable
+ */
+export interface RepositoryOptions {
+  snapshots?: RepositorySnapshotOptions;
+}
+
+/**
+ * Event-sourced repository for aggregates.
+ * Loads aggregates by replaying their event stream and commits uncommitted events through
+ * the bus, so every saved event is appended to the event store and dispatched to handlers.
+ * With snapshots enabled, loading starts from the latest snapshot and replays only the tail.
+ * @template TAggregate - Aggregate type
+ * @template TEventMap - Event map type
+ */
+export class Repository<
+  TAggregate extends AggregateRoot<TEventMap>,
+  TEventMap extends Record<string, any> = any
+> {
+  private eventStore: IEventStore;
+  private snapshots?: Required<RepositorySnapshotOptions>;
+
+  /**
+   * Creates a new Repository instance.
+   * @param {TypeBus<any, any, TEventMap>} bus - Bus configured with an event store.
+   * @param {(id: string) => TAggregate} factory - Creates an empty aggregate for an ID.
+   * @param {RepositoryOptions} [options]
+   */
+  constructor(
+    private readonly bus: TypeBus<any, any, TEventMap>,
+    private readonly factory: (id: string) => TAggregate,
+    options: RepositoryOptions = {}
+  ) {
+    const eventStore = bus.getEventStore();
+    if (!eventStore) {
+      throw new Error('Repository requires a TypeBus configured with an eventStore');
+    }
+    this.eventStore = eventStore;
+
+    if (options.snapshots) {
+      this.snapshots = {
+        policy: new EveryNEventsSnapshotPolicy(100),
+        schemaVersion: 1,
+        ...options.snapshots
+      };
+    }
+  }
+
+  /**
+   * Loads an aggregate from its latest snapshot and the events after it.
+   * Returns an empty aggregate at version 0 when the stream does not exist.
+   * @param {string} id
+   * @returns {Promise<TAggregate>}
+   */
+  async load(id: string): Promise<TAggregate> {
+    const aggregate = this.factory(id);
+    const { snapshot, isStale } = await this.loadSnapshot(id);
+    if (snapshot) {
+      aggregate.loadFromSnapshot(snapshot.state, snapshot.version);
+    }
+    aggregate.loadFromHistory(await this.eventStore.readStream(id, aggregate.version + 1));
+
+    if (isStale && aggregate.version > 0) {
+      // Rebuild the discarded snapshot in the current format from the full replay
+      await this.snapshot(aggregate);
+    } else {
+      await this.snapshotIfNeeded(aggregate, snapshot);
+    }
+    return aggregate;
+  }
+
+  /**
+   * Checks whether an aggregate has any committed events.
+   * @param {string} id
+   * @returns {Promise<boolean>}
+   */
+  async exists(id: string): Promise<boolean> {
+    return (await this.eventStore.getStreamVersion(id)) > 0;
+  }
+
+  /**
+   * Commits the uncommitted events of an aggregate by publishing them through the bus as raised,
+   * so stored and delivered events keep the ids the aggregate gave them.
+   * The events are appended in one call at the committed version of the aggregate, so either
+   * all or none of them are stored. Once stored they count as committed, even when a dispatch
+   * fails afterwards.
+   * @param {TAggregate} aggregate
+   * @returns {Promise<void>}
+   * @throws {ConcurrencyError} When the stream was changed since the aggregate was loaded.
+   */
+  async save(aggregate: TAggregate): Promise<void> {
+    const events = aggregate.getUncommittedEvents();
+    try {
+      await this.bus.publishEventMessages(events);
+    } catch (error) {
+      if (!(error instanceof ConcurrencyError) && (await this.eventStore.getStreamVersion(aggregate.id)) >= aggregate.version) {
+        // Appended, only a dispatch failed
+        aggregate.markEventsAsCommitted(events.length);
+      }
+      throw error;
+    }
+    aggregate.markEventsAsCommitted(events.length);
+
+    // In unit-of-work mode the events are only buffered until the command succeeds; a snapshot
+    // taken now could get ahead of the stream, so it is left to the next load
+    if (this.snapshots && events.length > 0 && (await this.eventStore.getStreamVersion(aggregate.id)) >= aggregate.version) {
+      const { snapshot } = await this.loadSnapshot(aggregate.id);
+      await this.snapshotIfNeeded(aggregate, snapshot);
+    }
+  }
+
+  /**
+   * Loads an aggregate, runs an action against it and saves the raised events.
+   * @template R
+   * @param {string} id
+   * @param {(aggregate: TAggregate) => R | Promise<R>} action
+   * @returns {Promise<R>} The action result.
+   */
+  async update<R>(id: string, action: (aggregate: TAggregate) => R | Promise<R>): Promise<R> {
+    const aggregate = await this.load(id);
+    const result = await action(aggregate);
+    await this.save(aggregate);
+    return result;
+  }
+
+  /**
+   * Takes a snapshot of the committed aggregate state regardless of the policy.
+   * @param {TAggregate} aggregate
+   * @returns {Promise<Snapshot>}
+   */
+  async snapshot(aggregate: TAggregate): Promise<Snapshot> {
+    if (!this.snapshots) {
+      throw new Error('Repository is not configured with a snapshot store');
+    }
+    if (!isSnapshotCapable(aggregate)) {
+      throw new Error(`Aggregate '${aggregate.id}' does not implement SnapshotCapable`);
+    }
+    if (aggregate.getUncommittedEvents().length > 0) {
+      throw new Error(`Cannot snapshot aggregate '${aggregate.id}' with uncommitted events`);
+    }
+
+    const snapshot: Snapshot = {
+      aggregateId: aggregate.id,
+      version: aggregate.version,
+      schemaVersion: this.snapshots.schemaVersion,
+      state: aggregate.getSnapshotState(),
+      timestamp: new Date()
+    };
+    await this.snapshots.store.save(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Loads the latest snapshot, discarding snapshots of another schema version.
+   * @param {string} id
+   * @returns {Promise<{ snapshot?: Snapshot; isStale: boolean }>}
+   */
+  private async loadSnapshot(id: string): Promise<{ snapshot?: Snapshot; isStale: boolean }> {
+    if (!this.snapshots) return { isStale: false };
+    const snapshot = await this.snapshots.store.load(id);
+    if (snapshot && snapshot.schemaVersion !== this.snapshots.schemaVersion) {
+      await this.snapshots.store.delete(id);
+      return { isStale: true };
+    }
+    return { snapshot, isStale: false };
+  }
+
+  /**
+   * Takes a snapshot when the policy asks for one.
+   * @param {TAggregate} aggregate
+   * @param {Snapshot} [lastSnapshot]
+   * @returns {Promise<void>}
+   */
+  private async snapshotIfNeeded(aggregate: TAggregate, lastSnapshot?: Snapshot): Promise<void> {
+    if (!this.snapshots || aggregate.version === 0) return;
+    const shouldSnapshot = this.snapshots.policy.shouldSnapshot({
+      aggregateId: aggregate.id,
+      version: aggregate.version,
+      eventsSinceSnapshot: aggregate.version - (lastSnapshot?.version ?? 0),
+      lastSnapshot
+    });
+    if (shouldSnapshot) {
+      await this.snapshot(aggregate);
+    }
+  }
+}
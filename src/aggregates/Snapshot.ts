@@ -0,0 +1,77 @@
+// aggregates/Snapshot.ts - Контракты снимков состояния агрегатов
+
+/**
+ * Snapshot of an aggregate state at a given version.
+ * @template TState - Snapshot state type
+ * @typedef {Object} Snapshot
+ * @property {string} aggregateId
+ * @property {number} version - Aggregate version the state corresponds to
+ * @property {number} schemaVersion - Version of the state format
+ * @property {TState} state
+ * @property {Date} timestamp
+ */
+export interface Snapshot<TState = any> {
+  readonly aggregateId: string;
+  readonly version: number;
+  readonly schemaVersion: number;
+  readonly state: TState;
+  readonly timestamp: Date;
+}
+
+/**
+ * Interface for snapshot stores. Only the latest snapshot per aggregate is kept.
+ * @typedef {Object} ISnapshotStore
+ */
+export interface ISnapshotStore {
+  /**
+   * Saves a snapshot, replacing the previous one of the same aggregate.
+   * @param {Snapshot} snapshot
+   * @returns {Promise<void>}
+   */
+  save(snapshot: Snapshot): Promise<void>;
+
+  /**
+   * Loads the latest snapshot of an aggregate.
+   * @param {string} aggregateId
+   * @returns {Promise<Snapshot | undefined>}
+   */
+  load(aggregateId: string): Promise<Snapshot | undefined>;
+
+  /**
+   * Deletes the snapshot of an aggregate.
+   * @param {string} aggregateId
+   * @returns {Promise<void>}
+   */
+  delete(aggregateId: string): Promise<void>;
+}
+
+/**
+ * Interface for aggregates whose state can be captured in snapshots.
+ * @template TState - Snapshot state type
+ * @typedef {Object} SnapshotCapable
+ */
+export interface SnapshotCapable<TState = any> {
+  /**
+   * Returns a serializable copy of the current state.
+   * @returns {TState}
+   */
+  getSnapshotState(): TState;
+
+  /**
+   * Replaces the current state with a snapshot state.
+   * @param {TState} state
+   */
+  restoreSnapshotState(state: TState): void;
+}
+
+/**
+ * Checks whether an aggregate implements SnapshotCapable.
+ * @param {unknown} aggregate
+ * @returns {boolean}
+ */
+export function isSnapshotCapable(aggregate: unknown): aggregate is SnapshotCapable {
+  return (
+    typeof (aggregate as SnapshotCapable)?.getSnapshotState === 'function' &&
+    typeof (aggregate as SnapshotCapable)?.restoreSnapshotState === 'function'
+  );
+}
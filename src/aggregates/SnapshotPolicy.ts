@@ -0,0 +1,83 @@
+// aggregates/SnapshotPolicy.ts - Политики создания снимков
+import { Snapshot } from './Snapshot';
+
+/**
+ * Information a snapshot policy decides on.
+ * @typedef {Object} SnapshotPolicyContext
+ * @property {string} aggregateId
+ * @property {number} version - Current committed aggregate version
+ * @property {number} eventsSinceSnapshot - Events committed after the last snapshot
+ * @property {Snapshot} [lastSnapshot] - Latest valid snapshot, if any
+ */
+export interface SnapshotPolicyContext {
+  aggregateId: string;
+  version: number;
+  eventsSinceSnapshot: number;
+  lastSnapshot?: Snapshot;
+}
+
+/**
+ * Interface for snapshot policies.
+ * @typedef {Object} ISnapshotPolicy
+ * @property {(context: SnapshotPolicyContext) => boolean} shouldSnapshot
+ */
+export interface ISnapshotPolicy {
+  shouldSnapshot(context: SnapshotPolicyContext): boolean;
+}
+
+/**
+ * Takes a snapshot once at least N events were committed since the last one.
+ * @implements {ISnapshotPolicy}
+ */
+export class EveryNEventsSnapshotPolicy implements ISnapshotPolicy {
+  /**
+   * @param {number} eventCount - Number of events between snapshots.
+   */
+  constructor(private readonly eventCount: number) {
+    if (eventCount < 1) {
+      throw new Error('Snapshot event count must be at least 1');
+    }
+  }
+
+  /**
+   * @param {SnapshotPolicyContext} context
+   * @returns {boolean}
+   */
+  shouldSnapshot(context: SnapshotPolicyContext): boolean {
+    return context.eventsSinceSnapshot >= this.eventCount;
+  }
+}
+
+/**
+ * Takes a snapshot when new events exist and the last snapshot is older than the interval.
+ * @implements {ISnapshotPolicy}
+ */
+export class TimeBasedSnapshotPolicy implements ISnapshotPolicy {
+  /**
+   * @param {number} intervalMs - Minimum age of the last snapshot in milliseconds.
+   */
+  constructor(private readonly intervalMs: number) {}
+
+  /**
+   * @param {SnapshotPolicyContext} context
+   * @returns {boolean}
+   */
+  shouldSnapshot(context: SnapshotPolicyContext): boolean {
+    if (context.eventsSinceSnapshot === 0) return false;
+    if (!context.lastSnapshot) return true;
+    return Date.now() - context.lastSnapshot.timestamp.getTime() >= this.intervalMs;
+  }
+}
+
+/**
+ * Never takes snapshots automatically; use Repository.snapshot() to take them on demand.
+ * @implements {ISnapshotPolicy}
+ */
+export class OnDemandSnapshotPolicy implements ISnapshotPolicy {
+  /**
+   * @returns {boolean}
+   */
+  shouldSnapshot(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Exports aggregate root, repository and snapshot utilities.
+ */
+export * from './AggregateRoot';
+export * from './Repository';
+export * from './Snapshot';
+export * from './SnapshotPolicy';
+export * from './InMemorySnapshotStore';
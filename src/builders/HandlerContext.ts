@@ -0,0 +1,188 @@
+// builders/HandlerContext.ts - Контекст, передаваемый в логику обработчиков билдеров
+import {
+  IMessage,
+  ICommand,
+  IQuery,
+  IEvent,
+  CommandType,
+  QueryType,
+  EventType,
+  CommandData,
+  CommandResult,
+  QueryParams,
+  QueryResult,
+  EventData
+} from '../types';
+import { TypeBus } from '../core/TypeBus';
+import { Logger } from '../core/Logger';
+import { getDispatchContext } from '../core/DispatchContext';
+
+/**
+ * Context passed to builder handler logic as the last argument.
+ * @template TMessage - The handled message
+ * @template TCommandMap, TQueryMap, TEventMap - Message maps of the bus
+ * @typedef {Object} HandlerContext
+ * @property {TMessage} message - The full message, including id, kind, correlation and metadata
+ * @property {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus - The bus the handler is registered on
+ * @property {Logger} logger - Logger scoped to the message type and id
+ * @property {AbortSignal} signal - Aborted when the dispatch times out or is cancelled
+ */
+export interface HandlerContext<
+  TMessage extends IMessage,
+  TCommandMap extends Record<string, any> = any,
+  TQueryMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+> {
+  readonly message: TMessage;
+  readonly bus: TypeBus<TCommandMap, TQueryMap, TEventMap>;
+  readonly logger: Logger;
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Context of handlers whose message belongs to an aggregate. `publish` publishes an event of
+ * the same aggregate, caused by the handled message.
+ * @template TMessage, TCommandMap, TQueryMap, TEventMap
+ * @typedef {HandlerContext & { publish: Function }} AggregateHandlerContext
+ */
+export interface AggregateHandlerContext<
+  TMessage extends IMessage & { aggregateId: string },
+  TCommandMap extends Record<string, any> = any,
+  TQueryMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+> extends HandlerContext<TMessage, TCommandMap, TQueryMap, TEventMap> {
+  publish<E extends EventType<TEventMap>>(
+    type: E,
+    data: EventData<TEventMap, E>,
+    version: number,
+    metadata?: Record<string, any>
+  ): Promise<void>;
+}
+
+/**
+ * Context of command handlers.
+ * @template TCommandMap, T, TQueryMap, TEventMap
+ */
+export type CommandHandlerContext<
+  TCommandMap extends Record<string, any> = any,
+  T extends CommandType<TCommandMap> = CommandType<TCommandMap>,
+  TQueryMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+> = AggregateHandlerContext<ICommand<TCommandMap, T>, TCommandMap, TQueryMap, TEventMap>;
+
+/**
+ * Context of query handlers.
+ * @template TQueryMap, T, TCommandMap, TEventMap
+ */
+export type QueryHandlerContext<
+  TQueryMap extends Record<string, any> = any,
+  T extends QueryType<TQueryMap> = QueryType<TQueryMap>,
+  TCommandMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+> = HandlerContext<IQuery<TQueryMap, T>, TCommandMap, TQueryMap, TEventMap>;
+
+/**
+ * Context of event handlers.
+ * @template TEventMap, T, TCommandMap, TQueryMap
+ */
+export type EventHandlerContext<
+  TEventMap extends Record<string, any> = any,
+  T extends EventType<TEventMap> = EventType<TEventMap>,
+  TCommandMap extends Record<string, any> = any,
+  TQueryMap extends Record<string, any> = any
+> = AggregateHandlerContext<IEvent<TEventMap, T>, TCommandMap, TQueryMap, TEventMap>;
+
+/**
+ * Handler logic of a command builder; the context argument is optional to declare.
+ * @template TCommandMap, T, TQueryMap, TEventMap
+ */
+export type CommandHandlerLogic<
+  TCommandMap extends Record<string, any> = any,
+  T extends CommandType<TCommandMap> = CommandType<TCommandMap>,
+  TQueryMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+> = (
+  data: CommandData<TCommandMap, T>,
+  aggregateId: string,
+  metadata: Record<string, any> | undefined,
+  context: CommandHandlerContext<TCommandMap, T, TQueryMap, TEventMap>
+) => Promise<CommandResult<TCommandMap, T>>;
+
+/**
+ * Handler logic of a query builder; the context argument is optional to declare.
+ * @template TQueryMap, T, TCommandMap, TEventMap
+ */
+export type QueryHandlerLogic<
+  TQueryMap extends Record<string, any> = any,
+  T extends QueryType<TQueryMap> = QueryType<TQueryMap>,
+  TCommandMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+> = (
+  params: QueryParams<TQueryMap, T>,
+  metadata: Record<string, any> | undefined,
+  context: QueryHandlerContext<TQueryMap, T, TCommandMap, TEventMap>
+) => Promise<QueryResult<TQueryMap, T>>;
+
+/**
+ * Handler logic of an event builder; the context argument is optional to declare.
+ * @template TEventMap, T, TCommandMap, TQueryMap
+ */
+export type EventHandlerLogic<
+  TEventMap extends Record<string, any> = any,
+  T extends EventType<TEventMap> = EventType<TEventMap>,
+  TCommandMap extends Record<string, any> = any,
+  TQueryMap extends Record<string, any> = any
+> = (
+  data: EventData<TEventMap, T>,
+  aggregateId: string,
+  version: number,
+  metadata: Record<string, any> | undefined,
+  context: EventHandlerContext<TEventMap, T, TCommandMap, TQueryMap>
+) => Promise<void>;
+
+/**
+ * Creates the context of a handled message.
+ * @template TMessage, TCommandMap, TQueryMap, TEventMap
+ * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus
+ * @param {TMessage} message
+ * @returns {HandlerContext<TMessage, TCommandMap, TQueryMap, TEventMap>}
+ */
+export function createHandlerContext<
+  TMessage extends IMessage,
+  TCommandMap extends Record<string, any>,
+  TQueryMap extends Record<string, any>,
+  TEventMap extends Record<string, any>
+>(
+  bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
+  message: TMessage
+): HandlerContext<TMessage, TCommandMap, TQueryMap, TEventMap> {
+  return {
+    message,
+    bus,
+    logger: bus.getLogger(`${message.type} ${message.id}`),
+    // Outside a dispatch (e.g. `handler.handle` called directly) nothing can abort the handler
+    signal: getDispatchContext()?.signal ?? new AbortController().signal
+  };
+}
+
+/**
+ * Creates the context of a handled command or event, adding `publish`.
+ * @template TMessage, TCommandMap, TQueryMap, TEventMap
+ * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus
+ * @param {TMessage} message
+ * @returns {AggregateHandlerContext<TMessage, TCommandMap, TQueryMap, TEventMap>}
+ */
+export function createAggregateHandlerContext<
+  TMessage extends IMessage & { aggregateId: string },
+  TCommandMap extends Record<string, any>,
+  TQueryMap extends Record<string, any>,
+  TEventMap extends Record<string, any>
+>(
+  bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
+  message: TMessage
+): AggregateHandlerContext<TMessage, TCommandMap, TQueryMap, TEventMap> {
+  return {
+    ...createHandlerContext(bus, message),
+    publish: (type, data, version, metadata) => bus.publishEvent(type, data, message.aggregateId, version, metadata)
+  };
+}
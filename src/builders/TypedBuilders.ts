@@ -5,15 +5,27 @@ import {
   EventType,
   CommandData,
   CommandResult,
+  CommandErrors,
   QueryParams,
   QueryResult,
+  QueryErrors,
   EventData,
   IMessageHandler,
   ICommand,
   IQuery,
-  IEvent
+  IEvent,
+  DispatchOptions
 } from '../types';
 import { TypeBus } from '../core/TypeBus';
+import { DISPOSE } from '../core/Disposer';
+import { Result, DispatchFailure } from '../core/Result';
+import {
+  CommandHandlerLogic,
+  QueryHandlerLogic,
+  EventHandlerLogic,
+  createHandlerContext,
+  createAggregateHandlerContext
+} from './HandlerContext';
 
 /** ================================================================================
  * Builder for creating and registering command handlers with TypeBus-CQRS.
@@ -23,36 +35,49 @@ export class TypedCommandBuilder {
    * Creates and registers a command handler.
    * @template TCommandMap - Command map type
    * @template T - Command type key
-   * @param {TypeBus<TCommandMap, any, any>} bus - The TypeBus-CQRS instance.
+   * @template TQueryMap, TEventMap - Other message maps of the bus, for the handler context
+   * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus - The TypeBus-CQRS instance.
    * @param {T} commandType - The command type.
-   * @param {(data: CommandData<TCommandMap, T>, aggregateId: string, metadata?: Record<string, any>) => Promise<CommandResult<TCommandMap, T>>} handlerLogic - The handler logic.
-   * @returns {object} Command executor and handler meta.
+   * @param {CommandHandlerLogic<TCommandMap, T, TQueryMap, TEventMap>} handlerLogic - The handler logic; receives a context as last argument.
+   * @returns {object} Command executor, handler meta and the disposer of the registration.
    */
-  static create<TCommandMap extends Record<string, any> = any, T extends CommandType<TCommandMap> = CommandType<TCommandMap>>(
-    bus: TypeBus<TCommandMap, any, any>,
+  static create<
+  TCommandMap extends Record<string, any> = any,
+  T extends CommandType<TCommandMap> = CommandType<TCommandMap>,
+  TQueryMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+>(
+    bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
     commandType: T,
-    handlerLogic: (
-      data: CommandData<TCommandMap, T>,
-      aggregateId: string,
-      metadata?: Record<string, any>
-    ) => Promise<CommandResult<TCommandMap, T>>
+    handlerLogic: CommandHandlerLogic<TCommandMap, T, TQueryMap, TEventMap>
   ) {
     const handler: IMessageHandler<ICommand<TCommandMap, T>, CommandResult<TCommandMap, T>> = {
       async handle(command: ICommand<TCommandMap, T>): Promise<CommandResult<TCommandMap, T>> {
-        return await handlerLogic(command.data, command.aggregateId, command.metadata);
+        return await handlerLogic(command.data, command.aggregateId, command.metadata, createAggregateHandlerContext(bus, command));
       }
     };
-    bus.registerCommandHandler(commandType, handler);
+    const dispose = bus.registerCommandHandler(commandType, handler);
     return {
       async execute(
         data: CommandData<TCommandMap, T>,
         aggregateId: string,
-        metadata?: Record<string, any>
+        metadata?: Record<string, any>,
+        options?: DispatchOptions
       ): Promise<CommandResult<TCommandMap, T>> {
-        return await bus.executeCommand(commandType, data, aggregateId, metadata);
+        return await bus.executeCommand(commandType, data, aggregateId, metadata, options);
+      },
+      tryExecute(
+        data: CommandData<TCommandMap, T>,
+        aggregateId: string,
+        metadata?: Record<string, any>,
+        options?: DispatchOptions
+      ): Promise<Result<CommandResult<TCommandMap, T>, DispatchFailure<CommandErrors<TCommandMap, T>>>> {
+        return bus.tryExecuteCommand(commandType, data, aggregateId, metadata, options);
       },
       type: commandType,
-      handler
+      handler,
+      dispose,
+      [DISPOSE]: dispose
     };
   }
 }
@@ -65,34 +90,47 @@ export class TypedQueryBuilder {
    * Creates and registers a query handler.
    * @template TQueryMap - Query map type
    * @template T - Query type key
-   * @param {TypeBus<any, TQueryMap, any>} bus - The TypeBus-CQRS instance.
+   * @template TCommandMap, TEventMap - Other message maps of the bus, for the handler context
+   * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus - The TypeBus-CQRS instance.
    * @param {T} queryType - The query type.
-   * @param {(params: QueryParams<TQueryMap, T>, metadata?: Record<string, any>) => Promise<QueryResult<TQueryMap, T>>} handlerLogic - The handler logic.
-   * @returns {object} Query executor and handler meta.
+   * @param {QueryHandlerLogic<TQueryMap, T, TCommandMap, TEventMap>} handlerLogic - The handler logic; receives a context as last argument.
+   * @returns {object} Query executor, handler meta and the disposer of the registration.
    */
-  static create<TQueryMap extends Record<string, any> = any, T extends QueryType<TQueryMap> = QueryType<TQueryMap>>(
-    bus: TypeBus<any, TQueryMap, any>,
+  static create<
+  TQueryMap extends Record<string, any> = any,
+  T extends QueryType<TQueryMap> = QueryType<TQueryMap>,
+  TCommandMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+>(
+    bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
     queryType: T,
-    handlerLogic: (
-      params: QueryParams<TQueryMap, T>,
-      metadata?: Record<string, any>
-    ) => Promise<QueryResult<TQueryMap, T>>
+    handlerLogic: QueryHandlerLogic<TQueryMap, T, TCommandMap, TEventMap>
   ) {
     const handler: IMessageHandler<IQuery<TQueryMap, T>, QueryResult<TQueryMap, T>> = {
       async handle(query: IQuery<TQueryMap, T>): Promise<QueryResult<TQueryMap, T>> {
-        return await handlerLogic(query.params, query.metadata);
+        return await handlerLogic(query.params, query.metadata, createHandlerContext(bus, query));
       }
     };
-    bus.registerQueryHandler(queryType, handler);
+    const dispose = bus.registerQueryHandler(queryType, handler);
     return {
       async execute(
         params: QueryParams<TQueryMap, T>,
-        metadata?: Record<string, any>
+        metadata?: Record<string, any>,
+        options?: DispatchOptions
       ): Promise<QueryResult<TQueryMap, T>> {
-        return await bus.executeQuery(queryType, params, metadata);
+        return await bus.executeQuery(queryType, params, metadata, options);
+      },
+      tryExecute(
+        params: QueryParams<TQueryMap, T>,
+        metadata?: Record<string, any>,
+        options?: DispatchOptions
+      ): Promise<Result<QueryResult<TQueryMap, T>, DispatchFailure<QueryErrors<TQueryMap, T>>>> {
+        return bus.tryExecuteQuery(queryType, params, metadata, options);
       },
       type: queryType,
-      handler
+      handler,
+      dispose,
+      [DISPOSE]: dispose
     };
   }
 }
@@ -105,38 +143,45 @@ export class TypedEventBuilder {
    * Creates and registers an event handler.
    * @template TEventMap - Event map type
    * @template T - Event type key
-   * @param {TypeBus<any, any, TEventMap>} bus - The TypeBus-CQRS instance.
+   * @template TCommandMap, TQueryMap - Other message maps of the bus, for the handler context
+   * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus - The TypeBus-CQRS instance.
    * @param {T} eventType - The event type.
-   * @param {(data: EventData<TEventMap, T>, aggregateId: string, version: number, metadata?: Record<string, any>) => Promise<void>} handlerLogic - The handler logic.
-   * @returns {object} Event publisher and handler meta.
+   * @param {EventHandlerLogic<TEventMap, T, TCommandMap, TQueryMap>} handlerLogic - The handler logic; receives a context as last argument.
+   * @param {string} [name] - Name that identifies the handler, e.g. in dead letters (default: the name of handlerLogic).
+   * @returns {object} Event publisher, handler meta and the disposer of the registration.
    */
-  static create<TEventMap extends Record<string, any> = any, T extends EventType<TEventMap> = EventType<TEventMap>>(
-    bus: TypeBus<any, any, TEventMap>,
+  static create<
+  TEventMap extends Record<string, any> = any,
+  T extends EventType<TEventMap> = EventType<TEventMap>,
+  TCommandMap extends Record<string, any> = any,
+  TQueryMap extends Record<string, any> = any
+>(
+    bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
     eventType: T,
-    handlerLogic: (
-      data: EventData<TEventMap, T>,
-      aggregateId: string,
-      version: number,
-      metadata?: Record<string, any>
-    ) => Promise<void>
+    handlerLogic: EventHandlerLogic<TEventMap, T, TCommandMap, TQueryMap>,
+    name: string | undefined = handlerLogic.name || undefined
   ) {
     const handler: IMessageHandler<IEvent<TEventMap, T>, void> = {
+      name,
       async handle(event: IEvent<TEventMap, T>): Promise<void> {
-        return await handlerLogic(event.data, event.aggregateId, event.version, event.metadata);
+        return await handlerLogic(event.data, event.aggregateId, event.version, event.metadata, createAggregateHandlerContext(bus, event));
       }
     };
-    bus.registerEventHandler(eventType, handler);
+    const dispose = bus.registerEventHandler(eventType, handler);
     return {
       async publish(
         data: EventData<TEventMap, T>,
         aggregateId: string,
         version: number,
-        metadata?: Record<string, any>
+        metadata?: Record<string, any>,
+        options?: DispatchOptions
       ): Promise<void> {
-        return await bus.publishEvent(eventType, data, aggregateId, version, metadata);
+        return await bus.publishEvent(eventType, data, aggregateId, version, metadata, options);
       },
       type: eventType,
-      handler
+      handler,
+      dispose,
+      [DISPOSE]: dispose
     };
   }
 }
@@ -162,17 +207,13 @@ export class BatchBuilder<
    * @template T - Command type key
    * @param {string} name - The name of the command.
    * @param {T} commandType - The command type.
-   * @param {(data: CommandData<TCommandMap, T>, aggregateId: string, metadata?: Record<string, any>) => Promise<CommandResult<TCommandMap, T>>} handlerLogic - The handler logic.
+   * @param {CommandHandlerLogic<TCommandMap, T, TQueryMap, TEventMap>} handlerLogic - The handler logic; receives a context as last argument.
    * @returns {BatchBuilder<TCommandMap, TQueryMap, TEventMap>}
    */
   addCommand<T extends CommandType<TCommandMap>>(
     name: string,
     commandType: T,
-    handlerLogic: (
-      data: CommandData<TCommandMap, T>,
-      aggregateId: string,
-      metadata?: Record<string, any>
-    ) => Promise<CommandResult<TCommandMap, T>>
+    handlerLogic: CommandHandlerLogic<TCommandMap, T, TQueryMap, TEventMap>
   ) {
     const executor = TypedCommandBuilder.create(this.bus, commandType, handlerLogic);
     this.items.push({ type: 'command', executor, name });
@@ -184,16 +225,13 @@ export class BatchBuilder<
    * @template T - Query type key
    * @param {string} name - The name of the query.
    * @param {T} queryType - The query type.
-   * @param {(params: QueryParams<TQueryMap, T>, metadata?: Record<string, any>) => Promise<QueryResult<TQueryMap, T>>} handlerLogic - The handler logic.
+   * @param {QueryHandlerLogic<TQueryMap, T, TCommandMap, TEventMap>} handlerLogic - The handler logic; receives a context as last argument.
    * @returns {BatchBuilder<TCommandMap, TQueryMap, TEventMap>}
    */
   addQuery<T extends QueryType<TQueryMap>>(
     name: string,
     queryType: T,
-    handlerLogic: (
-      params: QueryParams<TQueryMap, T>,
-      metadata?: Record<string, any>
-    ) => Promise<QueryResult<TQueryMap, T>>
+    handlerLogic: QueryHandlerLogic<TQueryMap, T, TCommandMap, TEventMap>
   ) {
     const executor = TypedQueryBuilder.create(this.bus, queryType, handlerLogic);
     this.items.push({ type: 'query', executor, name });
@@ -203,22 +241,17 @@ export class BatchBuilder<
   /**
    * Adds an event handler to the batch.
    * @template T - Event type key
-   * @param {string} name - The name of the event handler.
+   * @param {string} name - The name of the event handler; also identifies it, e.g. in dead letters.
    * @param {T} eventType - The event type.
-   * @param {(data: EventData<TEventMap, T>, aggregateId: string, version: number, metadata?: Record<string, any>) => Promise<void>} handlerLogic - The handler logic.
+   * @param {EventHandlerLogic<TEventMap, T, TCommandMap, TQueryMap>} handlerLogic - The handler logic; receives a context as last argument.
    * @returns {BatchBuilder<TCommandMap, TQueryMap, TEventMap>}
    */
   addEventHandler<T extends EventType<TEventMap>>(
     name: string,
     eventType: T,
-    handlerLogic: (
-      data: EventData<TEventMap, T>,
-      aggregateId: string,
-      version: number,
-      metadata?: Record<string, any>
-    ) => Promise<void>
+    handlerLogic: EventHandlerLogic<TEventMap, T, TCommandMap, TQueryMap>
   ) {
-    const executor = TypedEventBuilder.create(this.bus, eventType, handlerLogic);
+    const executor = TypedEventBuilder.create(this.bus, eventType, handlerLogic, name);
     this.items.push({ type: 'event', executor, name });
     return this;
   }
@@ -255,11 +288,7 @@ export class FluentBuilder<
   command<T extends CommandType<TCommandMap>>(commandType: T) {
     return {
       handle: (
-        handlerLogic: (
-          data: CommandData<TCommandMap, T>,
-          aggregateId: string,
-          metadata?: Record<string, any>
-        ) => Promise<CommandResult<TCommandMap, T>>
+        handlerLogic: CommandHandlerLogic<TCommandMap, T, TQueryMap, TEventMap>
       ) => {
         return TypedCommandBuilder.create(this.bus, commandType, handlerLogic);
       }
@@ -275,10 +304,7 @@ export class FluentBuilder<
   query<T extends QueryType<TQueryMap>>(queryType: T) {
     return {
       handle: (
-        handlerLogic: (
-          params: QueryParams<TQueryMap, T>,
-          metadata?: Record<string, any>
-        ) => Promise<QueryResult<TQueryMap, T>>
+        handlerLogic: QueryHandlerLogic<TQueryMap, T, TCommandMap, TEventMap>
       ) => {
         return TypedQueryBuilder.create(this.bus, queryType, handlerLogic);
       }
@@ -289,19 +315,15 @@ export class FluentBuilder<
    * Creates an event handler with fluent API.
    * @template T - Event type key
    * @param {T} eventType - The event type.
+   * @param {string} [name] - Name that identifies the handler, e.g. in dead letters (default: the name of the handler logic).
    * @returns {object} Fluent event builder.
    */
-  event<T extends EventType<TEventMap>>(eventType: T) {
+  event<T extends EventType<TEventMap>>(eventType: T, name?: string) {
     return {
       handle: (
-        handlerLogic: (
-          data: EventData<TEventMap, T>,
-          aggregateId: string,
-          version: number,
-          metadata?: Record<string, any>
-        ) => Promise<void>
+        handlerLogic: EventHandlerLogic<TEventMap, T, TCommandMap, TQueryMap>
       ) => {
-        return TypedEventBuilder.create(this.bus, eventType, handlerLogic);
+        return TypedEventBuilder.create(this.bus, eventType, handlerLogic, name);
       }
     };
   }
@@ -323,19 +345,21 @@ export class FluentBuilder<
  * Creates and registers a command handler.
  * @template TCommandMap - Command map type
  * @template T - Command type key
- * @param {TypeBus<TCommandMap, any, any>} bus - The TypeBus-CQRS instance.
+ * @template TQueryMap, TEventMap - Other message maps of the bus, for the handler context
+ * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus - The TypeBus-CQRS instance.
  * @param {T} commandType - The command type.
- * @param {(data: CommandData<TCommandMap, T>, aggregateId: string, metadata?: Record<string, any>) => Promise<CommandResult<TCommandMap, T>>} handlerLogic - The handler logic.
+ * @param {CommandHandlerLogic<TCommandMap, T, TQueryMap, TEventMap>} handlerLogic - The handler logic; receives a context as last argument.
  * @returns {object} Command executor.
  */
-export function createCommand<TCommandMap extends Record<string, any> = any, T extends CommandType<TCommandMap> = CommandType<TCommandMap>>(
-  bus: TypeBus<TCommandMap, any, any>,
+export function createCommand<
+  TCommandMap extends Record<string, any> = any,
+  T extends CommandType<TCommandMap> = CommandType<TCommandMap>,
+  TQueryMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+>(
+  bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
   commandType: T,
-  handlerLogic: (
-    data: CommandData<TCommandMap, T>,
-    aggregateId: string,
-    metadata?: Record<string, any>
-  ) => Promise<CommandResult<TCommandMap, T>>
+  handlerLogic: CommandHandlerLogic<TCommandMap, T, TQueryMap, TEventMap>
 ) {
   return TypedCommandBuilder.create(bus, commandType, handlerLogic);
 }
@@ -344,15 +368,21 @@ export function createCommand<TCommandMap extends Record<string, any> = any, T e
  * Creates and registers a query handler.
  * @template TQueryMap - Query map type
  * @template T - Query type key
- * @param {TypeBus<any, TQueryMap, any>} bus - The TypeBus-CQRS instance.
+ * @template TCommandMap, TEventMap - Other message maps of the bus, for the handler context
+ * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus - The TypeBus-CQRS instance.
  * @param {T} queryType - The query type.
- * @param {(params: QueryParams<TQueryMap, T>, metadata?: Record<string, any>) => Promise<QueryResult<TQueryMap, T>>} handlerLogic - The handler logic.
+ * @param {QueryHandlerLogic<TQueryMap, T, TCommandMap, TEventMap>} handlerLogic - The handler logic; receives a context as last argument.
  * @returns {object} Query executor.
  */
-export function createQuery<TQueryMap extends Record<string, any> = any, T extends QueryType<TQueryMap> = QueryType<TQueryMap>>(
-  bus: TypeBus<any, TQueryMap, any>,
+export function createQuery<
+  TQueryMap extends Record<string, any> = any,
+  T extends QueryType<TQueryMap> = QueryType<TQueryMap>,
+  TCommandMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any
+>(
+  bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
   queryType: T,
-  handlerLogic: (params: QueryParams<TQueryMap, T>, metadata?: Record<string, any>) => Promise<QueryResult<TQueryMap, T>>
+  handlerLogic: QueryHandlerLogic<TQueryMap, T, TCommandMap, TEventMap>
 ) {
   return TypedQueryBuilder.create(bus, queryType, handlerLogic);
 }
@@ -361,22 +391,25 @@ export function createQuery<TQueryMap extends Record<string, any> = any, T exten
  * Creates and registers an event handler.
  * @template TEventMap - Event map type
  * @template T - Event type key
- * @param {TypeBus<any, any, TEventMap>} bus - The TypeBus-CQRS instance.
+ * @template TCommandMap, TQueryMap - Other message maps of the bus, for the handler context
+ * @param {TypeBus<TCommandMap, TQueryMap, TEventMap>} bus - The TypeBus-CQRS instance.
  * @param {T} eventType - The event type.
- * @param {(data: EventData<TEventMap, T>, aggregateId: string, version: number, metadata?: Record<string, any>) => Promise<void>} handlerLogic - The handler logic.
+ * @param {EventHandlerLogic<TEventMap, T, TCommandMap, TQueryMap>} handlerLogic - The handler logic; receives a context as last argument.
+ * @param {string} [name] - Name that identifies the handler, e.g. in dead letters (default: the name of handlerLogic).
  * @returns {object} Event publisher.
  */
-export function createEventHandler<TEventMap extends Record<string, any> = any, T extends EventType<TEventMap> = EventType<TEventMap>>(
-  bus: TypeBus<any, any, TEventMap>,
+export function createEventHandler<
+  TEventMap extends Record<string, any> = any,
+  T extends EventType<TEventMap> = EventType<TEventMap>,
+  TCommandMap extends Record<string, any> = any,
+  TQueryMap extends Record<string, any> = any
+>(
+  bus: TypeBus<TCommandMap, TQueryMap, TEventMap>,
   eventType: T,
-  handlerLogic: (
-    data: EventData<TEventMap, T>,
-    aggregateId: string,
-    version: number,
-    metadata?: Record<string, any>
-  ) => Promise<void>
+  handlerLogic: EventHandlerLogic<TEventMap, T, TCommandMap, TQueryMap>,
+  name?: string
 ) {
-  return TypedEventBuilder.create(bus, eventType, handlerLogic);
+  return TypedEventBuilder.create(bus, eventType, handlerLogic, name);
 }
 
 /**
@@ -1,4 +1,5 @@
 /**
- * Exports all builder utilities for commands, queries, and events.
+ * Exports all builder utilities for commands, queries, and events, and the handler context.
  */
 export * from './TypedBuilders';
+export * from './HandlerContext';
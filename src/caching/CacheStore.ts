@@ -0,0 +1,40 @@
+// caching/CacheStore.ts - Контракт хранилища кэша результатов запросов
+/**
+ * Interface for query result cache stores.
+ * Entries are grouped by query type so that all results of a query can be evicted at once.
+ * @typedef {Object} ICacheStore
+ */
+export interface ICacheStore {
+  /**
+   * Gets an unexpired entry.
+   * @param {string} queryType
+   * @param {string} key - Key derived from the query params
+   * @returns {Promise<{ value: any } | undefined>} Wrapped so that cached undefined results count as hits.
+   */
+  get(queryType: string, key: string): Promise<{ value: any } | undefined>;
+
+  /**
+   * Stores a query result.
+   * @param {string} queryType
+   * @param {string} key
+   * @param {any} value
+   * @param {number} ttl - Milliseconds the entry stays valid
+   * @returns {Promise<void>}
+   */
+  set(queryType: string, key: string, value: any, ttl: number): Promise<void>;
+
+  /**
+   * Removes a single entry.
+   * @param {string} queryType
+   * @param {string} key
+   * @returns {Promise<boolean>} Whether an entry was removed.
+   */
+  delete(queryType: string, key: string): Promise<boolean>;
+
+  /**
+   * Removes all entries of a query type, or every entry when no type is given.
+   * @param {string} [queryType]
+   * @returns {Promise<number>} Number of removed entries.
+   */
+  clear(queryType?: string): Promise<number>;
+}
@@ -0,0 +1,75 @@
+// caching/InMemoryCacheStore.ts - Кэш результатов запросов в памяти
+import { ICacheStore } from './CacheStore';
+
+/**
+ * Cached value with its expiration time.
+ */
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+/**
+ * Cache store that keeps query results in memory until they expire.
+ * @implements {ICacheStore}
+ */
+export class InMemoryCacheStore implements ICacheStore {
+  private entries = new Map<string, Map<string, CacheEntry>>();
+
+  /**
+   * Gets an unexpired entry.
+   * @param {string} queryType
+   * @param {string} key
+   * @returns {Promise<{ value: any } | undefined>}
+   */
+  async get(queryType: string, key: string): Promise<{ value: any } | undefined> {
+    const entries = this.entries.get(queryType);
+    const entry = entries?.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      entries!.delete(key);
+      return undefined;
+    }
+    return { value: entry.value };
+  }
+
+  /**
+   * Stores a query result.
+   * @param {string} queryType
+   * @param {string} key
+   * @param {any} value
+   * @param {number} ttl
+   * @returns {Promise<void>}
+   */
+  async set(queryType: string, key: string, value: any, ttl: number): Promise<void> {
+    if (!this.entries.has(queryType)) {
+      this.entries.set(queryType, new Map());
+    }
+    this.entries.get(queryType)!.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Removes a single entry.
+   * @param {string} queryType
+   * @param {string} key
+   * @returns {Promise<boolean>}
+   */
+  async delete(queryType: string, key: string): Promise<boolean> {
+    return this.entries.get(queryType)?.delete(key) ?? false;
+  }
+
+  /**
+   * Removes all entries of a query type, or every entry.
+   * @param {string} [queryType]
+   * @returns {Promise<number>}
+   */
+  async clear(queryType?: string): Promise<number> {
+    const groups = queryType === undefined ? Array.from(this.entries.values()) : [this.entries.get(queryType)];
+    let removed = 0;
+    for (const entries of groups) {
+      removed += entries?.size ?? 0;
+      entries?.clear();
+    }
+    return removed;
+  }
+}
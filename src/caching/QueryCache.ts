@@ -0,0 +1,276 @@
+// caching/QueryCache.ts - Кэширование результатов запросов с инвалидацией по событиям
+import {
+  IMiddleware,
+  IMessage,
+  IEvent,
+  IMessageHandler,
+  QueryType,
+  QueryParams,
+  EventType
+} from '../types';
+import { TypeBus } from '../core/TypeBus';
+import { isQuery } from '../core/MessageFactory';
+import { Disposer, DISPOSE } from '../core/Disposer';
+import { ICacheStore } from './CacheStore';
+import { InMemoryCacheStore } from './InMemoryCacheStore';
+
+/**
+ * Decides which cached results an event evicts: `true` evicts every result of the query,
+ * a function returns the params of the results to evict (or undefined to keep them).
+ * @template TQueryMap, K, TEventMap, E
+ * @typedef {true | Function} InvalidationRule
+ */
+export type InvalidationRule<
+  TQueryMap extends Record<string, any>,
+  K extends QueryType<TQueryMap>,
+  TEventMap extends Record<string, any>,
+  E extends EventType<TEventMap>
+> = true | ((event: IEvent<TEventMap, E>) => QueryParams<TQueryMap, K> | QueryParams<TQueryMap, K>[] | undefined);
+
+/**
+ * Caching settings of a single query type.
+ * @template TQueryMap, TEventMap, K
+ * @typedef {Object} QueryCachePolicy
+ * @property {number} [ttl] - Milliseconds a result stays cached (default: QueryCacheOptions.defaultTtl)
+ * @property {(params: QueryParams<TQueryMap, K>) => string} [key] - Cache key (default: params as canonical JSON)
+ * @property {EventType[] | Object} [invalidatedBy] - Events that evict all results, or rules per event type
+ */
+export interface QueryCachePolicy<
+  TQueryMap extends Record<string, any>,
+  TEventMap extends Record<string, any>,
+  K extends QueryType<TQueryMap>
+> {
+  ttl?: number;
+  key?: (params: QueryParams<TQueryMap, K>) => string;
+  invalidatedBy?:
+    | EventType<TEventMap>[]
+    | { [E in EventType<TEventMap>]?: InvalidationRule<TQueryMap, K, TEventMap, E> };
+}
+
+/**
+ * Options for configuring a QueryCache.
+ * @template TQueryMap, TEventMap
+ * @typedef {Object} QueryCacheOptions
+ * @property {Object} queries - Policies of the cached query types; other queries are not cached
+ * @property {ICacheStore} [store] - Where results are kept (default: in memory)
+ * @property {number} [defaultTtl] - TTL of queries without their own (default: 60000)
+ */
+export interface QueryCacheOptions<TQueryMap extends Record<string, any>, TEventMap extends Record<string, any>> {
+  queries: { [K in QueryType<TQueryMap>]?: QueryCachePolicy<TQueryMap, TEventMap, K> };
+  store?: ICacheStore;
+  defaultTtl?: number;
+}
+
+/**
+ * Cache counters.
+ * @typedef {Object} QueryCacheStats
+ * @property {number} hits
+ * @property {number} misses
+ * @property {number} hitRate - hits / (hits + misses), 0 before the first lookup
+ * @property {number} invalidations - Entries evicted by events or invalidate()
+ * @property {Record<string, { hits: number, misses: number }>} queries - Counters per query type
+ */
+export interface QueryCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  invalidations: number;
+  queries: Record<string, { hits: number; misses: number }>;
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal params give equal keys.
+ * @param {unknown} value
+ * @returns {string}
+ */
+export function canonicalKey(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.keys(item).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = item[key];
+        return sorted;
+      }, {})
+      : item
+  ) ?? '';
+}
+
+/**
+ * Caches query results and evicts them when related events are published.
+ * The cache attaches itself to the bus as a middleware and subscribes to the events named in
+ * the invalidation rules. A result computed while one of its invalidating events was handled
+ * is returned but not cached, so eviction never races with a slow query.
+ * @template TQueryMap - Query map type
+ * @template TEventMap - Event map type
+ * @implements {IMiddleware}
+ */
+export class QueryCache<TQueryMap extends Record<string, any> = any, TEventMap extends Record<string, any> = any>
+implements IMiddleware {
+  private store: ICacheStore;
+  private defaultTtl: number;
+  private policies: QueryCacheOptions<TQueryMap, TEventMap>['queries'];
+  private generations = new Map<string, number>();
+  private stats = { hits: 0, misses: 0, invalidations: 0 };
+  private queryStats = new Map<string, { hits: number; misses: number }>();
+  private disposers: Disposer[] = [];
+
+  /**
+   * Creates a new QueryCache and attaches it to the bus.
+   * @param {TypeBus<any, TQueryMap, TEventMap>} bus
+   * @param {QueryCacheOptions<TQueryMap, TEventMap>} options
+   * @throws {QueryCacheAttachedError} When another cache is already attached to the bus.
+   */
+  constructor(bus: TypeBus<any, TQueryMap, TEventMap>, options: QueryCacheOptions<TQueryMap, TEventMap>) {
+    this.store = options.store ?? new InMemoryCacheStore();
+    this.defaultTtl = options.defaultTtl ?? 60000;
+    this.policies = options.queries;
+
+    this.disposers.push(bus.registerQueryCache(this));
+    for (const eventType of this.getInvalidatingEvents()) {
+      const handler: IMessageHandler<IEvent<TEventMap>, void> = {
+        name: 'query-cache',
+        handle: event => this.handleEvent(event)
+      };
+      this.disposers.push(bus.registerEventHandler(eventType, handler));
+    }
+    this.disposers.push(bus.use(this));
+  }
+
+  /**
+   * Returns the cached result of a query or executes it and caches the result.
+   * @template T, R
+   * @param {T} message - The message to process.
+   * @param {(message: T) => Promise<R>} next - The next middleware or handler.
+   * @returns {Promise<R>}
+   */
+  async execute<T extends IMessage, R>(message: T, next: (message: T) => Promise<R>): Promise<R> {
+    const policy = this.policies[message.type as QueryType<TQueryMap>];
+    if (!policy || !isQuery(message)) {
+      return next(message);
+    }
+
+    const key = this.getKey(message.type, message.params);
+    const counters = this.getQueryStats(message.type);
+    const cached = await this.store.get(message.type, key);
+    if (cached) {
+      this.stats.hits++;
+      counters.hits++;
+      return cached.value;
+    }
+
+    this.stats.misses++;
+    counters.misses++;
+    const generation = this.generations.get(message.type) ?? 0;
+    const result = await next(message);
+    if ((this.generations.get(message.type) ?? 0) === generation) {
+      await this.store.set(message.type, key, result, policy.ttl ?? this.defaultTtl);
+    }
+    return result;
+  }
+
+  /**
+   * Evicts the cached result for the given params, or every result of the query type.
+   * @template K
+   * @param {K} queryType
+   * @param {QueryParams<TQueryMap, K>} [params]
+   * @returns {Promise<number>} Number of evicted entries.
+   */
+  async invalidate<K extends QueryType<TQueryMap>>(queryType: K, params?: QueryParams<TQueryMap, K>): Promise<number> {
+    this.generations.set(queryType, (this.generations.get(queryType) ?? 0) + 1);
+    const removed = params === undefined
+      ? await this.store.clear(queryType)
+      : Number(await this.store.delete(queryType, this.getKey(queryType, params)));
+    this.stats.invalidations += removed;
+    return removed;
+  }
+
+  /**
+   * Gets the hit, miss and invalidation counters.
+   * @returns {QueryCacheStats}
+   */
+  getStats(): QueryCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    const queries: QueryCacheStats['queries'] = {};
+    this.queryStats.forEach((counters, type) => {
+      queries[type] = { ...counters };
+    });
+    return { ...this.stats, hitRate: lookups === 0 ? 0 : this.stats.hits / lookups, queries };
+  }
+
+  /**
+   * Detaches the cache from the bus: queries are no longer cached and events no longer evict.
+   * Cached results stay in the store.
+   */
+  dispose(): void {
+    this.disposers.splice(0).forEach(dispose => dispose());
+  }
+
+  /**
+   * Same as dispose, for `using` declarations.
+   */
+  [DISPOSE](): void {
+    this.dispose();
+  }
+
+  /**
+   * Applies the invalidation rules of all queries to a published event.
+   * @param {IEvent<TEventMap>} event
+   * @returns {Promise<void>}
+   */
+  private async handleEvent(event: IEvent<TEventMap>): Promise<void> {
+    for (const [queryType, policy] of Object.entries(this.policies)) {
+      const invalidatedBy = policy?.invalidatedBy;
+      if (Array.isArray(invalidatedBy)) {
+        if (invalidatedBy.includes(event.type)) await this.invalidate(queryType);
+        continue;
+      }
+      const rule = invalidatedBy?.[event.type] as InvalidationRule<TQueryMap, any, TEventMap, any> | undefined;
+      if (rule === true) {
+        await this.invalidate(queryType);
+      } else if (rule) {
+        const params = rule(event);
+        for (const item of Array.isArray(params) ? params : params === undefined ? [] : [params]) {
+          await this.invalidate(queryType, item);
+        }
+      }
+    }
+  }
+
+  /**
+   * Collects the event types named in any invalidation rule.
+   * @returns {EventType<TEventMap>[]}
+   */
+  private getInvalidatingEvents(): EventType<TEventMap>[] {
+    const eventTypes = new Set<EventType<TEventMap>>();
+    for (const policy of Object.values(this.policies)) {
+      const invalidatedBy = policy?.invalidatedBy;
+      const types = Array.isArray(invalidatedBy) ? invalidatedBy : Object.keys(invalidatedBy ?? {});
+      types.forEach(type => eventTypes.add(type));
+    }
+    return Array.from(eventTypes);
+  }
+
+  /**
+   * Derives the cache key of query params.
+   * @param {string} queryType
+   * @param {any} params
+   * @returns {string}
+   */
+  private getKey(queryType: string, params: any): string {
+    const key = this.policies[queryType as QueryType<TQueryMap>]?.key;
+    return key ? key(params) : canonicalKey(params);
+  }
+
+  /**
+   * Gets or creates the counters of a query type.
+   * @param {string} queryType
+   * @returns {{ hits: number, misses: number }}
+   */
+  private getQueryStats(queryType: string): { hits: number; misses: number } {
+    let counters = this.queryStats.get(queryType);
+    if (!counters) {
+      counters = { hits: 0, misses: 0 };
+      this.queryStats.set(queryType, counters);
+    }
+    return counters;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Exports query result caching.
+ */
+export * from './CacheStore';
+export * from './InMemoryCacheStore';
+export * from './QueryCache';
@@ -0,0 +1,87 @@
+// core/DispatchContext.ts - Контекст текущей доставки сообщения
+import { AsyncLocalStorage } from 'async_hooks';
+import { IMessage } from '../types';
+import { EffectivePolicy } from './PolicyRegistry';
+
+/**
+ * Information about the dispatch currently running the middleware pipeline.
+ * @typedef {Object} DispatchContext
+ * @property {IMessage} message - The dispatched message
+ * @property {number} deadline - Epoch milliseconds at which the dispatch times out
+ * @property {AbortSignal} signal - Aborted when the dispatch times out or the caller cancels it
+ * @property {EffectivePolicy} policy - Policy of the message type
+ */
+export interface DispatchContext {
+  readonly message: IMessage;
+  readonly deadline: number;
+  readonly signal: AbortSignal;
+  readonly policy: EffectivePolicy;
+}
+
+const storage = new AsyncLocalStorage<DispatchContext>();
+
+/**
+ * Gets the context of the dispatch the caller runs in, if any.
+ * Available in middleware and handlers; nested dispatches see their own context.
+ * @returns {DispatchContext | undefined}
+ */
+export function getDispatchContext(): DispatchContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs a function outside of any dispatch context, e.g. work detached from its publisher.
+ * @template T
+ * @param {() => T} fn
+ * @returns {T}
+ */
+export function runOutsideDispatchContext<T>(fn: () => T): T {
+  return storage.exit(fn);
+}
+
+/**
+ * Runs a function within a dispatch context.
+ * @template T
+ * @param {DispatchContext} context
+ * @param {() => T} fn
+ * @returns {T}
+ */
+export function runInDispatchContext<T>(context: DispatchContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Signal linked by linkDispatchSignal.
+ * @typedef {Object} LinkedSignal
+ * @property {AbortSignal} [signal] - Aborted when any of the linked signals aborts
+ * @property {() => void} unlink - Removes the listeners from the linked signals
+ */
+export interface LinkedSignal {
+  readonly signal?: AbortSignal;
+  unlink(): void;
+}
+
+/**
+ * Links a caller's signal with the signal of the dispatch the caller runs in, so the work it
+ * starts is cancelled by either of them. Call `unlink` once the work has settled.
+ * @param {AbortSignal} [signal] - Caller's signal
+ * @returns {LinkedSignal}
+ */
+export function linkDispatchSignal(signal?: AbortSignal): LinkedSignal {
+  const parent = getDispatchContext()?.signal;
+  if (!signal || !parent || signal === parent) {
+    return { signal: signal ?? parent, unlink: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const unlinks = [signal, parent].map(source => {
+    const onAbort = () => controller.abort(source.reason);
+    if (source.aborted) {
+      onAbort();
+    } else {
+      source.addEventListener('abort', onAbort, { once: true });
+    }
+    return () => source.removeEventListener('abort', onAbort);
+  });
+  return { signal: controller.signal, unlink: () => unlinks.forEach(unlink => unlink()) };
+}
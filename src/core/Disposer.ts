@@ -0,0 +1,33 @@
+// core/Disposer.ts - Функции отмены регистрации обработчиков и middleware
+
+/**
+ * `Symbol.dispose` where the runtime provides it, otherwise the symbol used by Node's polyfills.
+ * Typed as `Symbol.dispose` (declared by the Node typings) even where the runtime lacks it.
+ */
+export const DISPOSE: typeof Symbol.dispose = (Symbol.dispose ?? Symbol.for('nodejs.dispose')) as typeof Symbol.dispose;
+
+/**
+ * Function that undoes a registration. Calling it again has no effect.
+ * Also usable with `using` through `Symbol.dispose`.
+ * @typedef {Function} Disposer
+ */
+export interface Disposer {
+  (): void;
+  [DISPOSE](): void;
+}
+
+/**
+ * Wraps a removal function into an idempotent disposer.
+ * @param {() => void} dispose
+ * @returns {Disposer}
+ */
+export function createDisposer(dispose: () => void): Disposer {
+  let disposed = false;
+  const disposer = (() => {
+    if (disposed) return;
+    disposed = true;
+    dispose();
+  }) as Disposer;
+  disposer[DISPOSE] = disposer;
+  return disposer;
+}
@@ -0,0 +1,128 @@
+// core/EventDispatch.ts - Стратегии доставки событий обработчикам
+import { IMessage, IMessageHandler } from '../types';
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+
+/**
+ * How an event is delivered to its handlers.
+ * - `parallel-fail-fast`: all handlers at once; rejects with the first error
+ * - `parallel-settle-all`: all handlers at once; waits for all, then rejects with an EventDispatchError
+ * - `sequential`: one after another in registration order; runs all, then rejects with an EventDispatchError
+ * - `sequential-stop-on-error`: one after another; stops and rejects with the first error
+ * @typedef {'parallel-fail-fast'|'parallel-settle-all'|'sequential'|'sequential-stop-on-error'} EventDispatchStrategy
+ */
+export type EventDispatchStrategy =
+  | 'parallel-fail-fast'
+  | 'parallel-settle-all'
+  | 'sequential'
+  | 'sequential-stop-on-error';
+
+/**
+ * A handler that failed while an event was dispatched.
+ * @typedef {Object} HandlerFailure
+ * @property {number} index - Position of the handler in registration order
+ * @property {string} handler - Handler name, or `#<index>` for unnamed handlers
+ * @property {unknown} error - What the handler threw
+ */
+export interface HandlerFailure {
+  index: number;
+  handler: string;
+  error: unknown;
+}
+
+/**
+ * Error thrown when one or more handlers of an event fail under a settling strategy.
+ */
+export class EventDispatchError extends TypeBusError {
+  /**
+   * @param {string} eventType - Type of the dispatched event.
+   * @param {HandlerFailure[]} failures - Every failed handler with its error.
+   * @param {number} handlerCount - Number of handlers the event was dispatched to.
+   * @param {TypeBusErrorOptions} [options] - The cause defaults to the error of the first failed handler
+   */
+  constructor(
+    public readonly eventType: string,
+    public readonly failures: HandlerFailure[],
+    public readonly handlerCount: number,
+    options: TypeBusErrorOptions = {}
+  ) {
+    const details = failures
+      .map(f => `${f.handler}: ${f.error instanceof Error ? f.error.message : String(f.error)}`)
+      .join('; ');
+    super(ErrorCode.EVENT_DISPATCH_FAILED, `${failures.length} of ${handlerCount} handlers failed for ${eventType}: ${details}`, {
+      cause: failures[0]?.error,
+      ...options,
+      messageType: eventType
+    });
+    this.name = 'EventDispatchError';
+  }
+}
+
+/**
+ * Runs the handlers of an event according to a dispatch strategy.
+ * @template H
+ * @param {IMessage} event
+ * @param {H[]} handlers
+ * @param {EventDispatchStrategy} strategy
+ * @param {(handler: H) => Promise<void>} run - Delivers the event to one handler
+ * @returns {Promise<void>}
+ */
+export async function dispatchToHandlers<H extends IMessageHandler>(
+  event: IMessage,
+  handlers: H[],
+  strategy: EventDispatchStrategy,
+  run: (handler: H) => Promise<void>
+): Promise<void> {
+  switch (strategy) {
+    case 'parallel-fail-fast':
+      await Promise.all(handlers.map(run));
+      return;
+    case 'sequential-stop-on-error':
+      for (const handler of handlers) {
+        await run(handler);
+      }
+      return;
+    case 'parallel-settle-all': {
+      const results = await Promise.allSettled(handlers.map(run));
+      const failures = results.flatMap((result, index) =>
+        result.status === 'rejected' ? [toFailure(handlers[index], index, result.reason)] : []
+      );
+      throwIfFailed(event, failures, handlers.length);
+      return;
+    }
+    case 'sequential': {
+      const failures: HandlerFailure[] = [];
+      for (const [index, handler] of handlers.entries()) {
+        try {
+          await run(handler);
+        } catch (error) {
+          failures.push(toFailure(handler, index, error));
+        }
+      }
+      throwIfFailed(event, failures, handlers.length);
+      return;
+    }
+  }
+}
+
+/**
+ * Describes a failed handler.
+ * @param {IMessageHandler} handler
+ * @param {number} index
+ * @param {unknown} error
+ * @returns {HandlerFailure}
+ */
+function toFailure(handler: IMessageHandler, index: number, error: unknown): HandlerFailure {
+  return { index, handler: handler.name ?? `#${index}`, error };
+}
+
+/**
+ * Throws an EventDispatchError when any handler failed.
+ * @param {IMessage} event
+ * @param {HandlerFailure[]} failures
+ * @param {number} handlerCount
+ */
+function throwIfFailed(event: IMessage, failures: HandlerFailure[], handlerCount: number): void {
+  if (failures.length > 0) {
+    throw new EventDispatchError(event.type, failures, handlerCount, { messageId: event.id });
+  }
+}
@@ -0,0 +1,223 @@
+// core/EventQueue.ts - Фоновая очередь событий с ограничением параллелизма
+import { AsyncLocalStorage } from 'async_hooks';
+import { IEvent } from '../types';
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+
+/**
+ * What happens to a publish when the queue is full.
+ * @typedef {'block'|'drop'|'reject'} QueueOverflowStrategy
+ */
+export type QueueOverflowStrategy = 'block' | 'drop' | 'reject';
+
+/**
+ * Options for configuring the background event queue.
+ * @typedef {Object} EventQueueOptions
+ * @property {number} [maxSize] - Events waiting for a worker before the queue is full (default: 1000)
+ * @property {number} [concurrency] - Events of one type dispatched at the same time (default: 1);
+ *   the `concurrency` of a message policy overrides it per type
+ * @property {QueueOverflowStrategy} [overflow] - Wait for space, drop the event, or throw an EventQueueFullError (default: 'block');
+ *   events published by queued handlers never wait, since only those handlers can free the space
+ * @property {(error: unknown, event: IEvent) => void} [onError] - Called when a background dispatch fails (default: logs the error)
+ */
+export interface EventQueueOptions {
+  maxSize?: number;
+  concurrency?: number;
+  overflow?: QueueOverflowStrategy;
+  onError?: (error: unknown, event: IEvent) => void;
+}
+
+/**
+ * Queue counters.
+ * @typedef {Object} EventQueueStats
+ */
+export interface EventQueueStats {
+  queued: number;
+  inFlight: number;
+  processed: number;
+  failed: number;
+  dropped: number;
+}
+
+/**
+ * Error thrown for events published while the queue is full in 'reject' mode.
+ */
+export class EventQueueFullError extends TypeBusError {
+  /**
+   * @param {string} eventType - Type of the rejected event.
+   * @param {number} maxSize - Capacity of the queue.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(public readonly eventType: string, public readonly maxSize: number, options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.EVENT_QUEUE_FULL, `Event queue is full (${maxSize} events); ${eventType} was rejected`, {
+      ...options,
+      messageType: eventType
+    });
+    this.name = 'EventQueueFullError';
+  }
+}
+
+/**
+ * In-process queue that dispatches events in the background.
+ * Events are taken in publish order, skipping types that already run at their concurrency
+ * limit, so a slow event type does not hold up the others.
+ */
+export class EventQueue {
+  private options: Required<Omit<EventQueueOptions, 'concurrency'>>;
+  private items: IEvent[] = [];
+  private active = new Map<string, number>();
+  private inFlight = 0;
+  private counters = { processed: 0, failed: 0, dropped: 0 };
+  private spaceWaiters: Array<() => void> = [];
+  private drainWaiters: Array<() => void> = [];
+  private worker = new AsyncLocalStorage<IEvent>();
+
+  /**
+   * Creates a new EventQueue.
+   * @param {(event: IEvent) => Promise<void>} dispatch - Delivers an event to its handlers
+   * @param {(eventType: string) => number} getConcurrency - Concurrency limit of an event type
+   * @param {EventQueueOptions} [options]
+   */
+  constructor(
+    private readonly dispatch: (event: IEvent) => Promise<void>,
+    private readonly getConcurrency: (eventType: string) => number,
+    options: EventQueueOptions = {}
+  ) {
+    this.options = {
+      maxSize: 1000,
+      overflow: 'block',
+      onError: (error, event) => console.error(`❌ Background dispatch of ${event.type} failed:`, error),
+      ...options
+    };
+  }
+
+  /**
+   * Adds an event to the queue, applying the overflow strategy when the queue is full.
+   * In 'block' mode, an event published by a queued handler is added beyond the capacity:
+   * waiting would deadlock once every worker waits for space only the workers can free.
+   * @param {IEvent} event
+   * @param {AbortSignal} [signal] - Cancels waiting for space in 'block' mode
+   * @returns {Promise<boolean>} False when the event was dropped.
+   */
+  async enqueue(event: IEvent, signal?: AbortSignal): Promise<boolean> {
+    while (this.items.length >= this.options.maxSize) {
+      if (this.options.overflow === 'drop') {
+        this.counters.dropped++;
+        return false;
+      }
+      if (this.options.overflow === 'reject') {
+        throw new EventQueueFullError(event.type, this.options.maxSize, { messageId: event.id });
+      }
+      if (this.worker.getStore()) break;
+      await this.waitForSpace(signal);
+    }
+    this.items.push(event);
+    this.pump();
+    return true;
+  }
+
+  /**
+   * Resolves once the queue is empty and no dispatch is running.
+   * @returns {Promise<void>}
+   */
+  drain(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise(resolve => this.drainWaiters.push(resolve));
+  }
+
+  /**
+   * Discards the events no worker has taken yet; they count as dropped.
+   * Running dispatches are not affected.
+   * @returns {number} Number of discarded events.
+   */
+  clear(): number {
+    const discarded = this.items.splice(0);
+    this.counters.dropped += discarded.length;
+    this.spaceWaiters.splice(0).forEach(release => release());
+    if (this.isIdle()) {
+      this.drainWaiters.splice(0).forEach(resolve => resolve());
+    }
+    return discarded.length;
+  }
+
+  /**
+   * Gets the queue counters.
+   * @returns {EventQueueStats}
+   */
+  getStats(): EventQueueStats {
+    return { queued: this.items.length, inFlight: this.inFlight, ...this.counters };
+  }
+
+  /**
+   * Starts dispatches for queued events whose type is below its concurrency limit.
+   */
+  private pump(): void {
+    let index = 0;
+    while (index < this.items.length) {
+      const event = this.items[index];
+      const active = this.active.get(event.type) ?? 0;
+      if (active >= this.getConcurrency(event.type)) {
+        index++;
+        continue;
+      }
+      this.items.splice(index, 1);
+      this.active.set(event.type, active + 1);
+      this.inFlight++;
+      this.spaceWaiters.shift()?.();
+      void this.run(event);
+    }
+  }
+
+  /**
+   * Dispatches one event and frees its slot afterwards.
+   * @param {IEvent} event
+   * @returns {Promise<void>}
+   */
+  private async run(event: IEvent): Promise<void> {
+    try {
+      await this.worker.run(event, () => this.dispatch(event));
+      this.counters.processed++;
+    } catch (error) {
+      this.counters.failed++;
+      this.options.onError(error, event);
+    } finally {
+      this.active.set(event.type, this.active.get(event.type)! - 1);
+      this.inFlight--;
+      this.pump();
+      if (this.isIdle()) {
+        this.drainWaiters.splice(0).forEach(resolve => resolve());
+      }
+    }
+  }
+
+  /**
+   * Waits until a queued event is taken by a worker.
+   * @param {AbortSignal} [signal]
+   * @returns {Promise<void>}
+   */
+  private waitForSpace(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        this.spaceWaiters = this.spaceWaiters.filter(waiter => waiter !== release);
+        reject(signal!.reason);
+      };
+      const release = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.spaceWaiters.push(release);
+    });
+  }
+
+  /**
+   * Checks whether all queued work is finished.
+   * @returns {boolean}
+   */
+  private isIdle(): boolean {
+    return this.items.length === 0 && this.inFlight === 0;
+  }
+}
@@ -0,0 +1,103 @@
+// core/InFlight.ts - Учёт выполняющихся диспатчей и корректное завершение работы шины
+import { MessageKind } from '../types';
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+
+/**
+ * Kind of a tracked dispatch.
+ * @typedef {MessageKind} DispatchKind
+ */
+export type DispatchKind = MessageKind;
+
+/**
+ * Live number of running dispatches, nested ones included.
+ * @typedef {Object} InFlightCounts
+ * @property {number} commands
+ * @property {number} queries
+ * @property {number} events - Running event dispatches (not queued ones)
+ * @property {number} total
+ */
+export interface InFlightCounts {
+  commands: number;
+  queries: number;
+  events: number;
+  total: number;
+}
+
+/**
+ * Options for closing the bus.
+ * @typedef {Object} CloseOptions
+ * @property {number} [timeout] - Milliseconds to wait for in-flight work before aborting it (default: 30000)
+ */
+export interface CloseOptions {
+  timeout?: number;
+}
+
+/**
+ * Error thrown for messages dispatched to a bus that is closing or closed. Also used as the
+ * abort reason of dispatches still running when the close timeout elapses.
+ */
+export class BusClosedError extends TypeBusError {
+  declare readonly messageType: string;
+
+  /**
+   * @param {string} messageType - Type of the rejected or aborted message.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(messageType: string, options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.BUS_CLOSED, `Cannot dispatch '${messageType}': the bus is closed`, { ...options, messageType });
+    this.name = 'BusClosedError';
+  }
+}
+
+/**
+ * Counts running dispatches per kind and notifies waiters once none are left.
+ */
+export class InFlightTracker {
+  private counts: Record<DispatchKind, number> = { command: 0, query: 0, event: 0 };
+  private idleWaiters: Array<() => void> = [];
+
+  /**
+   * Counts a dispatch while it runs.
+   * @template T
+   * @param {DispatchKind} kind
+   * @param {() => Promise<T>} run
+   * @returns {Promise<T>}
+   */
+  async track<T>(kind: DispatchKind, run: () => Promise<T>): Promise<T> {
+    this.counts[kind]++;
+    try {
+      return await run();
+    } finally {
+      this.counts[kind]--;
+      if (this.isIdle()) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+    }
+  }
+
+  /**
+   * Resolves once no dispatch is running.
+   * @returns {Promise<void>}
+   */
+  whenIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Gets the current counts.
+   * @returns {InFlightCounts}
+   */
+  getCounts(): InFlightCounts {
+    const { command, query, event } = this.counts;
+    return { commands: command, queries: query, events: event, total: command + query + event };
+  }
+
+  /**
+   * Checks whether no dispatch is running.
+   * @returns {boolean}
+   */
+  private isIdle(): boolean {
+    return this.counts.command + this.counts.query + this.counts.event === 0;
+  }
+}
@@ -0,0 +1,41 @@
+// core/Logger.ts - Логгер с префиксом, учитывающий настройки логирования шины
+import { TypeBusConfig } from '../types';
+
+/**
+ * Logger handed to handlers.
+ * @typedef {Object} Logger
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Creates a logger that prefixes every line with its scope. Like the bus itself, it logs nothing
+ * without `enableLogging`; debug output additionally needs the 'debug' or 'verbose' log level,
+ * and info is suppressed at the 'error' level.
+ * @param {string} scope - Prefix, e.g. the type and id of the handled message
+ * @param {Pick<TypeBusConfig, 'enableLogging' | 'logLevel'>} config
+ * @returns {Logger}
+ */
+export function createLogger(scope: string, config: Pick<TypeBusConfig, 'enableLogging' | 'logLevel'>): Logger {
+  const { enableLogging = true, logLevel = 'info' } = config;
+  const prefix = `[${scope}]`;
+  const noop = () => undefined;
+  return {
+    debug: enableLogging && (logLevel === 'debug' || logLevel === 'verbose')
+      ? (message, ...args) => console.log(`🐛 ${prefix} ${message}`, ...args)
+      : noop,
+    info: enableLogging && logLevel !== 'error'
+      ? (message, ...args) => console.log(`ℹ️ ${prefix} ${message}`, ...args)
+      : noop,
+    warn: enableLogging
+      ? (message, ...args) => console.warn(`⚠️ ${prefix} ${message}`, ...args)
+      : noop,
+    error: enableLogging
+      ? (message, ...args) => console.error(`❌ ${prefix} ${message}`, ...args)
+      : noop
+  };
+}
@@ -0,0 +1,66 @@
+// core/MessageContext.ts - Сквозной контекст сообщений: correlation и causation идентификаторы
+import { AsyncLocalStorage } from 'async_hooks';
+import { IMessage } from '../types';
+
+/**
+ * Ambient message context. Messages created by the MessageFactory while it is set continue
+ * its correlation and are caused by its message.
+ * @typedef {Object} MessageContext
+ * @property {string} correlationId - Id shared by all messages descending from the same root
+ * @property {string} [causationId] - Id of the message that caused the current one
+ * @property {string} [messageId] - Id of the message being handled; absent in a seeded context
+ * @property {string} [messageType] - Type of the message being handled
+ */
+export interface MessageContext {
+  readonly correlationId: string;
+  readonly causationId?: string;
+  readonly messageId?: string;
+  readonly messageType?: string;
+}
+
+const storage = new AsyncLocalStorage<MessageContext>();
+
+/**
+ * Gets the ambient message context, if any.
+ * Set while a message is handled, including in middleware and in code the handler calls.
+ * @returns {MessageContext | undefined}
+ */
+export function getMessageContext(): MessageContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs a function within a message context, e.g. to continue the correlation id of an
+ * incoming request in the messages dispatched for it.
+ * @template T
+ * @param {MessageContext} context
+ * @param {() => T} fn
+ * @returns {T}
+ */
+export function runInMessageContext<T>(context: MessageContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Runs a function outside of any message context, e.g. work detached from its publisher.
+ * @template T
+ * @param {() => T} fn
+ * @returns {T}
+ */
+export function runOutsideMessageContext<T>(fn: () => T): T {
+  return storage.exit(fn);
+}
+
+/**
+ * Gets the context in which a message is handled.
+ * @param {IMessage} message
+ * @returns {MessageContext}
+ */
+export function toMessageContext(message: IMessage): MessageContext {
+  return {
+    correlationId: message.correlationId ?? message.id,
+    causationId: message.causationId,
+    messageId: message.id,
+    messageType: message.type
+  };
+}
@@ -1,4 +1,5 @@
 import {
+  IMessage,
   ICommand,
   IQuery,
   IEvent,
@@ -9,10 +10,39 @@ import {
   QueryParams,
   EventData
 } from '../types';
+import { getMessageContext } from './MessageContext';
+
+/**
+ * Checks whether a message is a command.
+ * @param {IMessage} message
+ * @returns {boolean}
+ */
+export function isCommand(message: IMessage): message is ICommand {
+  return message.kind === 'command';
+}
+
+/**
+ * Checks whether a message is a query.
+ * @param {IMessage} message
+ * @returns {boolean}
+ */
+export function isQuery(message: IMessage): message is IQuery {
+  return message.kind === 'query';
+}
+
+/**
+ * Checks whether a message is an event.
+ * @param {IMessage} message
+ * @returns {boolean}
+ */
+export function isEvent(message: IMessage): message is IEvent {
+  return message.kind === 'event';
+}
 
 /**
  * Factory class for creating message instances.
- * Handles the creation of commands, queries, and events with proper typing.
+ * Handles the creation of commands, queries, and events with proper typing. Messages created
+ * within a message context continue its correlation and are caused by its message.
  */
 export class MessageFactory {
   /**
@@ -32,9 +62,9 @@ export class MessageFactory {
     metadata?: Record<string, any>
   ): ICommand<TCommandMap, T> {
     return {
-      id: this.generateId(),
+      ...this.createHeader(),
       type,
-      timestamp: new Date(),
+      kind: 'command',
       data,
       aggregateId,
       metadata
@@ -56,9 +86,9 @@ export class MessageFactory {
     metadata?: Record<string, any>
   ): IQuery<TQueryMap, T> {
     return {
-      id: this.generateId(),
+      ...this.createHeader(),
       type,
-      timestamp: new Date(),
+      kind: 'query',
       params,
       metadata
     };
@@ -83,9 +113,9 @@ export class MessageFactory {
     metadata?: Record<string, any>
   ): IEvent<TEventMap, T> {
     return {
-      id: this.generateId(),
+      ...this.createHeader(),
       type,
-      timestamp: new Date(),
+      kind: 'event',
       data,
       aggregateId,
       version,
@@ -93,6 +123,17 @@ export class MessageFactory {
     };
   }
 
+  /**
+   * Creates the id, timestamp and lineage of a new message.
+   * @returns {{ id: string; timestamp: Date; correlationId: string; causationId?: string }}
+   */
+  private createHeader(): { id: string; timestamp: Date; correlationId: string; causationId?: string } {
+    const id = this.generateId();
+    const context = getMessageContext();
+    const header = { id, timestamp: new Date(), correlationId: context?.correlationId ?? id };
+    return context?.messageId ? { ...header, causationId: context.messageId } : header;
+  }
+
   /**
    * Generates a unique message ID.
    * @returns {string} A unique message ID.
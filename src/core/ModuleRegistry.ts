@@ -0,0 +1,348 @@
+// core/ModuleRegistry.ts - Установка модулей и расширений, их зависимости и жизненный цикл
+import { AsyncLocalStorage } from 'async_hooks';
+import { ITypeBusModule, ITypeBusExtension, IMessageBus } from '../types';
+import { Disposer } from './Disposer';
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+
+/**
+ * Kind of an installed unit.
+ * @typedef {'module'|'extension'} ModuleKind
+ */
+export type ModuleKind = 'module' | 'extension';
+
+/**
+ * Description of an installed module or extension.
+ * @typedef {Object} InstalledModule
+ * @property {string} name
+ * @property {string} [version]
+ * @property {ModuleKind} kind
+ * @property {string[]} dependencies
+ * @property {number} registrations - Handlers and middleware registered while it was installed
+ * @property {boolean} started
+ */
+export interface InstalledModule {
+  name: string;
+  version?: string;
+  kind: ModuleKind;
+  dependencies: string[];
+  registrations: number;
+  started: boolean;
+}
+
+/**
+ * Error thrown when uninstalling a module or extension that is not installed.
+ */
+export class ModuleNotInstalledError extends TypeBusError {
+  /**
+   * @param {string} moduleName
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(public readonly moduleName: string, options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.MODULE_NOT_INSTALLED, `Module '${moduleName}' is not installed`, options);
+    this.name = 'ModuleNotInstalledError';
+  }
+}
+
+/**
+ * Error thrown when installing a module or extension whose name is already taken.
+ */
+export class ModuleAlreadyInstalledError extends TypeBusError {
+  /**
+   * @param {string} moduleName
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(public readonly moduleName: string, options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.MODULE_ALREADY_INSTALLED, `Module '${moduleName}' is already installed`, options);
+    this.name = 'ModuleAlreadyInstalledError';
+  }
+}
+
+/**
+ * Error thrown when uninstalling a module that installed modules still depend on.
+ */
+export class ModuleInUseError extends TypeBusError {
+  /**
+   * @param {string} moduleName
+   * @param {string[]} dependents - Names of the installed units that depend on it.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(
+    public readonly moduleName: string,
+    public readonly dependents: string[],
+    options: TypeBusErrorOptions = {}
+  ) {
+    super(
+      ErrorCode.MODULE_IN_USE,
+      `Cannot uninstall module '${moduleName}': required by ${dependents.map(d => `'${d}'`).join(', ')}`,
+      options
+    );
+    this.name = 'ModuleInUseError';
+  }
+}
+
+/**
+ * Error thrown when a dependency is neither installed nor part of the installed batch.
+ */
+export class ModuleDependencyMissingError extends TypeBusError {
+  /**
+   * @param {string} moduleName
+   * @param {string} dependency - Name of the missing dependency.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(
+    public readonly moduleName: string,
+    public readonly dependency: string,
+    options: TypeBusErrorOptions = {}
+  ) {
+    super(
+      ErrorCode.MODULE_DEPENDENCY_MISSING,
+      `Module '${moduleName}' depends on '${dependency}', which is not installed`,
+      options
+    );
+    this.name = 'ModuleDependencyMissingError';
+  }
+}
+
+/**
+ * Error thrown when the dependencies of an installed batch form a cycle.
+ */
+export class ModuleDependencyCycleError extends TypeBusError {
+  /**
+   * @param {string[]} cycle - Module names along the cycle, the first repeated at the end.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(public readonly cycle: string[], options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.MODULE_DEPENDENCY_CYCLE, `Circular module dependency: ${cycle.join(' -> ')}`, options);
+    this.name = 'ModuleDependencyCycleError';
+  }
+}
+
+/**
+ * Module or extension waiting to be installed.
+ */
+type Installable =
+  | { kind: 'module'; unit: ITypeBusModule }
+  | { kind: 'extension'; unit: ITypeBusExtension };
+
+/**
+ * Bookkeeping of an installed unit.
+ */
+type ModuleEntry = Installable & {
+  disposers: Disposer[];
+  started: boolean;
+};
+
+/**
+ * Installs modules and extensions on a bus in dependency order.
+ * Registrations made while a unit installs are recorded, so uninstalling it (or a failed
+ * install) removes exactly what it added. Start hooks run in install order, stop hooks in
+ * reverse install order.
+ */
+export class ModuleRegistry {
+  private entries = new Map<string, ModuleEntry>();
+  private recording = new AsyncLocalStorage<Disposer[]>();
+  private running = false;
+
+  /**
+   * Creates a new ModuleRegistry.
+   * @param {IMessageBus} bus - The bus the units are installed on.
+   * @param {boolean} [enableLogging] - Whether failing stop hooks are logged (default: true)
+   */
+  constructor(private readonly bus: IMessageBus, private readonly enableLogging = true) {}
+
+  /**
+   * Records a registration for the unit that is being installed, if any.
+   * @param {Disposer} disposer
+   * @returns {Disposer} The same disposer.
+   */
+  track(disposer: Disposer): Disposer {
+    this.recording.getStore()?.push(disposer);
+    return disposer;
+  }
+
+  /**
+   * Installs units after checking that their dependencies are installed or part of the batch.
+   * Nothing is installed when a check fails. A unit whose install or start hook fails is rolled
+   * back; units of the batch installed before it stay installed.
+   * @param {Installable[]} batch
+   * @returns {Promise<void>}
+   */
+  async install(batch: Installable[]): Promise<void> {
+    for (const item of this.sortByDependencies(batch)) {
+      await this.installOne(item);
+    }
+  }
+
+  /**
+   * Stops (if started) and removes a unit along with everything it registered.
+   * @param {string} name
+   * @returns {Promise<void>}
+   */
+  async uninstall(name: string): Promise<void> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new ModuleNotInstalledError(name);
+    }
+    const dependents = Array.from(this.entries.values())
+      .filter(other => other.unit.dependencies?.includes(name))
+      .map(other => other.unit.name);
+    if (dependents.length > 0) {
+      throw new ModuleInUseError(name, dependents);
+    }
+
+    this.entries.delete(name);
+    try {
+      if (entry.started) {
+        entry.started = false;
+        await entry.unit.stop?.(this.bus);
+      }
+      if (entry.kind === 'extension') {
+        entry.unit.uninstall?.(this.bus);
+      }
+    } finally {
+      this.rollback(entry.disposers);
+    }
+  }
+
+  /**
+   * Runs the start hooks of all installed units in install order. Units installed later are
+   * started right away.
+   * @returns {Promise<void>}
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    for (const entry of this.entries.values()) {
+      if (!entry.started) {
+        await entry.unit.start?.(this.bus);
+        entry.started = true;
+      }
+    }
+  }
+
+  /**
+   * Runs the stop hooks of all started units in reverse install order. A failing hook does not
+   * keep the remaining units from stopping; the first error is rethrown at the end.
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    let failure: { error: unknown } | undefined;
+    for (const entry of Array.from(this.entries.values()).reverse()) {
+      if (!entry.started) continue;
+      entry.started = false;
+      try {
+        await entry.unit.stop?.(this.bus);
+      } catch (error) {
+        if (this.enableLogging) {
+          console.error(`❌ Failed to stop module '${entry.unit.name}':`, error);
+        }
+        failure ??= { error };
+      }
+    }
+    if (failure) throw failure.error;
+  }
+
+  /**
+   * Gets the installed units in install order.
+   * @returns {InstalledModule[]}
+   */
+  list(): InstalledModule[] {
+    return Array.from(this.entries.values()).map(entry => ({
+      name: entry.unit.name,
+      version: entry.kind === 'module' ? entry.unit.version : undefined,
+      kind: entry.kind,
+      dependencies: [...(entry.unit.dependencies ?? [])],
+      registrations: entry.disposers.length,
+      started: entry.started
+    }));
+  }
+
+  /**
+   * Forgets all units without running hooks or removing registrations.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.running = false;
+  }
+
+  /**
+   * Runs the install hook of a unit while recording its registrations, then starts it when
+   * the bus is running.
+   * @param {Installable} item
+   * @returns {Promise<void>}
+   */
+  private async installOne(item: Installable): Promise<void> {
+    const entry: ModuleEntry = { ...item, disposers: [], started: false };
+    let installed = false;
+    try {
+      await this.recording.run(entry.disposers, async () => {
+        if (entry.kind === 'module') {
+          await entry.unit.configure(this.bus);
+        } else {
+          entry.unit.install(this.bus);
+        }
+      });
+      installed = true;
+      if (this.running) {
+        await entry.unit.start?.(this.bus);
+        entry.started = true;
+      }
+    } catch (error) {
+      if (installed && entry.kind === 'extension') {
+        entry.unit.uninstall?.(this.bus);
+      }
+      this.rollback(entry.disposers);
+      throw error;
+    }
+    this.entries.set(entry.unit.name, entry);
+  }
+
+  /**
+   * Removes recorded registrations, most recent first.
+   * @param {Disposer[]} disposers
+   */
+  private rollback(disposers: Disposer[]): void {
+    for (let i = disposers.length - 1; i >= 0; i--) {
+      disposers[i]();
+    }
+  }
+
+  /**
+   * Orders a batch so that every unit comes after its dependencies.
+   * @param {Installable[]} batch
+   * @returns {Installable[]}
+   */
+  private sortByDependencies(batch: Installable[]): Installable[] {
+    const byName = new Map<string, Installable>();
+    for (const item of batch) {
+      const { name } = item.unit;
+      if (this.entries.has(name) || byName.has(name)) {
+        throw new ModuleAlreadyInstalledError(name);
+      }
+      byName.set(name, item);
+    }
+
+    const sorted: Installable[] = [];
+    const visiting: string[] = [];
+    const visit = (item: Installable) => {
+      const { name } = item.unit;
+      if (sorted.includes(item)) return;
+      if (visiting.includes(name)) {
+        throw new ModuleDependencyCycleError([...visiting.slice(visiting.indexOf(name)), name]);
+      }
+      visiting.push(name);
+      for (const dependency of item.unit.dependencies ?? []) {
+        if (this.entries.has(dependency)) continue;
+        const next = byName.get(dependency);
+        if (!next) {
+          throw new ModuleDependencyMissingError(name, dependency);
+        }
+        visit(next);
+      }
+      visiting.pop();
+      sorted.push(item);
+    };
+    batch.forEach(visit);
+    return sorted;
+  }
+}
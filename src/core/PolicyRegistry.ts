@@ -0,0 +1,187 @@
+// core/PolicyRegistry.ts - Реестр политик обработки по типам сообщений и шаблонам
+import { IMessage, IMiddleware } from '../types';
+import { EventDispatchStrategy } from './EventDispatch';
+
+/**
+ * Retry settings, used globally or per message type.
+ * @typedef {Object} RetryPolicy
+ * @property {number} [maxAttempts] - Total attempts including the first one
+ * @property {number} [initialDelay] - Delay before the first retry in milliseconds
+ * @property {number} [maxDelay] - Upper bound of a single delay in milliseconds
+ * @property {number} [factor] - Multiplier applied to the delay after each attempt
+ * @property {number} [jitter] - Fraction (0..1) of the delay that is randomized
+ * @property {(error: unknown, attempt: number, message: IMessage) => boolean} [isRetryable] - Error classifier
+ *   (default of the RetryMiddleware: isTransientError)
+ */
+export interface RetryPolicy {
+  maxAttempts?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  jitter?: number;
+  isRetryable?: (error: unknown, attempt: number, message: IMessage) => boolean;
+}
+
+/**
+ * Logging verbosity of a message type; 'silent' turns logging middleware off for it.
+ * @typedef {'info'|'debug'|'verbose'|'error'|'silent'} PolicyLogLevel
+ */
+export type PolicyLogLevel = 'info' | 'debug' | 'verbose' | 'error' | 'silent';
+
+/**
+ * Settings applied to the messages matched by a type or glob pattern.
+ * @typedef {Object} MessagePolicy
+ * @property {number} [timeout] - Dispatch timeout in milliseconds (default: the bus timeout of the message kind)
+ * @property {RetryPolicy} [retry] - Retry settings used by the RetryMiddleware
+ * @property {PolicyLogLevel} [logLevel] - Verbosity used by the LoggingMiddleware
+ * @property {Record<string, boolean>} [middleware] - Middleware switched on or off by name
+ * @property {EventDispatchStrategy} [dispatch] - How events of the type reach their handlers
+ * @property {number} [concurrency] - Events of the type dispatched at the same time by the background queue
+ */
+export interface MessagePolicy {
+  timeout?: number;
+  retry?: RetryPolicy;
+  logLevel?: PolicyLogLevel;
+  middleware?: Record<string, boolean>;
+  dispatch?: EventDispatchStrategy;
+  concurrency?: number;
+}
+
+/**
+ * Policy of a message type after merging every matching pattern.
+ * @typedef {Object} EffectivePolicy
+ * @property {string} type - Message type
+ * @property {string[]} matched - Matching patterns, least specific first
+ */
+export interface EffectivePolicy extends MessagePolicy {
+  type: string;
+  retry: RetryPolicy;
+  middleware: Record<string, boolean>;
+  matched: string[];
+}
+
+/**
+ * Registered pattern with its precomputed matcher.
+ */
+interface PolicyEntry {
+  pattern: string;
+  policy: MessagePolicy;
+  regex: RegExp;
+  specificity: number;
+  order: number;
+}
+
+/**
+ * Gets the name a middleware is referred to by in policies: its `name` property or class name.
+ * @param {IMiddleware} middleware
+ * @returns {string}
+ */
+export function getMiddlewareName(middleware: IMiddleware): string {
+  return middleware.name ?? middleware.constructor.name;
+}
+
+/**
+ * Checks whether a message type matches a pattern; `*` matches any sequence of characters.
+ * @param {string} pattern - Exact type or glob such as `Order.*`
+ * @param {string} type
+ * @returns {boolean}
+ */
+export function matchesPattern(pattern: string, type: string): boolean {
+  return toRegex(pattern).test(type);
+}
+
+/**
+ * Compiles a glob pattern.
+ * @param {string} pattern
+ * @returns {RegExp}
+ */
+function toRegex(pattern: string): RegExp {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Registry of per-message-type policies.
+ * Policies of all patterns matching a type are merged, more specific patterns winning:
+ * an exact type beats any glob, and a glob with more literal characters beats a shorter one
+ * (`Order.Payment.*` over `Order.*` over `*`); equal globs are applied in registration order.
+ * The merged policy of a registered type is computed when the type is registered and
+ * recomputed whenever a policy is set; other types are merged on every lookup.
+ */
+export class PolicyRegistry {
+  private entries: PolicyEntry[] = [];
+  private resolved = new Map<string, EffectivePolicy>();
+  private counter = 0;
+
+  /**
+   * Creates a new PolicyRegistry.
+   * @param {Record<string, MessagePolicy>} [policies] - Policies keyed by type or glob pattern
+   */
+  constructor(policies: Record<string, MessagePolicy> = {}) {
+    for (const [pattern, policy] of Object.entries(policies)) {
+      this.set(pattern, policy);
+    }
+  }
+
+  /**
+   * Sets the policy of a type or pattern, replacing a previous policy of the same pattern.
+   * @param {string} pattern
+   * @param {MessagePolicy} policy
+   */
+  set(pattern: string, policy: MessagePolicy): void {
+    this.entries = this.entries.filter(entry => entry.pattern !== pattern);
+    this.entries.push({
+      pattern,
+      policy,
+      regex: toRegex(pattern),
+      specificity: pattern.includes('*') ? pattern.replace(/\*/g, '').length : Infinity,
+      order: this.counter++
+    });
+    for (const type of this.resolved.keys()) {
+      this.resolved.set(type, this.merge(type));
+    }
+  }
+
+  /**
+   * Registers a message type, e.g. when a handler is registered for it, and merges its policy.
+   * @param {string} type
+   * @returns {EffectivePolicy}
+   */
+  register(type: string): EffectivePolicy {
+    const policy = this.merge(type);
+    this.resolved.set(type, policy);
+    return policy;
+  }
+
+  /**
+   * Gets the merged policy of a message type.
+   * @param {string} type
+   * @returns {EffectivePolicy}
+   */
+  resolve(type: string): EffectivePolicy {
+    return this.resolved.get(type) ?? this.merge(type);
+  }
+
+  /**
+   * Merges the policies of all patterns matching a type, least specific first.
+   * @param {string} type
+   * @returns {EffectivePolicy}
+   */
+  private merge(type: string): EffectivePolicy {
+    const matching = this.entries
+      .filter(entry => entry.regex.test(type))
+      .sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+    const effective: EffectivePolicy = { type, retry: {}, middleware: {}, matched: [] };
+    for (const { pattern, policy } of matching) {
+      if (policy.timeout !== undefined) effective.timeout = policy.timeout;
+      if (policy.logLevel !== undefined) effective.logLevel = policy.logLevel;
+      if (policy.dispatch !== undefined) effective.dispatch = policy.dispatch;
+      if (policy.concurrency !== undefined) effective.concurrency = policy.concurrency;
+      effective.retry = { ...effective.retry, ...policy.retry };
+      effective.middleware = { ...effective.middleware, ...policy.middleware };
+      effective.matched.push(pattern);
+    }
+    return effective;
+  }
+}
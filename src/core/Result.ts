@@ -0,0 +1,99 @@
+// core/Result.ts - Результаты выполнения без исключений
+import { RejectedError } from '../errors/BusErrors';
+
+/**
+ * Successful outcome.
+ * @template T
+ * @typedef {Object} Ok
+ */
+export interface Ok<T> {
+  ok: true;
+  value: T;
+}
+
+/**
+ * Failed outcome.
+ * @template E
+ * @typedef {Object} Err
+ */
+export interface Err<E> {
+  ok: false;
+  error: E;
+}
+
+/**
+ * Outcome of an operation that does not throw; narrow it with `ok`.
+ * @template T, E
+ * @typedef {Ok<T> | Err<E>} Result
+ */
+export type Result<T, E> = Ok<T> | Err<E>;
+
+/**
+ * Declared business rejection of a message.
+ * @template R - Rejection reason
+ * @template D - Details of the rejection
+ * @typedef {Object} Rejection
+ */
+export interface Rejection<R extends string = string, D = unknown> {
+  kind: 'rejected';
+  reason: R;
+  details: D;
+  error: RejectedError<R, D>;
+}
+
+/**
+ * Any other failure: missing handler, timeout, validation, or an error thrown by the handler.
+ * @typedef {Object} UnexpectedFailure
+ */
+export interface UnexpectedFailure {
+  kind: 'error';
+  error: unknown;
+}
+
+/**
+ * Failure of a dispatch whose message declares the given `errors` shape. Narrow it with
+ * `kind`, then with `reason`.
+ * @template TErrors - Reasons mapped to details
+ * @typedef {Rejection | UnexpectedFailure} DispatchFailure
+ */
+export type DispatchFailure<TErrors = Record<never, never>> =
+  | { [R in keyof TErrors & string]: Rejection<R, TErrors[R]> }[keyof TErrors & string]
+  | UnexpectedFailure;
+
+/**
+ * Creates a successful result.
+ * @template T
+ * @param {T} value
+ * @returns {Ok<T>}
+ */
+export function ok<T>(value: T): Ok<T> {
+  return { ok: true, value };
+}
+
+/**
+ * Creates a failed result.
+ * @template E
+ * @param {E} error
+ * @returns {Err<E>}
+ */
+export function err<E>(error: E): Err<E> {
+  return { ok: false, error };
+}
+
+/**
+ * Runs an operation and captures its outcome, classifying thrown errors as rejections or
+ * unexpected failures.
+ * @template T, TErrors
+ * @param {() => Promise<T>} run
+ * @returns {Promise<Result<T, DispatchFailure<TErrors>>>}
+ */
+export async function toResult<T, TErrors>(run: () => Promise<T>): Promise<Result<T, DispatchFailure<TErrors>>> {
+  try {
+    return ok(await run());
+  } catch (error) {
+    const failure = error instanceof RejectedError
+      ? { kind: 'rejected', reason: error.reason, details: error.details, error }
+      : { kind: 'error', error };
+    return err(failure as DispatchFailure<TErrors>);
+  }
+}
@@ -1,20 +1,97 @@
 // core/TypeBus.ts - Главный класс библиотеки TypeBus-CQRS
+import { AsyncLocalStorage } from 'async_hooks';
 import {
   IMessageBus,
   IMessageHandler,
   IMiddleware,
+  MiddlewareFilter,
   IMessage,
   CommandType,
   QueryType,
   EventType,
   CommandData,
   CommandResult,
+  CommandErrors,
   QueryParams,
   QueryResult,
+  QueryErrors,
   EventData,
-  TypeBusConfig
+  IEvent,
+  ICommand,
+  TypeBusConfig,
+  DispatchOptions,
+  ITypeBusModule,
+  ITypeBusExtension
 } from '../types';
+import { IEventStore } from '../eventstore/EventStore';
+import { IDeadLetterStore, recordDeadLetter } from '../deadletter/DeadLetter';
+import { ILockProvider } from '../locking/LockProvider';
+import { InMemoryLockProvider } from '../locking/InMemoryLockProvider';
+import { ProjectionRunner } from '../projections/ProjectionRunner';
+import { ProjectionStatus } from '../projections/Projection';
+import { QueryCache, QueryCacheStats } from '../caching/QueryCache';
 import { MessageFactory } from './MessageFactory';
+import { getDispatchContext, linkDispatchSignal, runInDispatchContext, runOutsideDispatchContext } from './DispatchContext';
+import { runInMessageContext, runOutsideMessageContext, toMessageContext } from './MessageContext';
+import { Logger, createLogger } from './Logger';
+import { dispatchToHandlers } from './EventDispatch';
+import { Disposer, createDisposer } from './Disposer';
+import { ModuleRegistry, InstalledModule } from './ModuleRegistry';
+import { InFlightTracker, InFlightCounts, CloseOptions, BusClosedError } from './InFlight';
+import { Result, DispatchFailure, toResult } from './Result';
+import { EventQueue, EventQueueStats } from './EventQueue';
+import { PolicyRegistry, MessagePolicy, EffectivePolicy, getMiddlewareName, matchesPattern } from './PolicyRegistry';
+import {
+  HandlerNotFoundError,
+  DuplicateHandlerError,
+  MiddlewareLimitError,
+  QueryCacheAttachedError,
+  MessageTimeoutError
+} from '../errors/BusErrors';
+
+/**
+ * Resolved bus configuration: defaults applied, optional services left optional.
+ * @typedef {Object} ResolvedTypeBusConfig
+ */
+type OptionalConfigKeys = 'eventStore' | 'outbox' | 'deadLetterStore' | 'eventQueue' | 'aggregateLocks';
+type ResolvedTypeBusConfig = Required<Omit<TypeBusConfig, OptionalConfigKeys>> & Pick<TypeBusConfig, OptionalConfigKeys>;
+
+/**
+ * Registered middleware and the messages it runs for.
+ */
+interface MiddlewareRegistration {
+  middleware: IMiddleware;
+  appliesTo: (message: IMessage) => boolean;
+}
+
+/**
+ * Registered event handler. The id identifies this registration in dead letters.
+ */
+interface EventHandlerRegistration extends IMessageHandler {
+  readonly id: string;
+}
+
+/**
+ * Events buffered while a command handler runs in unit-of-work mode.
+ */
+interface UnitOfWork {
+  events: IEvent[];
+}
+
+/**
+ * Splits events into runs of consecutive events of the same stream, each appended in one call.
+ * @param {IEvent[]} events
+ * @returns {Generator<[number, IEvent[]]>} Index of the first event of the run and the run.
+ */
+function* groupByStream<T extends IEvent>(events: T[]): Generator<[number, T[]]> {
+  let start = 0;
+  while (start < events.length) {
+    let end = start + 1;
+    while (end < events.length && events[end].aggregateId === events[start].aggregateId) end++;
+    yield [start, events.slice(start, end)];
+    start = end;
+  }
+}
 
 /**
  * Main class of the TypeBus-CQRS library. Implements the IMessageBus interface.
@@ -31,10 +108,24 @@ export class TypeBus<
 > implements IMessageBus<TCommandMap, TQueryMap, TEventMap> {
   private commandHandlers = new Map<string, IMessageHandler>();
   private queryHandlers = new Map<string, IMessageHandler>();
-  private eventHandlers = new Map<string, IMessageHandler[]>();
-  private middlewares: IMiddleware[] = [];
+  private eventHandlers = new Map<string, EventHandlerRegistration[]>();
+  private eventHandlerSequence = new Map<string, number>();
+  private middlewares: MiddlewareRegistration[] = [];
+  private projectionRunners: ProjectionRunner<TEventMap>[] = [];
+  private queryCache?: QueryCache<TQueryMap, TEventMap>;
   private messageFactory = new MessageFactory();
-  private config: Required<TypeBusConfig>;
+  private unitOfWork = new AsyncLocalStorage<UnitOfWork>();
+  private config: ResolvedTypeBusConfig;
+  private policies: PolicyRegistry;
+  private eventQueue?: EventQueue;
+  private lockProvider?: ILockProvider;
+  private heldLocks = new AsyncLocalStorage<Set<string>>();
+  private outboxEntries = new WeakMap<IEvent, string>();
+  private modules: ModuleRegistry;
+  private inFlight = new InFlightTracker();
+  private running = new Map<AbortController, IMessage>();
+  private state: 'open' | 'closing' | 'closed' = 'open';
+  private closing?: Promise<void>;
 
   /**
    * Creates a new TypeBus instance.
@@ -48,8 +139,32 @@ export class TypeBus<
       maxMiddleware: 10,
       commandTimeout: 30000, // 30 seconds
       queryTimeout: 10000,   // 10 seconds
+      eventTimeout: 30000,   // 30 seconds
+      eventDispatch: 'parallel-fail-fast',
+      policies: {},
+      unitOfWork: false,
       ...config
     };
+    this.policies = new PolicyRegistry(this.config.policies);
+    this.modules = new ModuleRegistry(this, this.config.enableLogging);
+    if (this.config.aggregateLocks) {
+      this.lockProvider = this.config.aggregateLocks.provider ?? new InMemoryLockProvider();
+    }
+    if (this.config.eventQueue) {
+      const defaultConcurrency = this.config.eventQueue.concurrency ?? 1;
+      this.eventQueue = new EventQueue(
+        event => this.runDetached(() => {
+          if (this.state === 'closed') throw new BusClosedError(event.type);
+          const entryId = this.outboxEntries.get(event);
+          return entryId === undefined ? this.runEventHandlers(event) : this.dispatchOutboxEntry(event, entryId);
+        }),
+        type => this.policies.resolve(type).concurrency ?? defaultConcurrency,
+        {
+          onError: (error, event) => this.getLogger('event-queue').error(`Background dispatch of ${event.type} failed:`, error),
+          ...this.config.eventQueue
+        }
+      );
+    }
   }
 
   // ================================================================================
@@ -57,14 +172,29 @@ export class TypeBus<
   // ================================================================================
 
   /**
-   * Registers a middleware to the bus.
+   * Registers a middleware to the bus, optionally only for some message kinds or types.
    * @param {IMiddleware} middleware
+   * @param {MiddlewareFilter} [filter]
+   * @returns {Disposer} Removes the middleware again.
    */
-  use(middleware: IMiddleware): void {
+  use(middleware: IMiddleware, filter: MiddlewareFilter = {}): Disposer {
     if (this.middlewares.length >= this.config.maxMiddleware) {
-      throw new Error(`Maximum number of middleware (${this.config.maxMiddleware}) exceeded`);
+      throw new MiddlewareLimitError(this.config.maxMiddleware);
     }
-    this.middlewares.push(middleware);
+    const { kinds, types } = filter;
+    const registration: MiddlewareRegistration = {
+      middleware,
+      appliesTo: message =>
+        (!kinds || kinds.includes(message.kind)) &&
+        (!types || types.some(pattern => matchesPattern(pattern, message.type)))
+    };
+    this.middlewares.push(registration);
+    return this.modules.track(createDisposer(() => {
+      const index = this.middlewares.indexOf(registration);
+      if (index !== -1) {
+        this.middlewares.splice(index, 1);
+      }
+    }));
   }
 
   // ================================================================================
@@ -76,19 +206,22 @@ export class TypeBus<
    * @template T
    * @param {T} commandType
    * @param {IMessageHandler<any, CommandResult<TCommandMap, T>>} handler
+   * @returns {Disposer} Removes the handler unless it has been replaced since.
    */
   registerCommandHandler<T extends CommandType<TCommandMap>>(
     commandType: T,
     handler: IMessageHandler<any, CommandResult<TCommandMap, T>>
-  ): void {
+  ): Disposer {
     if (this.commandHandlers.has(commandType)) {
-      throw new Error(`Command handler for '${commandType}' already registered`);
+      throw new DuplicateHandlerError('command', commandType);
     }
     this.commandHandlers.set(commandType, handler);
+    this.policies.register(commandType);
     
     if (this.config.enableLogging && this.config.logLevel === 'debug') {
       console.log(`📝 Registered command handler: ${commandType}`);
     }
+    return this.createHandlerDisposer(this.commandHandlers, commandType, handler);
   }
 
   /**
@@ -96,40 +229,176 @@ export class TypeBus<
    * @template T
    * @param {T} queryType
    * @param {IMessageHandler<any, QueryResult<TQueryMap, T>>} handler
+   * @returns {Disposer} Removes the handler unless it has been replaced since.
    */
   registerQueryHandler<T extends QueryType<TQueryMap>>(
     queryType: T,
     handler: IMessageHandler<any, QueryResult<TQueryMap, T>>
-  ): void {
+  ): Disposer {
     if (this.queryHandlers.has(queryType)) {
-      throw new Error(`Query handler for '${queryType}' already registered`);
+      throw new DuplicateHandlerError('query', queryType);
     }
     this.queryHandlers.set(queryType, handler);
+    this.policies.register(queryType);
     
     if (this.config.enableLogging && this.config.logLevel === 'debug') {
       console.log(`📖 Registered query handler: ${queryType}`);
     }
+    return this.createHandlerDisposer(this.queryHandlers, queryType, handler);
   }
 
   /**
-   * Registers an event handler for a specific event type.
+   * Registers an event handler for a specific event type. The registration is identified by
+   * the handler name, or by `#<n>` (`<name>#<n>` if the name is taken) where n counts the
+   * registrations of the event type.
    * @template T
    * @param {T} eventType
    * @param {IMessageHandler<any, void>} handler
+   * @returns {Disposer} Removes this registration of the handler.
    */
   registerEventHandler<T extends EventType<TEventMap>>(
     eventType: T,
     handler: IMessageHandler<any, void>
-  ): void {
+  ): Disposer {
     if (!this.eventHandlers.has(eventType)) {
       this.eventHandlers.set(eventType, []);
     }
-    this.eventHandlers.get(eventType)!.push(handler);
+    const registration: EventHandlerRegistration = {
+      id: this.nextEventHandlerId(eventType, handler),
+      name: handler.name,
+      handle: message => handler.handle(message)
+    };
+    this.eventHandlers.get(eventType)!.push(registration);
+    this.policies.register(eventType);
     
     if (this.config.enableLogging && this.config.logLevel === 'debug') {
       const count = this.eventHandlers.get(eventType)!.length;
       console.log(`📢 Registered event handler: ${eventType} (${count} total)`);
     }
+    return this.modules.track(createDisposer(() => {
+      const handlers = this.eventHandlers.get(eventType);
+      const index = handlers?.indexOf(registration) ?? -1;
+      if (index === -1) return;
+      handlers!.splice(index, 1);
+      if (handlers!.length === 0) {
+        this.eventHandlers.delete(eventType);
+      }
+    }));
+  }
+
+  /**
+   * Swaps the handler of a registered command or query type in one step, so no dispatch
+   * observes the type without a handler. Dispatches already running finish with the old handler.
+   * @template T
+   * @param {T} type
+   * @param {IMessageHandler<any, any>} handler
+   * @returns {Disposer} Removes the new handler unless it has been replaced since.
+   */
+  replaceHandler<T extends CommandType<TCommandMap> | QueryType<TQueryMap>>(
+    type: T,
+    handler: IMessageHandler<any, any>
+  ): Disposer {
+    const handlers = this.commandHandlers.has(type)
+      ? this.commandHandlers
+      : this.queryHandlers.has(type)
+        ? this.queryHandlers
+        : undefined;
+    if (!handlers) {
+      throw new HandlerNotFoundError('command or query', type);
+    }
+    handlers.set(type, handler);
+
+    if (this.config.enableLogging && this.config.logLevel === 'debug') {
+      console.log(`🔁 Replaced handler: ${type}`);
+    }
+    return this.createHandlerDisposer(handlers, type, handler);
+  }
+
+  // ================================================================================
+  // Modules and Lifecycle
+  // ================================================================================
+
+  /**
+   * Installs modules by running their `configure` hooks, dependencies first. Dependencies must
+   * already be installed or be part of the same call. Handlers and middleware registered by a
+   * module are removed again when it is uninstalled or when its installation fails.
+   * @param {...ITypeBusModule} modules
+   * @returns {Promise<void>}
+   * @throws {ModuleAlreadyInstalledError | ModuleDependencyMissingError | ModuleDependencyCycleError}
+   */
+  async registerModule(...modules: ITypeBusModule[]): Promise<void> {
+    await this.modules.install(modules.map(unit => ({ kind: 'module' as const, unit })));
+    this.logModules('📦 Registered module', modules);
+  }
+
+  /**
+   * Installs extensions by running their `install` hooks, dependencies first.
+   * @param {...ITypeBusExtension} extensions
+   * @returns {Promise<void>}
+   * @throws {ModuleAlreadyInstalledError | ModuleDependencyMissingError | ModuleDependencyCycleError}
+   */
+  async install(...extensions: ITypeBusExtension[]): Promise<void> {
+    await this.modules.install(extensions.map(unit => ({ kind: 'extension' as const, unit })));
+    this.logModules('🧩 Installed extension', extensions);
+  }
+
+  /**
+   * Uninstalls a module or extension: runs its stop and uninstall hooks, then removes the
+   * handlers and middleware it registered. Fails while other installed modules depend on it.
+   * @param {string} name
+   * @returns {Promise<void>}
+   * @throws {ModuleNotInstalledError | ModuleInUseError}
+   */
+  async uninstall(name: string): Promise<void> {
+    await this.modules.uninstall(name);
+  }
+
+  /**
+   * Runs the start hooks of installed modules in install order. Modules installed afterwards
+   * start as part of their installation.
+   * @returns {Promise<void>}
+   */
+  async start(): Promise<void> {
+    await this.modules.start();
+  }
+
+  /**
+   * Runs the stop hooks of started modules in reverse install order.
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    await this.modules.stop();
+  }
+
+  /**
+   * Gets the installed modules and extensions in install order.
+   * @returns {InstalledModule[]}
+   */
+  getInstalledModules(): InstalledModule[] {
+    return this.modules.list();
+  }
+
+  /**
+   * Closes the bus gracefully. New commands, queries and events are rejected with a
+   * BusClosedError right away; dispatches made by running handlers are still accepted. The
+   * returned promise resolves once in-flight handlers and queued events have finished, or,
+   * after the timeout, once they have been aborted and the remaining queue discarded. Stop
+   * hooks of modules and then of middleware run last, each in reverse registration order.
+   * Calling close again returns the same promise.
+   * @param {CloseOptions} [options]
+   * @returns {Promise<void>}
+   */
+  close(options: CloseOptions = {}): Promise<void> {
+    this.closing ??= this.shutdown(options.timeout ?? 30000);
+    return this.closing;
+  }
+
+  /**
+   * Gets the number of running dispatches per kind, nested dispatches included.
+   * @returns {InFlightCounts}
+   */
+  getInFlightCounts(): InFlightCounts {
+    return this.inFlight.getCounts();
   }
 
   // ================================================================================
@@ -138,31 +407,54 @@ export class TypeBus<
 
   /**
    * Executes a command message.
+   * With aggregate locks, the command first waits for earlier commands of the same aggregate;
+   * commands dispatched by a handler that already holds the aggregate's lock do not wait.
    * @template T
    * @param {T} type
    * @param {CommandData<TCommandMap, T>} data
    * @param {string} aggregateId
    * @param {Record<string, any>} [metadata]
+   * @param {DispatchOptions} [options]
    * @returns {Promise<CommandResult<TCommandMap, T>>}
    */
   async executeCommand<T extends CommandType<TCommandMap>>(
     type: T,
     data: CommandData<TCommandMap, T>,
     aggregateId: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
   ): Promise<CommandResult<TCommandMap, T>> {
-    const command = this.messageFactory.createCommand(type, data, aggregateId, metadata);
-    const handler = this.commandHandlers.get(type);
+    this.assertAccepting(type);
+    return await this.inFlight.track('command', async () => {
+      const command = this.messageFactory.createCommand(type, data, aggregateId, metadata);
+      const handler = this.commandHandlers.get(type);
     
-    if (!handler) {
-      throw new Error(`No handler registered for command: ${type}`);
-    }
+      if (!handler) {
+        throw new HandlerNotFoundError('command', type, { messageId: command.id });
+      }
 
-    return await this.executeWithMiddleware(
-      command, 
-      handler,
-      this.config.commandTimeout
-    ) as CommandResult<TCommandMap, T>;
+      const held = this.heldLocks.getStore();
+      if (!this.lockProvider || held?.has(aggregateId)) {
+        return await this.runCommand(command, handler, options) as CommandResult<TCommandMap, T>;
+      }
+
+      const linked = linkDispatchSignal(options?.signal);
+      const release = await this.lockProvider
+        .acquire(aggregateId, {
+          timeout: this.config.aggregateLocks?.timeout ?? 5000,
+          signal: linked.signal,
+          messageType: type,
+          messageId: command.id
+        })
+        .finally(() => linked.unlink());
+      try {
+        return await this.heldLocks.run(new Set(held).add(aggregateId), () =>
+          this.runCommand(command, handler, options)
+        ) as CommandResult<TCommandMap, T>;
+      } finally {
+        await release();
+      }
+    });
   }
 
   /**
@@ -171,35 +463,84 @@ export class TypeBus<
    * @param {T} type
    * @param {QueryParams<TQueryMap, T>} params
    * @param {Record<string, any>} [metadata]
+   * @param {DispatchOptions} [options]
    * @returns {Promise<QueryResult<TQueryMap, T>>}
    */
   async executeQuery<T extends QueryType<TQueryMap>>(
     type: T,
     params: QueryParams<TQueryMap, T>,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
   ): Promise<QueryResult<TQueryMap, T>> {
+    this.assertAccepting(type);
     const query = this.messageFactory.createQuery(type, params, metadata);
     const handler = this.queryHandlers.get(type);
     
     if (!handler) {
-      throw new Error(`No handler registered for query: ${type}`);
+      throw new HandlerNotFoundError('query', type, { messageId: query.id });
     }
 
-    return await this.executeWithMiddleware(
+    return await this.inFlight.track('query', () => this.executeWithMiddleware(
       query, 
       handler,
-      this.config.queryTimeout
-    ) as QueryResult<TQueryMap, T>;
+      this.config.queryTimeout,
+      options?.signal
+    )) as QueryResult<TQueryMap, T>;
+  }
+
+  /**
+   * Executes a command without throwing. A RejectedError thrown by the handler becomes a
+   * rejection typed by the `errors` shape of the command; any other error is an unexpected failure.
+   * @template T
+   * @param {T} type
+   * @param {CommandData<TCommandMap, T>} data
+   * @param {string} aggregateId
+   * @param {Record<string, any>} [metadata]
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<Result<CommandResult<TCommandMap, T>, DispatchFailure<CommandErrors<TCommandMap, T>>>>}
+   */
+  tryExecuteCommand<T extends CommandType<TCommandMap>>(
+    type: T,
+    data: CommandData<TCommandMap, T>,
+    aggregateId: string,
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
+  ): Promise<Result<CommandResult<TCommandMap, T>, DispatchFailure<CommandErrors<TCommandMap, T>>>> {
+    return toResult(() => this.executeCommand(type, data, aggregateId, metadata, options));
+  }
+
+  /**
+   * Executes a query without throwing. See tryExecuteCommand.
+   * @template T
+   * @param {T} type
+   * @param {QueryParams<TQueryMap, T>} params
+   * @param {Record<string, any>} [metadata]
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<Result<QueryResult<TQueryMap, T>, DispatchFailure<QueryErrors<TQueryMap, T>>>>}
+   */
+  tryExecuteQuery<T extends QueryType<TQueryMap>>(
+    type: T,
+    params: QueryParams<TQueryMap, T>,
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
+  ): Promise<Result<QueryResult<TQueryMap, T>, DispatchFailure<QueryErrors<TQueryMap, T>>>> {
+    return toResult(() => this.executeQuery(type, params, metadata, options));
   }
 
   /**
    * Publishes an event message to all registered handlers.
+   * When an event store is configured, the event is appended to its stream first; the append
+   * rejects with a ConcurrencyError unless version follows the current stream version.
+   * In unit-of-work mode, events published inside a command handler are buffered instead and
+   * appended and dispatched once the handler succeeds. With an event queue, the event is queued
+   * for background dispatch and the call returns once it is queued.
    * @template T
    * @param {T} type
    * @param {EventData<TEventMap, T>} data
    * @param {string} aggregateId
    * @param {number} version
    * @param {Record<string, any>} [metadata]
+   * @param {DispatchOptions} [options] - The signal cancels handlers of a direct dispatch, or waiting for queue space
    * @returns {Promise<void>}
    */
   async publishEvent<T extends EventType<TEventMap>>(
@@ -207,43 +548,407 @@ export class TypeBus<
     data: EventData<TEventMap, T>,
     aggregateId: string,
     version: number,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
   ): Promise<void> {
-    const event = this.messageFactory.createEvent(type, data, aggregateId, version, metadata);
-    const handlers = this.eventHandlers.get(type) || [];
+    await this.publishEventMessage(this.messageFactory.createEvent(type, data, aggregateId, version, metadata), options);
+  }
 
-    if (handlers.length === 0) {
-      if (this.config.enableLogging && this.config.logLevel === 'debug') {
-        console.log(`📢 No handlers registered for event: ${type}`);
-      }
+  /**
+   * Publishes an already created event, e.g. one raised by an aggregate, keeping its id,
+   * timestamp and lineage. Stored, buffered and queued like the events of publishEvent.
+   * @param {IEvent<TEventMap>} event
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<void>}
+   */
+  async publishEventMessage(event: IEvent<TEventMap>, options?: DispatchOptions): Promise<void> {
+    await this.publishEventMessages([event], options);
+  }
+
+  /**
+   * Publishes already created events as a batch. Consecutive events of the same stream are
+   * appended in one call, so either all or none of them are stored; the events are delivered
+   * in order once stored, stopping at the first dispatch failure, which is thrown.
+   * @param {IEvent<TEventMap>[]} events
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<void>}
+   */
+  async publishEventMessages(events: IEvent<TEventMap>[], options?: DispatchOptions): Promise<void> {
+    for (const event of events) {
+      this.assertAccepting(event.type);
+    }
+    const unit = this.unitOfWork.getStore();
+    if (unit) {
+      unit.events.push(...events);
       return;
     }
 
-    // Execute all handlers in parallel
-    const promises = handlers.map(handler => 
-      this.executeWithMiddleware(event, handler, this.config.commandTimeout)
-    );
+    if (this.config.eventStore) {
+      for (const [, batch] of groupByStream(events)) {
+        await this.config.eventStore.append(batch[0].aggregateId, batch, batch[0].version - 1);
+      }
+    }
+    for (const event of events) {
+      await this.deliverEvent(event, options);
+    }
+  }
 
-    await Promise.all(promises);
+  /**
+   * Dispatches an already created event to its handlers without storing it.
+   * Used to deliver events recorded elsewhere, e.g. by the outbox relay. Handlers run according
+   * to the dispatch strategy of the event type. With a dead-letter store, a failing handler is
+   * recorded there and does not fail the dispatch.
+   * @param {IEvent<TEventMap>} event
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<void>}
+   */
+  async dispatchEvent(event: IEvent<TEventMap>, options?: DispatchOptions): Promise<void> {
+    this.assertAccepting(event.type);
+    await this.runEventHandlers(event, options);
+  }
+
+  /**
+   * Delivers an event to a single handler through the middleware pipeline, e.g. to retry a
+   * dead letter. Errors are thrown to the caller and never dead-lettered.
+   * @param {IEvent<TEventMap>} event
+   * @param {string} handlerId - Id of the handler registration, as stored in the dead letter
+   * @returns {Promise<void>}
+   */
+  async redeliverEvent(event: IEvent<TEventMap>, handlerId: string): Promise<void> {
+    this.assertAccepting(event.type);
+    const handlers = this.eventHandlers.get(event.type) || [];
+    const handler = handlers.find(registration => registration.id === handlerId);
+    if (!handler) {
+      throw new HandlerNotFoundError('event', event.type, { messageId: event.id, handlerId });
+    }
+    await this.inFlight.track('event', () => this.executeWithMiddleware(event, handler, this.config.eventTimeout));
   }
 
   // ================================================================================
   // Private Methods
   // ================================================================================
 
+  /**
+   * Runs a command handler, in a unit of work when that mode is enabled.
+   * @param {ICommand} command
+   * @param {IMessageHandler} handler
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<any>}
+   */
+  private async runCommand(command: ICommand, handler: IMessageHandler, options?: DispatchOptions): Promise<any> {
+    if (!this.config.unitOfWork) {
+      return await this.executeWithMiddleware(
+        command, 
+        handler,
+        this.config.commandTimeout,
+        options?.signal
+      );
+    }
+
+    // Events published by the handler are buffered per attempt, so the events of attempts
+    // that failed (e.g. before a retry) are dropped and only the successful attempt commits
+    let unit: UnitOfWork = { events: [] };
+    const buffered: IMessageHandler = {
+      name: handler.name,
+      handle: async message => {
+        const attempt: UnitOfWork = { events: [] };
+        const result = await this.unitOfWork.run(attempt, () => handler.handle(message));
+        unit = attempt;
+        return result;
+      }
+    };
+    const result = await this.executeWithMiddleware(command, buffered, this.config.commandTimeout, options?.signal);
+
+    const parent = this.unitOfWork.getStore();
+    if (parent) {
+      // Nested command: its events commit together with the outer command
+      parent.events.push(...unit.events);
+    } else {
+      await this.commitUnitOfWork(unit.events);
+    }
+    return result;
+  }
+
+  /**
+   * Rejects new work once the bus is closing; dispatches made by running handlers are still
+   * accepted until the close completes.
+   * @param {string} type
+   */
+  private assertAccepting(type: string): void {
+    if (this.state === 'open' || (this.state === 'closing' && getDispatchContext())) return;
+    throw new BusClosedError(type);
+  }
+
+  /**
+   * Waits for in-flight dispatches and queued events, aborting them once the timeout elapses,
+   * then runs the stop hooks of modules and middleware.
+   * @param {number} timeout
+   * @returns {Promise<void>}
+   */
+  private async shutdown(timeout: number): Promise<void> {
+    this.state = 'closing';
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(true), timeout);
+    });
+    const settled = (async () => {
+      // Running handlers may still queue events, and queued events start new dispatches
+      do {
+        await this.drain();
+        await this.inFlight.whenIdle();
+      } while (this.inFlight.getCounts().total > 0 || (this.eventQueue && !this.isQueueIdle()));
+      return false;
+    })();
+
+    try {
+      if (await Promise.race([settled, expired])) {
+        const discarded = this.eventQueue?.clear() ?? 0;
+        const aborted = this.running.size;
+        this.running.forEach((message, controller) =>
+          controller.abort(new BusClosedError(message.type, { messageId: message.id }))
+        );
+        if (this.config.enableLogging) {
+          console.error(
+            `❌ TypeBus close timed out after ${timeout}ms: aborted ${aborted} dispatches, discarded ${discarded} queued events`
+          );
+        }
+      }
+    } finally {
+      clearTimeout(timer);
+      this.state = 'closed';
+    }
+
+    let failure: { error: unknown } | undefined;
+    try {
+      await this.modules.stop();
+    } catch (error) {
+      failure = { error };
+    }
+    for (const { middleware } of [...this.middlewares].reverse()) {
+      try {
+        await middleware.stop?.();
+      } catch (error) {
+        if (this.config.enableLogging) {
+          console.error(`❌ Failed to stop middleware '${getMiddlewareName(middleware)}':`, error);
+        }
+        failure ??= { error };
+      }
+    }
+    if (failure) throw failure.error;
+  }
+
+  /**
+   * Checks whether the event queue has neither queued nor running events.
+   * @returns {boolean}
+   */
+  private isQueueIdle(): boolean {
+    const stats = this.eventQueue!.getStats();
+    return stats.queued === 0 && stats.inFlight === 0;
+  }
+
+  /**
+   * Logs installed modules or extensions in debug mode.
+   * @param {string} label
+   * @param {Array<{ name: string }>} units
+   */
+  private logModules(label: string, units: Array<{ name: string }>): void {
+    if (this.config.enableLogging && this.config.logLevel === 'debug') {
+      units.forEach(unit => console.log(`${label}: ${unit.name}`));
+    }
+  }
+
+  /**
+   * Creates the disposer of a command or query handler registration.
+   * @param {Map<string, IMessageHandler>} handlers
+   * @param {string} type
+   * @param {IMessageHandler} handler
+   * @returns {Disposer}
+   */
+  private createHandlerDisposer(
+    handlers: Map<string, IMessageHandler>,
+    type: string,
+    handler: IMessageHandler
+  ): Disposer {
+    return this.modules.track(createDisposer(() => {
+      if (handlers.get(type) === handler) {
+        handlers.delete(type);
+      }
+    }));
+  }
+
+  /**
+   * Dispatches an event to its handlers according to the dispatch strategy of its type,
+   * dead-lettering failures when a dead-letter store is configured.
+   * @param {IEvent<TEventMap>} event
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<void>}
+   */
+  private async runEventHandlers(event: IEvent<TEventMap>, options?: DispatchOptions): Promise<void> {
+    await this.inFlight.track('event', async () => {
+      // A copy, so handlers registered or disposed during the dispatch do not shift the others
+      const handlers = [...(this.eventHandlers.get(event.type) || [])];
+
+      if (handlers.length === 0) {
+        if (this.config.enableLogging && this.config.logLevel === 'debug') {
+          console.log(`📢 No handlers registered for event: ${event.type}`);
+        }
+        return;
+      }
+
+      const strategy = this.policies.resolve(event.type).dispatch ?? this.config.eventDispatch;
+      await dispatchToHandlers(event, handlers, strategy, async handler => {
+        try {
+          await this.executeWithMiddleware(event, handler, this.config.eventTimeout, options?.signal);
+        } catch (error) {
+          const deadLetters = this.config.deadLetterStore;
+          if (!deadLetters) throw error;
+          await recordDeadLetter(deadLetters, event, handler.id, error);
+          if (this.config.enableLogging) {
+            console.error(`❌ ${event.type} dead-lettered for handler ${handler.id}:`, error);
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Queues an event for background dispatch when an event queue is configured, otherwise
+   * dispatches it right away.
+   * @param {IEvent<TEventMap>} event
+   * @param {DispatchOptions} [options]
+   * @returns {Promise<void>}
+   */
+  private async deliverEvent(event: IEvent<TEventMap>, options?: DispatchOptions): Promise<void> {
+    if (this.eventQueue) {
+      await this.eventQueue.enqueue(event, options?.signal);
+    } else {
+      await this.runEventHandlers(event, options);
+    }
+  }
+
+  /**
+   * Runs work detached from the context of its publisher: outside its dispatch and message
+   * context, its unit of work and the aggregate locks it holds. Queued handlers otherwise
+   * inherit them from the publisher that started the queue worker.
+   * @template T
+   * @param {() => T} fn
+   * @returns {T}
+   */
+  private runDetached<T>(fn: () => T): T {
+    return runOutsideDispatchContext(() =>
+      runOutsideMessageContext(() => this.heldLocks.exit(() => this.unitOfWork.exit(fn)))
+    );
+  }
+
+  /**
+   * Assigns the id of a new event handler registration: the handler name unless another
+   * handler of the event type has it, otherwise a sequence number that is never reused.
+   * @param {string} eventType
+   * @param {IMessageHandler} handler
+   * @returns {string}
+   */
+  private nextEventHandlerId(eventType: string, handler: IMessageHandler): string {
+    const sequence = this.eventHandlerSequence.get(eventType) ?? 0;
+    this.eventHandlerSequence.set(eventType, sequence + 1);
+    const taken = this.eventHandlers.get(eventType)?.some(registration => registration.id === handler.name);
+    return handler.name !== undefined && !taken ? handler.name : `${handler.name ?? ''}#${sequence}`;
+  }
+
+  /**
+   * Commits the events buffered by a unit of work: records them in the outbox, appends them to
+   * the event store and delivers them. With an outbox, dispatch failures are recorded for the
+   * relay instead of being thrown, since the command has already been committed.
+   * @param {IEvent[]} events
+   * @returns {Promise<void>}
+   */
+  private async commitUnitOfWork(events: IEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    // The outbox records the events before they are stored, so no stored event can miss its
+    // entry; entries of events that end up not being stored are discarded again
+    const outbox = this.config.outbox;
+    const entries = outbox ? await outbox.add(events) : [];
+
+    if (this.config.eventStore) {
+      for (const [start, batch] of groupByStream(events)) {
+        try {
+          await this.config.eventStore.append(batch[0].aggregateId, batch, batch[0].version - 1);
+        } catch (error) {
+          // Events of earlier batches are stored and stay in the outbox for the relay
+          for (const entry of entries.slice(start)) {
+            await outbox!.discard(entry.id);
+          }
+          throw error;
+        }
+      }
+    }
+
+    if (!outbox) {
+      for (const event of events) {
+        await this.deliverEvent(event);
+      }
+      return;
+    }
+
+    for (const [index, event] of events.entries()) {
+      const entryId = entries[index].id;
+      if (!this.eventQueue) {
+        // Failures are recorded in the outbox for the relay
+        await this.dispatchOutboxEntry(event, entryId).catch(() => undefined);
+        continue;
+      }
+      this.outboxEntries.set(event, entryId);
+      try {
+        await this.eventQueue.enqueue(event);
+      } catch (error) {
+        this.outboxEntries.delete(event);
+        await outbox.markFailed(entryId, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  /**
+   * Dispatches an event recorded in the outbox and records the outcome on its entry.
+   * @param {IEvent} event
+   * @param {string} entryId
+   * @returns {Promise<void>}
+   */
+  private async dispatchOutboxEntry(event: IEvent, entryId: string): Promise<void> {
+    const outbox = this.config.outbox!;
+    try {
+      await this.runEventHandlers(event);
+    } catch (error) {
+      await outbox.markFailed(entryId, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+    await outbox.markDispatched(entryId);
+  }
+
   /**
    * Executes a message through the middleware pipeline.
+   * The dispatch gets its own AbortSignal, aborted on timeout or when the caller's signal
+   * (or, for nested dispatches, the signal of the surrounding dispatch) aborts. The policy of
+   * the message type decides the timeout and, with the registration filters, which middleware run.
+   * Messages created while it runs are correlated with and caused by the dispatched message.
    * @template T, R
    * @param {T} message
    * @param {IMessageHandler<T, R>} handler
-   * @param {number} timeout
+   * @param {number} defaultTimeout - Timeout unless the policy sets one
+   * @param {AbortSignal} [signal] - Caller's signal, linked with the signal of the enclosing dispatch
    * @returns {Promise<R>}
    */
   private async executeWithMiddleware<T extends IMessage, R>(
     message: T,
     handler: IMessageHandler<T, R>,
-    timeout: number
+    defaultTimeout: number,
+    signal?: AbortSignal
   ): Promise<R> {
+    const policy = this.policies.resolve(message.type);
+    const timeout = policy.timeout ?? defaultTimeout;
+    const middlewares = this.middlewares
+      .filter(({ middleware, appliesTo }) => policy.middleware[getMiddlewareName(middleware)] !== false && appliesTo(message))
+      .map(({ middleware }) => middleware);
+
     // Create middleware chain
     const dispatch = async (msg: T): Promise<R> => {
       return await handler.handle(msg);
@@ -251,35 +956,74 @@ export class TypeBus<
 
     // Apply middleware in reverse order
     let chain = dispatch;
-    for (let i = this.middlewares.length - 1; i >= 0; i--) {
-      const middleware = this.middlewares[i];
+    for (let i = middlewares.length - 1; i >= 0; i--) {
+      const middleware = middlewares[i];
       const next = chain;
       chain = async (msg: T) => middleware.execute(msg, next);
     }
 
-    return await this.withTimeout(chain(message), timeout, message.type);
+    const controller = new AbortController();
+    const context = { message, deadline: Date.now() + timeout, signal: controller.signal, policy };
+    const parent = linkDispatchSignal(signal);
+    try {
+      return await this.withCancellation(
+        () => runInDispatchContext(context, () => runInMessageContext(toMessageContext(message), () => chain(message))),
+        controller,
+        timeout,
+        message,
+        parent.signal
+      );
+    } finally {
+      parent.unlink();
+    }
   }
 
   /**
-   * Executes a promise with a timeout.
+   * Runs a dispatch until it settles or its controller aborts, whichever comes first.
+   * The controller is aborted when the timeout elapses or the parent signal aborts; the
+   * timer and listeners are removed once the dispatch completes.
    * @template T
-   * @param {Promise<T>} promise
+   * @param {() => Promise<T>} run
+   * @param {AbortController} controller
    * @param {number} timeoutMs
-   * @param {string} operationType
+   * @param {IMessage} message - The dispatched message
+   * @param {AbortSignal} [parent]
    * @returns {Promise<T>}
    */
-  private async withTimeout<T>(
-    promise: Promise<T>, 
-    timeoutMs: number, 
-    operationType: string
+  private async withCancellation<T>(
+    run: () => Promise<T>,
+    controller: AbortController,
+    timeoutMs: number,
+    message: IMessage,
+    parent?: AbortSignal
   ): Promise<T> {
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`${operationType} timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
+    if (parent?.aborted) {
+      throw parent.reason;
+    }
+
+    const signal = controller.signal;
+    const onParentAbort = () => controller.abort(parent!.reason);
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+    const timer = setTimeout(() => {
+      controller.abort(new MessageTimeoutError(message.type, timeoutMs, { messageId: message.id }));
+    }, timeoutMs);
+
+    this.running.set(controller, message);
+
+    let onAbort: () => void = () => undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
     });
 
-    return Promise.race([promise, timeoutPromise]);
+    try {
+      return await Promise.race([run(), aborted]);
+    } finally {
+      clearTimeout(timer);
+      this.running.delete(controller);
+      parent?.removeEventListener('abort', onParentAbort);
+      signal.removeEventListener('abort', onAbort);
+    }
   }
 
   // ================================================================================
@@ -287,19 +1031,153 @@ export class TypeBus<
   // ================================================================================
 
   /**
-   * Clears all registered handlers and middleware.
+   * Clears all registered handlers and middleware and forgets installed modules without
+   * running their hooks.
    */
   clear(): void {
     this.commandHandlers.clear();
     this.queryHandlers.clear();
     this.eventHandlers.clear();
     this.middlewares = [];
+    this.projectionRunners = [];
+    this.queryCache = undefined;
+    this.modules.clear();
     
     if (this.config.enableLogging) {
       console.log('🧹 TypeBus cleared all handlers and middleware');
     }
   }
 
+  /**
+   * Gets the configured event store.
+   * @returns {IEventStore | undefined}
+   */
+  getEventStore(): IEventStore | undefined {
+    return this.config.eventStore;
+  }
+
+  /**
+   * Resolves once all queued events have been dispatched. Resolves immediately without an event queue.
+   * @returns {Promise<void>}
+   */
+  drain(): Promise<void> {
+    return this.eventQueue ? this.eventQueue.drain() : Promise.resolve();
+  }
+
+  /**
+   * Gets the counters of the background event queue.
+   * @returns {EventQueueStats | undefined}
+   */
+  getEventQueueStats(): EventQueueStats | undefined {
+    return this.eventQueue?.getStats();
+  }
+
+  /**
+   * Gets the configured dead-letter store.
+   * @returns {IDeadLetterStore | undefined}
+   */
+  getDeadLetterStore(): IDeadLetterStore | undefined {
+    return this.config.deadLetterStore;
+  }
+
+  /**
+   * Attaches a projection runner so its status is available from the bus.
+   * Called by the ProjectionRunner constructor.
+   * @param {ProjectionRunner<TEventMap>} runner
+   * @returns {Disposer} Detaches the runner again.
+   */
+  registerProjectionRunner(runner: ProjectionRunner<TEventMap>): Disposer {
+    if (!this.projectionRunners.includes(runner)) {
+      this.projectionRunners.push(runner);
+    }
+    return this.modules.track(createDisposer(() => {
+      const index = this.projectionRunners.indexOf(runner);
+      if (index !== -1) {
+        this.projectionRunners.splice(index, 1);
+      }
+    }));
+  }
+
+  /**
+   * Gets the status (position, lag, errors) of all projections attached to the bus.
+   * @returns {Promise<ProjectionStatus[]>}
+   */
+  async getProjectionStatus(): Promise<ProjectionStatus[]> {
+    const statuses = await Promise.all(this.projectionRunners.map(runner => runner.getStatus()));
+    return statuses.flat();
+  }
+
+  /**
+   * Sets the policy of a message type or glob pattern such as `Order.*`.
+   * Effective policies are re-resolved on their next use.
+   * @param {string} pattern
+   * @param {MessagePolicy} policy
+   */
+  setPolicy(pattern: string, policy: MessagePolicy): void {
+    this.policies.set(pattern, policy);
+  }
+
+  /**
+   * Gets the policy applied to a message type, with the timeout of its kind (and, for events,
+   * the dispatch strategy) filled in when the type has a registered handler.
+   * @param {string} type
+   * @returns {EffectivePolicy}
+   */
+  getEffectivePolicy(type: string): EffectivePolicy {
+    const policy = this.policies.resolve(type);
+    const defaultTimeout = this.commandHandlers.has(type)
+      ? this.config.commandTimeout
+      : this.queryHandlers.has(type)
+        ? this.config.queryTimeout
+        : this.eventHandlers.has(type)
+          ? this.config.eventTimeout
+          : undefined;
+    return {
+      ...policy,
+      timeout: policy.timeout ?? defaultTimeout,
+      dispatch: policy.dispatch ?? (this.eventHandlers.has(type) ? this.config.eventDispatch : undefined),
+      retry: { ...policy.retry },
+      middleware: { ...policy.middleware },
+      matched: [...policy.matched]
+    };
+  }
+
+  /**
+   * Attaches a query cache so its counters are available from the bus.
+   * Called by the QueryCache constructor.
+   * @param {QueryCache<TQueryMap, TEventMap>} cache
+   * @returns {Disposer} Detaches the cache again.
+   * @throws {QueryCacheAttachedError} When another cache is already attached.
+   */
+  registerQueryCache(cache: QueryCache<TQueryMap, TEventMap>): Disposer {
+    if (this.queryCache && this.queryCache !== cache) {
+      throw new QueryCacheAttachedError();
+    }
+    this.queryCache = cache;
+    return this.modules.track(createDisposer(() => {
+      if (this.queryCache === cache) {
+        this.queryCache = undefined;
+      }
+    }));
+  }
+
+  /**
+   * Gets the hit/miss counters of the attached query cache.
+   * @returns {QueryCacheStats | undefined}
+   */
+  getCacheStats(): QueryCacheStats | undefined {
+    return this.queryCache?.getStats();
+  }
+
+  /**
+   * Creates a logger that follows the logging settings of the bus.
+   * @param {string} scope - Prefix of every line
+   * @returns {Logger}
+   */
+  getLogger(scope: string): Logger {
+    return createLogger(scope, this.config);
+  }
+
   /**
    * Gets statistics about the bus.
    * @returns {object}
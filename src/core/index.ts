@@ -3,3 +3,13 @@
  */
 export * from './MessageFactory';
 export * from './TypeBus';
+export * from './DispatchContext';
+export * from './MessageContext';
+export * from './Logger';
+export * from './PolicyRegistry';
+export * from './EventDispatch';
+export * from './EventQueue';
+export * from './Disposer';
+export * from './ModuleRegistry';
+export * from './InFlight';
+export * from './Result';
@@ -0,0 +1,105 @@
+// deadletter/DeadLetter.ts - Контракт хранилища недоставленных событий (dead-letter queue)
+import { IEvent } from '../types';
+
+/**
+ * Event delivery that failed for one handler.
+ * @typedef {Object} DeadLetter
+ * @property {string} id - `<event id>:<handler>`
+ * @property {IEvent} event - The original event
+ * @property {string} handler - Id of the handler registration: its name, or `#<n>` for unnamed handlers
+ * @property {{ name: string, message: string, stack?: string }} error - Last error
+ * @property {number} attempts - Failed delivery attempts
+ * @property {Date} createdAt - First failure
+ * @property {Date} lastAttemptAt - Last failure
+ */
+export interface DeadLetter {
+  id: string;
+  event: IEvent;
+  handler: string;
+  error: { name: string; message: string; stack?: string };
+  attempts: number;
+  createdAt: Date;
+  lastAttemptAt: Date;
+}
+
+/**
+ * Criteria for listing dead letters.
+ * @typedef {Object} DeadLetterFilter
+ * @property {string} [eventType]
+ * @property {string} [handler]
+ * @property {number} [limit]
+ */
+export interface DeadLetterFilter {
+  eventType?: string;
+  handler?: string;
+  limit?: number;
+}
+
+/**
+ * Interface for dead-letter stores.
+ * @typedef {Object} IDeadLetterStore
+ */
+export interface IDeadLetterStore {
+  /**
+   * Stores a dead letter, replacing one with the same ID.
+   * @param {DeadLetter} letter
+   * @returns {Promise<void>}
+   */
+  save(letter: DeadLetter): Promise<void>;
+
+  /**
+   * Gets a dead letter.
+   * @param {string} id
+   * @returns {Promise<DeadLetter | undefined>}
+   */
+  get(id: string): Promise<DeadLetter | undefined>;
+
+  /**
+   * Lists dead letters, oldest first.
+   * @param {DeadLetterFilter} [filter]
+   * @returns {Promise<DeadLetter[]>}
+   */
+  list(filter?: DeadLetterFilter): Promise<DeadLetter[]>;
+
+  /**
+   * Removes a dead letter.
+   * @param {string} id
+   * @returns {Promise<boolean>} Whether the dead letter existed.
+   */
+  remove(id: string): Promise<boolean>;
+}
+
+/**
+ * Serializes an error for storage.
+ * @param {unknown} error
+ * @returns {DeadLetter['error']}
+ */
+export function toDeadLetterError(error: unknown): DeadLetter['error'] {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: 'Error', message: String(error) };
+}
+
+/**
+ * Records a failed delivery: creates the dead letter or counts another attempt on it.
+ * @param {IDeadLetterStore} store
+ * @param {IEvent} event
+ * @param {string} handler
+ * @param {unknown} error
+ * @returns {Promise<DeadLetter>}
+ */
+export async function recordDeadLetter(
+  store: IDeadLetterStore,
+  event: IEvent,
+  handler: string,
+  error: unknown
+): Promise<DeadLetter> {
+  const id = `${event.id}:${handler}`;
+  const now = new Date();
+  const existing = await store.get(id);
+  const letter: DeadLetter = existing
+    ? { ...existing, error: toDeadLetterError(error), attempts: existing.attempts + 1, lastAttemptAt: now }
+    : { id, event, handler, error: toDeadLetterError(error), attempts: 1, createdAt: now, lastAttemptAt: now };
+  await store.save(letter);
+  return letter;
+}
@@ -0,0 +1,100 @@
+// deadletter/DeadLetterQueue.ts - Управление недоставленными событиями и их повторная доставка
+import { TypeBus } from '../core/TypeBus';
+import { DeadLetter, DeadLetterFilter, IDeadLetterStore, recordDeadLetter } from './DeadLetter';
+
+/**
+ * Outcome of a redrive.
+ * @typedef {Object} RedriveResult
+ * @property {number} succeeded - Dead letters delivered and removed
+ * @property {number} failed - Dead letters that failed again and were kept
+ */
+export interface RedriveResult {
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * API for inspecting and retrying the dead letters of a bus.
+ * Retries deliver the original event to the original handler through the normal middleware
+ * pipeline; a successful retry removes the dead letter, a failed one counts another attempt.
+ * @template TEventMap - Event map type
+ */
+export class DeadLetterQueue<TEventMap extends Record<string, any> = any> {
+  private store: IDeadLetterStore;
+
+  /**
+   * Creates a new DeadLetterQueue.
+   * @param {TypeBus<any, any, TEventMap>} bus - Bus configured with a dead-letter store.
+   */
+  constructor(private readonly bus: TypeBus<any, any, TEventMap>) {
+    const store = bus.getDeadLetterStore();
+    if (!store) {
+      throw new Error('DeadLetterQueue requires a TypeBus configured with a deadLetterStore');
+    }
+    this.store = store;
+  }
+
+  /**
+   * Lists dead letters, oldest first.
+   * @param {DeadLetterFilter} [filter]
+   * @returns {Promise<DeadLetter[]>}
+   */
+  list(filter?: DeadLetterFilter): Promise<DeadLetter[]> {
+    return this.store.list(filter);
+  }
+
+  /**
+   * Gets a dead letter.
+   * @param {string} id
+   * @returns {Promise<DeadLetter | undefined>}
+   */
+  inspect(id: string): Promise<DeadLetter | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Delivers a dead letter again.
+   * @param {string} id
+   * @returns {Promise<boolean>} Whether the delivery succeeded.
+   */
+  async retry(id: string): Promise<boolean> {
+    const letter = await this.store.get(id);
+    if (!letter) {
+      throw new Error(`Dead letter '${id}' not found`);
+    }
+    try {
+      await this.bus.redeliverEvent(letter.event, letter.handler);
+    } catch (error) {
+      await recordDeadLetter(this.store, letter.event, letter.handler, error);
+      return false;
+    }
+    await this.store.remove(id);
+    return true;
+  }
+
+  /**
+   * Removes a dead letter without delivering it.
+   * @param {string} id
+   * @returns {Promise<boolean>} Whether the dead letter existed.
+   */
+  discard(id: string): Promise<boolean> {
+    return this.store.remove(id);
+  }
+
+  /**
+   * Retries every matching dead letter, oldest first.
+   * @param {DeadLetterFilter} [filter]
+   * @returns {Promise<RedriveResult>}
+   */
+  async redrive(filter?: DeadLetterFilter): Promise<RedriveResult> {
+    const result: RedriveResult = { succeeded: 0, failed: 0 };
+    for (const letter of await this.store.list(filter)) {
+      if (await this.retry(letter.id)) {
+        result.succeeded++;
+      } else {
+        result.failed++;
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,51 @@
+// deadletter/InMemoryDeadLetterStore.ts - Хранилище недоставленных событий в памяти
+import { DeadLetter, DeadLetterFilter, IDeadLetterStore } from './DeadLetter';
+
+/**
+ * Dead-letter store that keeps dead letters in memory. Does not survive a restart.
+ * @implements {IDeadLetterStore}
+ */
+export class InMemoryDeadLetterStore implements IDeadLetterStore {
+  private letters = new Map<string, DeadLetter>();
+
+  /**
+   * Stores a dead letter.
+   * @param {DeadLetter} letter
+   * @returns {Promise<void>}
+   */
+  async save(letter: DeadLetter): Promise<void> {
+    this.letters.set(letter.id, { ...letter });
+  }
+
+  /**
+   * Gets a dead letter.
+   * @param {string} id
+   * @returns {Promise<DeadLetter | undefined>}
+   */
+  async get(id: string): Promise<DeadLetter | undefined> {
+    const letter = this.letters.get(id);
+    return letter && { ...letter };
+  }
+
+  /**
+   * Lists dead letters, oldest first.
+   * @param {DeadLetterFilter} [filter]
+   * @returns {Promise<DeadLetter[]>}
+   */
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    return Array.from(this.letters.values())
+      .filter(letter => filter.eventType === undefined || letter.event.type === filter.eventType)
+      .filter(letter => filter.handler === undefined || letter.handler === filter.handler)
+      .slice(0, filter.limit)
+      .map(letter => ({ ...letter }));
+  }
+
+  /**
+   * Removes a dead letter.
+   * @param {string} id
+   * @returns {Promise<boolean>}
+   */
+  async remove(id: string): Promise<boolean> {
+    return this.letters.delete(id);
+  }
+}
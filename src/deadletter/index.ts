@@ -0,0 +1,6 @@
+/**
+ * Exports the dead-letter queue for failed event deliveries.
+ */
+export * from './DeadLetter';
+export * from './InMemoryDeadLetterStore';
+export * from './DeadLetterQueue';
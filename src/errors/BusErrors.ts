@@ -0,0 +1,114 @@
+// errors/BusErrors.ts - Ошибки регистрации и выполнения сообщений в шине
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from './TypeBusError';
+
+/**
+ * Error thrown when no handler is registered for a dispatched message.
+ */
+export class HandlerNotFoundError extends TypeBusError {
+  declare readonly messageType: string;
+
+  /**
+   * @param {string} kind - What was looked up, e.g. 'command' or 'query'.
+   * @param {string} messageType
+   * @param {TypeBusErrorOptions & { handlerId?: string }} [options] - `handlerId` when a specific event handler was looked up
+   */
+  constructor(
+    public readonly kind: string,
+    messageType: string,
+    options: TypeBusErrorOptions & { handlerId?: string } = {}
+  ) {
+    const { handlerId, ...rest } = options;
+    super(
+      ErrorCode.HANDLER_NOT_FOUND,
+      handlerId !== undefined
+        ? `No handler '${handlerId}' registered for ${kind}: ${messageType}`
+        : `No handler registered for ${kind}: ${messageType}`,
+      { ...rest, messageType }
+    );
+    this.name = 'HandlerNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a second handler is registered for a command or query type.
+ */
+export class DuplicateHandlerError extends TypeBusError {
+  declare readonly messageType: string;
+
+  /**
+   * @param {'command'|'query'} kind
+   * @param {string} messageType
+   */
+  constructor(public readonly kind: 'command' | 'query', messageType: string) {
+    super(
+      ErrorCode.DUPLICATE_HANDLER,
+      `${kind === 'command' ? 'Command' : 'Query'} handler for '${messageType}' already registered`,
+      { messageType }
+    );
+    this.name = 'DuplicateHandlerError';
+  }
+}
+
+/**
+ * Error thrown when registering more middleware than the bus allows.
+ */
+export class MiddlewareLimitError extends TypeBusError {
+  /**
+   * @param {number} limit - The configured maximum.
+   */
+  constructor(public readonly limit: number) {
+    super(ErrorCode.MIDDLEWARE_LIMIT, `Maximum number of middleware (${limit}) exceeded`);
+    this.name = 'MiddlewareLimitError';
+  }
+}
+
+/**
+ * Error thrown when a second query cache is attached to a bus.
+ */
+export class QueryCacheAttachedError extends TypeBusError {
+  constructor() {
+    super(ErrorCode.QUERY_CACHE_ATTACHED, 'A query cache is already attached to this bus');
+    this.name = 'QueryCacheAttachedError';
+  }
+}
+
+/**
+ * Error a dispatch is aborted with when it runs longer than its timeout.
+ */
+export class MessageTimeoutError extends TypeBusError {
+  declare readonly messageType: string;
+
+  /**
+   * @param {string} messageType
+   * @param {number} timeout - Milliseconds the dispatch was allowed to run.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(messageType: string, public readonly timeout: number, options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.MESSAGE_TIMEOUT, `${messageType} timed out after ${timeout}ms`, { ...options, messageType });
+    this.name = 'MessageTimeoutError';
+  }
+}
+
+/**
+ * Business rejection thrown by a handler, e.g. "email already taken". Declare the possible
+ * reasons in the `errors` shape of the message map entry to get typed rejections from
+ * `tryExecuteCommand` and `tryExecuteQuery`.
+ * @template R - Rejection reason
+ * @template D - Details of the rejection
+ */
+export class RejectedError<R extends string = string, D = unknown> extends TypeBusError {
+  /**
+   * @param {R} reason - Key of the rejection in the `errors` shape.
+   * @param {D} details - Payload described by the `errors` shape.
+   * @param {TypeBusErrorOptions & { message?: string }} [options]
+   */
+  constructor(
+    public readonly reason: R,
+    public readonly details: D,
+    options: TypeBusErrorOptions & { message?: string } = {}
+  ) {
+    const { message, ...rest } = options;
+    super(ErrorCode.MESSAGE_REJECTED, message ?? `Rejected: ${reason}`, rest);
+    this.name = 'RejectedError';
+  }
+}
@@ -0,0 +1,175 @@
+// errors/ProblemDetails.ts - Преобразование ошибок TypeBus в объекты problem details (RFC 7807)
+import { ErrorCode, TypeBusError } from './TypeBusError';
+import { MessageTimeoutError, RejectedError } from './BusErrors';
+import { ValidationError } from '../validation/ValidationError';
+import { ConcurrencyError } from '../eventstore/EventStore';
+import { CircuitOpenError } from '../middleware/CircuitBreakerMiddleware';
+import { EventDispatchError } from '../core/EventDispatch';
+import { EventQueueFullError } from '../core/EventQueue';
+import { LockTimeoutError } from '../locking/LockProvider';
+
+/**
+ * Serializable description of an error, following RFC 7807.
+ * Error-specific fields (e.g. `issues` of a ValidationError) are added as extension members.
+ * @typedef {Object} ProblemDetails
+ * @property {string} type - URI identifying the problem type
+ * @property {string} title - Short summary of the problem type
+ * @property {number} status - Suggested HTTP status code
+ * @property {string} detail - Description of this occurrence
+ * @property {string} code - Stable error code
+ * @property {string} [instance] - URI of this occurrence
+ * @property {string} [messageType]
+ * @property {string} [messageId]
+ * @property {SerializedCause} [cause] - Cause chain, when requested
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  instance?: string;
+  messageType?: string;
+  messageId?: string;
+  cause?: SerializedCause;
+  [extension: string]: unknown;
+}
+
+/**
+ * Serializable link of a cause chain.
+ * @typedef {Object} SerializedCause
+ */
+export interface SerializedCause {
+  name: string;
+  message: string;
+  code?: string;
+  cause?: SerializedCause;
+}
+
+/**
+ * Options for mapping errors to problem details.
+ * @typedef {Object} ProblemDetailsOptions
+ * @property {string} [typeBaseUri] - Prefix of `type`, followed by the kebab-cased code (default: 'about:blank' as the whole type)
+ * @property {string} [instance] - URI of this occurrence, e.g. the request path
+ * @property {Record<string, number>} [statuses] - Status codes per error code, merged over the defaults
+ * @property {boolean} [includeCause] - Add the cause chain; may expose internals (default: false)
+ */
+export interface ProblemDetailsOptions {
+  typeBaseUri?: string;
+  instance?: string;
+  statuses?: Record<string, number>;
+  includeCause?: boolean;
+}
+
+/**
+ * Code used for errors that are not TypeBus errors.
+ */
+export const INTERNAL_ERROR_CODE = 'INTERNAL_ERROR';
+
+const PROBLEMS: Record<ErrorCode, { status: number; title: string }> = {
+  HANDLER_NOT_FOUND: { status: 404, title: 'Handler not found' },
+  DUPLICATE_HANDLER: { status: 500, title: 'Duplicate handler' },
+  MIDDLEWARE_LIMIT: { status: 500, title: 'Middleware limit exceeded' },
+  MESSAGE_TIMEOUT: { status: 504, title: 'Message timed out' },
+  CONCURRENCY_CONFLICT: { status: 409, title: 'Concurrency conflict' },
+  VALIDATION_FAILED: { status: 400, title: 'Validation failed' },
+  CIRCUIT_OPEN: { status: 503, title: 'Circuit open' },
+  EVENT_DISPATCH_FAILED: { status: 500, title: 'Event dispatch failed' },
+  EVENT_QUEUE_FULL: { status: 503, title: 'Event queue full' },
+  LOCK_TIMEOUT: { status: 503, title: 'Lock timed out' },
+  BUS_CLOSED: { status: 503, title: 'Bus closed' },
+  MESSAGE_REJECTED: { status: 422, title: 'Message rejected' },
+  QUERY_CACHE_ATTACHED: { status: 500, title: 'Query cache already attached' },
+  MODULE_NOT_INSTALLED: { status: 404, title: 'Module not installed' },
+  MODULE_ALREADY_INSTALLED: { status: 409, title: 'Module already installed' },
+  MODULE_IN_USE: { status: 409, title: 'Module in use' },
+  MODULE_DEPENDENCY_MISSING: { status: 500, title: 'Module dependency missing' },
+  MODULE_DEPENDENCY_CYCLE: { status: 500, title: 'Circular module dependency' }
+};
+
+const MAX_CAUSE_DEPTH = 5;
+
+/**
+ * Maps an error to a problem-details object. TypeBus errors keep their code, message type and
+ * id; any other error becomes a generic 500 without its message, so internals do not leak.
+ * @param {unknown} error
+ * @param {ProblemDetailsOptions} [options]
+ * @returns {ProblemDetails}
+ */
+export function toProblemDetails(error: unknown, options: ProblemDetailsOptions = {}): ProblemDetails {
+  const code = error instanceof TypeBusError ? error.code : INTERNAL_ERROR_CODE;
+  const known = PROBLEMS[code as ErrorCode];
+  const problem: ProblemDetails = {
+    type: options.typeBaseUri ? `${options.typeBaseUri}${code.toLowerCase().replace(/_/g, '-')}` : 'about:blank',
+    title: known?.title ?? 'Internal server error',
+    status: options.statuses?.[code] ?? known?.status ?? 500,
+    detail: error instanceof TypeBusError ? error.message : 'An unexpected error occurred',
+    code
+  };
+  if (options.instance) problem.instance = options.instance;
+
+  if (error instanceof TypeBusError) {
+    if (error.messageType !== undefined) problem.messageType = error.messageType;
+    if (error.messageId !== undefined) problem.messageId = error.messageId;
+    Object.assign(problem, getExtensions(error));
+    if (options.includeCause && error.cause !== undefined) {
+      problem.cause = serializeCause(error.cause, MAX_CAUSE_DEPTH);
+    }
+  } else if (options.includeCause && error !== undefined) {
+    problem.cause = serializeCause(error, MAX_CAUSE_DEPTH);
+  }
+  return problem;
+}
+
+/**
+ * Gets the error-specific extension members.
+ * @param {TypeBusError} error
+ * @returns {Record<string, unknown>}
+ */
+function getExtensions(error: TypeBusError): Record<string, unknown> {
+  if (error instanceof ValidationError) {
+    return { issues: error.issues };
+  }
+  if (error instanceof RejectedError) {
+    return { reason: error.reason, details: error.details };
+  }
+  if (error instanceof ConcurrencyError) {
+    return {
+      aggregateId: error.aggregateId,
+      expectedVersion: error.expectedVersion,
+      actualVersion: error.actualVersion
+    };
+  }
+  if (error instanceof CircuitOpenError) {
+    return { retryAt: error.retryAt.toISOString() };
+  }
+  if (error instanceof MessageTimeoutError || error instanceof LockTimeoutError) {
+    return { timeout: error.timeout };
+  }
+  if (error instanceof EventQueueFullError) {
+    return { maxSize: error.maxSize };
+  }
+  if (error instanceof EventDispatchError) {
+    return { failedHandlers: error.failures.map(failure => failure.handler) };
+  }
+  return {};
+}
+
+/**
+ * Serializes a cause chain, stopping at the given depth.
+ * @param {unknown} cause
+ * @param {number} depth
+ * @returns {SerializedCause}
+ */
+function serializeCause(cause: unknown, depth: number): SerializedCause {
+  if (!(cause instanceof Error)) {
+    return { name: typeof cause, message: String(cause) };
+  }
+  const serialized: SerializedCause = { name: cause.name, message: cause.message };
+  if (cause instanceof TypeBusError) serialized.code = cause.code;
+  const next = (cause as { cause?: unknown }).cause;
+  if (next !== undefined && depth > 1) {
+    serialized.cause = serializeCause(next, depth - 1);
+  }
+  return serialized;
+}
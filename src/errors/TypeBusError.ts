@@ -0,0 +1,68 @@
+// errors/TypeBusError.ts - Базовый класс ошибок TypeBus со стабильными кодами
+
+/**
+ * Stable codes of the errors thrown by TypeBus. Safe to match on, unlike error messages.
+ */
+export const ErrorCode = {
+  HANDLER_NOT_FOUND: 'HANDLER_NOT_FOUND',
+  DUPLICATE_HANDLER: 'DUPLICATE_HANDLER',
+  MIDDLEWARE_LIMIT: 'MIDDLEWARE_LIMIT',
+  MESSAGE_TIMEOUT: 'MESSAGE_TIMEOUT',
+  CONCURRENCY_CONFLICT: 'CONCURRENCY_CONFLICT',
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN',
+  EVENT_DISPATCH_FAILED: 'EVENT_DISPATCH_FAILED',
+  EVENT_QUEUE_FULL: 'EVENT_QUEUE_FULL',
+  LOCK_TIMEOUT: 'LOCK_TIMEOUT',
+  BUS_CLOSED: 'BUS_CLOSED',
+  MESSAGE_REJECTED: 'MESSAGE_REJECTED',
+  QUERY_CACHE_ATTACHED: 'QUERY_CACHE_ATTACHED',
+  MODULE_NOT_INSTALLED: 'MODULE_NOT_INSTALLED',
+  MODULE_ALREADY_INSTALLED: 'MODULE_ALREADY_INSTALLED',
+  MODULE_IN_USE: 'MODULE_IN_USE',
+  MODULE_DEPENDENCY_MISSING: 'MODULE_DEPENDENCY_MISSING',
+  MODULE_DEPENDENCY_CYCLE: 'MODULE_DEPENDENCY_CYCLE'
+} as const;
+
+/**
+ * Code of a TypeBus error.
+ * @typedef {string} ErrorCode
+ */
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
+
+/**
+ * Context attached to a TypeBus error.
+ * @typedef {Object} TypeBusErrorOptions
+ * @property {string} [messageType] - Type of the offending message
+ * @property {string} [messageId] - Id of the offending message
+ * @property {unknown} [cause] - Error that led to this one
+ */
+export interface TypeBusErrorOptions {
+  messageType?: string;
+  messageId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class of all errors thrown by TypeBus.
+ */
+export class TypeBusError extends Error {
+  readonly messageType?: string;
+  readonly messageId?: string;
+  readonly cause?: unknown;
+
+  /**
+   * @param {ErrorCode} code - Stable error code.
+   * @param {string} message - Human-readable description.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(public readonly code: ErrorCode, message: string, options: TypeBusErrorOptions = {}) {
+    super(message);
+    this.name = 'TypeBusError';
+    this.messageType = options.messageType;
+    this.messageId = options.messageId;
+    if (options.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
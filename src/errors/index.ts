@@ -0,0 +1,6 @@
+/**
+ * Exports error classes and the problem-details mapper of TypeBus-CQRS.
+ */
+export * from './TypeBusError';
+export * from './BusErrors';
+export * from './ProblemDetails';
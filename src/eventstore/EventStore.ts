@@ -0,0 +1,108 @@
+// eventstore/EventStore.ts - Контракт хранилища событий
+import { IEvent } from '../types';
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+
+/**
+ * Event persisted in an event store.
+ * Extends the original event with its global position in the store.
+ * @template T - Event map type
+ * @template K - Event type key
+ * @typedef {IEvent<T, K> & { position: number }} StoredEvent
+ */
+export type StoredEvent<
+  T extends Record<string, any> = any,
+  K extends keyof T & string = keyof T & string
+> = IEvent<T, K> & {
+  readonly position: number;
+};
+
+/**
+ * Interface for event stores.
+ * Streams are keyed by aggregate ID; positions are global, 1-based and gap-free.
+ * @typedef {Object} IEventStore
+ */
+export interface IEventStore {
+  /**
+   * Appends events to an aggregate stream.
+   * @param {string} aggregateId - The stream to append to.
+   * @param {IEvent[]} events - Events with consecutive versions starting at expectedVersion + 1.
+   * @param {number} expectedVersion - The current stream version the caller expects (0 for a new stream).
+   * @returns {Promise<StoredEvent[]>} The stored events with their global positions.
+   * @throws {ConcurrencyError} When the stream version does not match expectedVersion.
+   */
+  append(aggregateId: string, events: IEvent[], expectedVersion: number): Promise<StoredEvent[]>;
+
+  /**
+   * Reads events of a single aggregate stream.
+   * @param {string} aggregateId
+   * @param {number} [fromVersion] - First version to return (inclusive, default 1).
+   * @returns {Promise<StoredEvent[]>}
+   */
+  readStream(aggregateId: string, fromVersion?: number): Promise<StoredEvent[]>;
+
+  /**
+   * Reads events of all streams ordered by global position.
+   * @param {number} [fromPosition] - First position to return (inclusive, default 1).
+   * @param {number} [limit] - Maximum number of events to return.
+   * @returns {Promise<StoredEvent[]>}
+   */
+  readAll(fromPosition?: number, limit?: number): Promise<StoredEvent[]>;
+
+  /**
+   * Returns the current version of a stream (0 if the stream does not exist).
+   * @param {string} aggregateId
+   * @returns {Promise<number>}
+   */
+  getStreamVersion(aggregateId: string): Promise<number>;
+
+  /**
+   * Returns the position of the last stored event (0 if the store is empty).
+   * @returns {Promise<number>}
+   */
+  getLastPosition(): Promise<number>;
+}
+
+/**
+ * Error thrown when an append does not follow the current stream version.
+ */
+export class ConcurrencyError extends TypeBusError {
+  /**
+   * @param {string} aggregateId
+   * @param {number} expectedVersion
+   * @param {number} actualVersion
+   * @param {TypeBusErrorOptions} [options] - The first event of the rejected append
+   */
+  constructor(
+    public readonly aggregateId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number,
+    options: TypeBusErrorOptions = {}
+  ) {
+    super(
+      ErrorCode.CONCURRENCY_CONFLICT,
+      `Concurrency conflict on stream '${aggregateId}': expected version ${expectedVersion}, actual version ${actualVersion}`,
+      options
+    );
+    this.name = 'ConcurrencyError';
+  }
+}
+
+/**
+ * Checks that events are numbered consecutively after expectedVersion.
+ * @param {string} aggregateId
+ * @param {IEvent[]} events
+ * @param {number} expectedVersion
+ * @throws {Error} When an event belongs to another stream or has an unexpected version.
+ */
+export function assertEventSequence(aggregateId: string, events: IEvent[], expectedVersion: number): void {
+  events.forEach((event, index) => {
+    if (event.aggregateId !== aggregateId) {
+      throw new Error(`Event '${event.type}' belongs to stream '${event.aggregateId}', not '${aggregateId}'`);
+    }
+    if (event.version !== expectedVersion + index + 1) {
+      throw new Error(
+        `Event '${event.type}' has version ${event.version}, expected ${expectedVersion + index + 1}`
+      );
+    }
+  });
+}
@@ -0,0 +1,137 @@
+// eventstore/FileEventStore.ts - Хранилище событий в файле формата JSON Lines
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IEvent } from '../types';
+import { IEventStore, StoredEvent, ConcurrencyError, assertEventSequence } from './EventStore';
+import { InMemoryEventStore } from './InMemoryEventStore';
+import { readJsonLines } from './JsonLines';
+
+/**
+ * Event store that persists events to a JSON-lines file, one event per line.
+ * The file is read once on first access and kept indexed in memory; appends are serialized
+ * so that the version check and the write happen atomically within the process.
+ * @implements {IEventStore}
+ */
+export class FileEventStore implements IEventStore {
+  private index = new InMemoryEventStore();
+  private loading?: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a new FileEventStore instance.
+   * @param {string} filePath - Path of the JSON-lines file. Created on first append.
+   */
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Appends events to an aggregate stream and writes them to the file.
+   * @param {string} aggregateId
+   * @param {IEvent[]} events
+   * @param {number} expectedVersion
+   * @returns {Promise<StoredEvent[]>}
+   */
+  async append(aggregateId: string, events: IEvent[], expectedVersion: number): Promise<StoredEvent[]> {
+    return this.enqueue(async () => {
+      await this.load();
+      const currentVersion = await this.index.getStreamVersion(aggregateId);
+      if (currentVersion !== expectedVersion) {
+        throw new ConcurrencyError(aggregateId, expectedVersion, currentVersion, {
+          messageType: events[0]?.type,
+          messageId: events[0]?.id
+        });
+      }
+      assertEventSequence(aggregateId, events, expectedVersion);
+
+      const lastPosition = await this.index.getLastPosition();
+      const lines = events
+        .map((event, index) => JSON.stringify({ ...event, position: lastPosition + index + 1 }))
+        .join('\n');
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${lines}\n`, 'utf8');
+
+      return this.index.append(aggregateId, events, expectedVersion);
+    });
+  }
+
+  /**
+   * Reads events of a single aggregate stream.
+   * @param {string} aggregateId
+   * @param {number} [fromVersion]
+   * @returns {Promise<StoredEvent[]>}
+   */
+  async readStream(aggregateId: string, fromVersion?: number): Promise<StoredEvent[]> {
+    await this.load();
+    return this.index.readStream(aggregateId, fromVersion);
+  }
+
+  /**
+   * Reads events of all streams ordered by global position.
+   * @param {number} [fromPosition]
+   * @param {number} [limit]
+   * @returns {Promise<StoredEvent[]>}
+   */
+  async readAll(fromPosition?: number, limit?: number): Promise<StoredEvent[]> {
+    await this.load();
+    return this.index.readAll(fromPosition, limit);
+  }
+
+  /**
+   * Returns the current version of a stream.
+   * @param {string} aggregateId
+   * @returns {Promise<number>}
+   */
+  async getStreamVersion(aggregateId: string): Promise<number> {
+    await this.load();
+    return this.index.getStreamVersion(aggregateId);
+  }
+
+  /**
+   * Returns the position of the last stored event.
+   * @returns {Promise<number>}
+   */
+  async getLastPosition(): Promise<number> {
+    await this.load();
+    return this.index.getLastPosition();
+  }
+
+  /**
+   * Loads the file into the in-memory index once. A failed load is retried on the next access.
+   * @returns {Promise<void>}
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch(error => {
+        this.index = new InMemoryEventStore();
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Reads and indexes every event stored in the file.
+   * @returns {Promise<void>}
+   */
+  private async readFile(): Promise<void> {
+    for (const line of (await readJsonLines(this.filePath)) ?? []) {
+      const raw = JSON.parse(line);
+      delete raw.position;
+      // Files written before messages carried a kind have none
+      const event: IEvent = { ...raw, kind: 'event', timestamp: new Date(raw.timestamp) };
+      await this.index.append(event.aggregateId, [event], event.version - 1);
+    }
+  }
+
+  /**
+   * Runs an operation after all previously queued operations have settled.
+   * @template T
+   * @param {() => Promise<T>} operation
+   * @returns {Promise<T>}
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
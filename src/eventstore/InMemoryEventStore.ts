@@ -0,0 +1,78 @@
+// eventstore/InMemoryEventStore.ts - Хранилище событий в памяти
+import { IEvent } from '../types';
+import { IEventStore, StoredEvent, ConcurrencyError, assertEventSequence } from './EventStore';
+
+/**
+ * Event store that keeps all events in memory.
+ * Suitable for tests and single-process applications that do not need durability.
+ * @implements {IEventStore}
+ */
+export class InMemoryEventStore implements IEventStore {
+  private events: StoredEvent[] = [];
+  private streams = new Map<string, StoredEvent[]>();
+
+  /**
+   * Appends events to an aggregate stream.
+   * @param {string} aggregateId
+   * @param {IEvent[]} events
+   * @param {number} expectedVersion
+   * @returns {Promise<StoredEvent[]>}
+   */
+  async append(aggregateId: string, events: IEvent[], expectedVersion: number): Promise<StoredEvent[]> {
+    const stream = this.streams.get(aggregateId) || [];
+    if (stream.length !== expectedVersion) {
+      throw new ConcurrencyError(aggregateId, expectedVersion, stream.length, {
+        messageType: events[0]?.type,
+        messageId: events[0]?.id
+      });
+    }
+    assertEventSequence(aggregateId, events, expectedVersion);
+
+    const stored = events.map((event, index) => ({
+      ...event,
+      position: this.events.length + index + 1
+    }));
+    this.events.push(...stored);
+    this.streams.set(aggregateId, [...stream, ...stored]);
+    return stored;
+  }
+
+  /**
+   * Reads events of a single aggregate stream.
+   * @param {string} aggregateId
+   * @param {number} [fromVersion]
+   * @returns {Promise<StoredEvent[]>}
+   */
+  async readStream(aggregateId: string, fromVersion = 1): Promise<StoredEvent[]> {
+    const stream = this.streams.get(aggregateId) || [];
+    return stream.slice(Math.max(fromVersion, 1) - 1);
+  }
+
+  /**
+   * Reads events of all streams ordered by global position.
+   * @param {number} [fromPosition]
+   * @param {number} [limit]
+   * @returns {Promise<StoredEvent[]>}
+   */
+  async readAll(fromPosition = 1, limit?: number): Promise<StoredEvent[]> {
+    const start = Math.max(fromPosition, 1) - 1;
+    return this.events.slice(start, limit === undefined ? undefined : start + limit);
+  }
+
+  /**
+   * Returns the current version of a stream.
+   * @param {string} aggregateId
+   * @returns {Promise<number>}
+   */
+  async getStreamVersion(aggregateId: string): Promise<number> {
+    return this.streams.get(aggregateId)?.length ?? 0;
+  }
+
+  /**
+   * Returns the position of the last stored event.
+   * @returns {Promise<number>}
+   */
+  async getLastPosition(): Promise<number> {
+    return this.events.length;
+  }
+}
@@ -0,0 +1,25 @@
+// eventstore/JsonLines.ts - Чтение файлов формата JSON Lines с восстановлением после сбоя записи
+import { promises as fs } from 'fs';
+
+/**
+ * Reads the non-empty lines of a JSON-lines file. Every write ends with a newline, so text
+ * after the last newline is a write torn by a crash: it is cut off the file, which lets later
+ * appends start on a fresh line.
+ * @param {string} filePath
+ * @returns {Promise<string[] | undefined>} The lines, or undefined when the file does not exist.
+ */
+export async function readJsonLines(filePath: string): Promise<string[] | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+
+  const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+  if (complete.length < content.length) {
+    await fs.truncate(filePath, Buffer.byteLength(complete, 'utf8'));
+  }
+  return complete.split('\n').filter(line => line.trim());
+}
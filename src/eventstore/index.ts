@@ -0,0 +1,6 @@
+/**
+ * Exports event store contracts and implementations.
+ */
+export * from './EventStore';
+export * from './InMemoryEventStore';
+export * from './FileEventStore';
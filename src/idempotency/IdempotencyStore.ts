@@ -0,0 +1,64 @@
+// idempotency/IdempotencyStore.ts - Контракт хранилища результатов для дедупликации
+/**
+ * Stored result of the first execution of an idempotent message.
+ * @typedef {Object} IdempotencyRecord
+ * @property {string} key - Idempotency key, namespaced by message type
+ * @property {string} messageType - Type of the message that produced the result
+ * @property {any} result - Result returned by the handler
+ * @property {Date} createdAt - When the result was stored
+ * @property {Date} expiresAt - When the record stops deduplicating
+ */
+export interface IdempotencyRecord {
+  key: string;
+  messageType: string;
+  result: any;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of reserving an idempotency key: 'reserved' when the caller runs the handler,
+ * 'pending' while another execution holds the key and 'completed' once a result is stored.
+ * @typedef {Object} IdempotencyReservation
+ */
+export type IdempotencyReservation =
+  | { status: 'reserved' }
+  | { status: 'pending' }
+  | { status: 'completed'; record: IdempotencyRecord };
+
+/**
+ * Interface for idempotency stores. An execution reserves its key, runs the handler and then
+ * completes the key with the result, or deletes it when the handler fails.
+ * @typedef {Object} IIdempotencyStore
+ */
+export interface IIdempotencyStore {
+  /**
+   * Gets an unexpired record.
+   * @param {string} key
+   * @returns {Promise<IdempotencyRecord | undefined>}
+   */
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+
+  /**
+   * Reserves a key unless it has a record or an unexpired reservation. Must be atomic across
+   * all processes sharing the store, so only one of them gets 'reserved'.
+   * @param {string} key
+   * @param {Date} expiresAt - When the reservation lapses if the key is not completed
+   * @returns {Promise<IdempotencyReservation>}
+   */
+  reserve(key: string, expiresAt: Date): Promise<IdempotencyReservation>;
+
+  /**
+   * Stores the record of a reserved key, replacing the reservation and any previous record.
+   * @param {IdempotencyRecord} record
+   * @returns {Promise<void>}
+   */
+  complete(record: IdempotencyRecord): Promise<void>;
+
+  /**
+   * Removes a record or reservation so the next message with the key runs again.
+   * @param {string} key
+   * @returns {Promise<void>}
+   */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,99 @@
+// idempotency/InMemoryIdempotencyStore.ts - Хранилище результатов в памяти с истечением по TTL
+import { IdempotencyRecord, IdempotencyReservation, IIdempotencyStore } from './IdempotencyStore';
+
+/**
+ * Idempotency store that keeps records and reservations in memory until they expire.
+ * @implements {IIdempotencyStore}
+ */
+export class InMemoryIdempotencyStore implements IIdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+  private reservations = new Map<string, Date>();
+
+  /**
+   * Gets an unexpired record.
+   * @param {string} key
+   * @returns {Promise<IdempotencyRecord | undefined>}
+   */
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    return this.lookup(key);
+  }
+
+  /**
+   * Reserves a key unless it has a record or an unexpired reservation.
+   * @param {string} key
+   * @param {Date} expiresAt
+   * @returns {Promise<IdempotencyReservation>}
+   */
+  async reserve(key: string, expiresAt: Date): Promise<IdempotencyReservation> {
+    const record = this.lookup(key);
+    if (record) {
+      return { status: 'completed', record };
+    }
+    const now = Date.now();
+    const reserved = this.reservations.get(key);
+    if (reserved && reserved.getTime() > now) {
+      return { status: 'pending' };
+    }
+    this.reservations.delete(key);
+    this.reservations.set(key, expiresAt);
+    this.prune(this.reservations, now);
+    return { status: 'reserved' };
+  }
+
+  /**
+   * Stores a record in place of its reservation and drops expired records.
+   * @param {IdempotencyRecord} record
+   * @returns {Promise<void>}
+   */
+  async complete(record: IdempotencyRecord): Promise<void> {
+    this.reservations.delete(record.key);
+    this.records.delete(record.key);
+    this.records.set(record.key, record);
+    this.prune(this.records, Date.now());
+  }
+
+  /**
+   * Removes a record or reservation.
+   * @param {string} key
+   * @returns {Promise<void>}
+   */
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+    this.reservations.delete(key);
+  }
+
+  /**
+   * Gets the number of stored records, including expired ones not yet pruned.
+   * @returns {number}
+   */
+  get size(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Gets an unexpired record, dropping it once expired.
+   * @param {string} key
+   * @returns {IdempotencyRecord | undefined}
+   */
+  private lookup(key: string): IdempotencyRecord | undefined {
+    const record = this.records.get(key);
+    if (record && record.expiresAt.getTime() <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  /**
+   * Drops expired entries from the oldest on; stops at the first live one.
+   * @param {Map<string, IdempotencyRecord | Date>} entries
+   * @param {number} now - Epoch milliseconds
+   */
+  private prune(entries: Map<string, IdempotencyRecord | Date>, now: number): void {
+    for (const [key, entry] of entries) {
+      const expiresAt = entry instanceof Date ? entry : entry.expiresAt;
+      if (expiresAt.getTime() > now) break;
+      entries.delete(key);
+    }
+  }
+}
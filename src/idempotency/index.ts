@@ -0,0 +1,5 @@
+/**
+ * Exports idempotency store contracts and implementations.
+ */
+export * from './IdempotencyStore';
+export * from './InMemoryIdempotencyStore';
@@ -3,8 +3,19 @@
 // Export all modules
 export * from './types';
 export * from './core';
+export * from './errors';
 export * from './builders';
 export * from './middleware';
+export * from './eventstore';
+export * from './aggregates';
+export * from './sagas';
+export * from './projections';
+export * from './outbox';
+export * from './validation';
+export * from './idempotency';
+export * from './caching';
+export * from './deadletter';
+export * from './locking';
 export * from './factory';
 
 /**
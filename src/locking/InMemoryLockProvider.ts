@@ -0,0 +1,84 @@
+// locking/InMemoryLockProvider.ts - Блокировки в памяти процесса
+import { AcquireLockOptions, ILockProvider, LockTimeoutError, ReleaseLock } from './LockProvider';
+
+/**
+ * Lock provider for a single process. Waiters of a key form a promise chain, so the lock is
+ * handed over in request order; a waiter that gives up passes its turn on immediately.
+ * @implements {ILockProvider}
+ */
+export class InMemoryLockProvider implements ILockProvider {
+  private tails = new Map<string, Promise<void>>();
+
+  /**
+   * Waits for the lock of a key.
+   * @param {string} key
+   * @param {AcquireLockOptions} options
+   * @returns {Promise<ReleaseLock>}
+   */
+  async acquire(key: string, options: AcquireLockOptions): Promise<ReleaseLock> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const released = new Promise<void>(resolve => (release = resolve));
+    const tail = previous.then(() => released);
+    this.tails.set(key, tail);
+
+    const unlock = async () => {
+      release();
+      await tail;
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    };
+
+    try {
+      await this.waitFor(previous, key, options);
+    } catch (error) {
+      void unlock();
+      throw error;
+    }
+    return unlock;
+  }
+
+  /**
+   * Checks whether a key is locked or has waiters.
+   * @param {string} key
+   * @returns {boolean}
+   */
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+
+  /**
+   * Waits for the previous holder to release, failing on timeout or abort.
+   * @param {Promise<void>} previous
+   * @param {string} key
+   * @param {AcquireLockOptions} options
+   * @returns {Promise<void>}
+   */
+  private waitFor(
+    previous: Promise<void>,
+    key: string,
+    { timeout, signal, messageType, messageId }: AcquireLockOptions
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => settle(() => reject(signal!.reason));
+      const timer = setTimeout(
+        () => settle(() => reject(new LockTimeoutError(key, timeout, { messageType, messageId }))),
+        timeout
+      );
+      let settled = false;
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        fn();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      previous.then(() => settle(resolve));
+    });
+  }
+}
@@ -0,0 +1,63 @@
+// locking/LockProvider.ts - Контракт поставщика блокировок агрегатов
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+
+/**
+ * Releases an acquired lock.
+ * @typedef {() => Promise<void>} ReleaseLock
+ */
+export type ReleaseLock = () => Promise<void>;
+
+/**
+ * Options of a lock acquisition.
+ * @typedef {Object} AcquireLockOptions
+ * @property {number} timeout - Milliseconds to wait before failing with a LockTimeoutError
+ * @property {AbortSignal} [signal] - Cancels waiting for the lock
+ * @property {string} [messageType] - Type of the message waiting for the lock, attached to a LockTimeoutError
+ * @property {string} [messageId] - Id of the message waiting for the lock, attached to a LockTimeoutError
+ */
+export interface AcquireLockOptions {
+  timeout: number;
+  signal?: AbortSignal;
+  messageType?: string;
+  messageId?: string;
+}
+
+/**
+ * Interface for lock providers. Locks are exclusive per key and granted in request order.
+ * @typedef {Object} ILockProvider
+ */
+export interface ILockProvider {
+  /**
+   * Waits for the lock of a key.
+   * @param {string} key
+   * @param {AcquireLockOptions} options
+   * @returns {Promise<ReleaseLock>} Function that releases the lock.
+   */
+  acquire(key: string, options: AcquireLockOptions): Promise<ReleaseLock>;
+}
+
+/**
+ * Options of per-aggregate command serialization.
+ * @typedef {Object} AggregateLockOptions
+ * @property {ILockProvider} [provider] - Where locks are taken (default: in memory)
+ * @property {number} [timeout] - Milliseconds a command waits for its aggregate (default: 5000)
+ */
+export interface AggregateLockOptions {
+  provider?: ILockProvider;
+  timeout?: number;
+}
+
+/**
+ * Error thrown when a lock is not acquired within the timeout.
+ */
+export class LockTimeoutError extends TypeBusError {
+  /**
+   * @param {string} key - The contended key.
+   * @param {number} timeout - Milliseconds waited.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(public readonly key: string, public readonly timeout: number, options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.LOCK_TIMEOUT, `Timed out after ${timeout}ms waiting for the lock of '${key}'`, options);
+    this.name = 'LockTimeoutError';
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Exports lock provider contracts and implementations.
+ */
+export * from './LockProvider';
+export * from './InMemoryLockProvider';
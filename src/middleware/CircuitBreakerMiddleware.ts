@@ -0,0 +1,257 @@
+// middleware/CircuitBreakerMiddleware.ts - Предохранитель для обработчиков, зависящих от внешних сервисов
+import { IMiddleware, IMessage } from '../types';
+import { getDispatchContext } from '../core/DispatchContext';
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+import { MessageTimeoutError, RejectedError } from '../errors/BusErrors';
+
+/**
+ * State of a circuit.
+ * @typedef {'closed'|'open'|'half-open'} CircuitState
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Notification about a circuit changing its state.
+ * @typedef {Object} CircuitStateChange
+ */
+export interface CircuitStateChange {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  failures: number;
+  timestamp: Date;
+}
+
+/**
+ * Options for configuring the CircuitBreakerMiddleware.
+ * @typedef {Object} CircuitBreakerOptions
+ * @property {number} [failureThreshold] - Consecutive failures that open the circuit (default: 5)
+ * @property {number} [cooldown] - Milliseconds an open circuit waits before a trial call (default: 30000)
+ * @property {number} [halfOpenMaxCalls] - Concurrent trial calls allowed while half-open (default: 1)
+ * @property {number} [callTimeout] - Milliseconds after which a call counts as failed (default: dispatch timeout)
+ * @property {(message: IMessage) => string} [key] - Groups messages into circuits (default: message type)
+ * @property {(error: unknown) => boolean} [isFailure] - Decides which errors count as failures
+ *   (default: all but business rejections, which are valid answers of a healthy handler)
+ * @property {(message: IMessage, error: CircuitOpenError) => any} [fallback] - Result returned instead of rejecting
+ * @property {(change: CircuitStateChange) => void} [onStateChange] - Called on every state change
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  cooldown?: number;
+  halfOpenMaxCalls?: number;
+  callTimeout?: number;
+  key?: (message: IMessage) => string;
+  isFailure?: (error: unknown) => boolean;
+  fallback?: (message: IMessage, error: CircuitOpenError) => any;
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * Error thrown for calls rejected by an open circuit.
+ */
+export class CircuitOpenError extends TypeBusError {
+  /**
+   * @param {string} key - The circuit key.
+   * @param {Date} retryAt - When the circuit allows the next trial call.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(public readonly key: string, public readonly retryAt: Date, options: TypeBusErrorOptions = {}) {
+    super(ErrorCode.CIRCUIT_OPEN, `Circuit '${key}' is open until ${retryAt.toISOString()}`, options);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Bookkeeping of a single circuit.
+ */
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  trialCalls: number;
+}
+
+/**
+ * Middleware that stops calling failing handlers for a cool-down period.
+ * A circuit opens after `failureThreshold` consecutive failures; while open, calls fail fast
+ * (or return the fallback). After `cooldown` one trial call is let through: success closes
+ * the circuit, failure opens it again.
+ * @implements {IMiddleware}
+ */
+export class CircuitBreakerMiddleware implements IMiddleware {
+  private options: Required<Omit<CircuitBreakerOptions, 'callTimeout' | 'fallback' | 'onStateChange'>> &
+    Pick<CircuitBreakerOptions, 'callTimeout' | 'fallback' | 'onStateChange'>;
+  private circuits = new Map<string, Circuit>();
+
+  /**
+   * Creates a new CircuitBreakerMiddleware instance.
+   * @param {CircuitBreakerOptions} [options]
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: 5,
+      cooldown: 30000,
+      halfOpenMaxCalls: 1,
+      key: message => message.type,
+      isFailure: error => !(error instanceof RejectedError),
+      ...options
+    };
+  }
+
+  /**
+   * Executes the message unless its circuit is open.
+   * @template T, R
+   * @param {T} message - The message to process.
+   * @param {(message: T) => Promise<R>} next - The next middleware or handler.
+   * @returns {Promise<R>}
+   */
+  async execute<T extends IMessage, R>(message: T, next: (message: T) => Promise<R>): Promise<R> {
+    const key = this.options.key(message);
+    const circuit = this.getCircuit(key);
+
+    if (circuit.state === 'open' && Date.now() - circuit.openedAt >= this.options.cooldown) {
+      this.transition(key, circuit, 'half-open');
+    }
+    if (
+      circuit.state === 'open' ||
+      (circuit.state === 'half-open' && circuit.trialCalls >= this.options.halfOpenMaxCalls)
+    ) {
+      const error = new CircuitOpenError(key, new Date(circuit.openedAt + this.options.cooldown), {
+        messageType: message.type,
+        messageId: message.id
+      });
+      if (this.options.fallback) {
+        return await this.options.fallback(message, error);
+      }
+      throw error;
+    }
+
+    const isTrial = circuit.state === 'half-open';
+    if (isTrial) circuit.trialCalls++;
+    try {
+      const result = await this.withCallTimeout(next(message), message);
+      this.recordSuccess(key, circuit);
+      return result;
+    } catch (error) {
+      this.recordFailure(key, circuit, error);
+      throw error;
+    } finally {
+      if (isTrial) circuit.trialCalls--;
+    }
+  }
+
+  /**
+   * Gets the state of a circuit.
+   * @param {string} key
+   * @returns {CircuitState}
+   */
+  getState(key: string): CircuitState {
+    return this.circuits.get(key)?.state ?? 'closed';
+  }
+
+  /**
+   * Gets the state of every known circuit.
+   * @returns {Record<string, CircuitState>}
+   */
+  getStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    this.circuits.forEach((circuit, key) => {
+      states[key] = circuit.state;
+    });
+    return states;
+  }
+
+  /**
+   * Closes a circuit manually.
+   * @param {string} key
+   */
+  reset(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit) {
+      circuit.failures = 0;
+      this.transition(key, circuit, 'closed');
+    }
+  }
+
+  /**
+   * Gets or creates the circuit for a key.
+   * @param {string} key
+   * @returns {Circuit}
+   */
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, openedAt: 0, trialCalls: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Records a successful call.
+   * @param {string} key
+   * @param {Circuit} circuit
+   */
+  private recordSuccess(key: string, circuit: Circuit): void {
+    circuit.failures = 0;
+    if (circuit.state !== 'closed') {
+      this.transition(key, circuit, 'closed');
+    }
+  }
+
+  /**
+   * Records a failed call and opens the circuit when needed.
+   * @param {string} key
+   * @param {Circuit} circuit
+   * @param {unknown} error
+   */
+  private recordFailure(key: string, circuit: Circuit, error: unknown): void {
+    if (!this.options.isFailure(error)) return;
+    circuit.failures++;
+    if (circuit.state === 'half-open' || circuit.failures >= this.options.failureThreshold) {
+      circuit.openedAt = Date.now();
+      if (circuit.state !== 'open') {
+        this.transition(key, circuit, 'open');
+      }
+    }
+  }
+
+  /**
+   * Changes the state of a circuit and notifies the listener.
+   * @param {string} key
+   * @param {Circuit} circuit
+   * @param {CircuitState} to
+   */
+  private transition(key: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    if (from === to) return;
+    circuit.state = to;
+    this.options.onStateChange?.({ key, from, to, failures: circuit.failures, timestamp: new Date() });
+  }
+
+  /**
+   * Rejects a call that outlives the call timeout or the dispatch deadline, so that hanging
+   * handlers count as failures.
+   * @template R
+   * @param {Promise<R>} promise
+   * @param {IMessage} message
+   * @returns {Promise<R>}
+   */
+  private async withCallTimeout<R>(promise: Promise<R>, message: IMessage): Promise<R> {
+    const deadline = this.options.callTimeout !== undefined
+      ? Date.now() + this.options.callTimeout
+      : getDispatchContext()?.deadline;
+    if (deadline === undefined) return promise;
+
+    const ms = Math.max(deadline - Date.now(), 0);
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new MessageTimeoutError(message.type, ms, { messageId: message.id })), ms);
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
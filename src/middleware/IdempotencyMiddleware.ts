@@ -0,0 +1,147 @@
+// middleware/IdempotencyMiddleware.ts - Защита от повторного выполнения одних и тех же команд
+import { IMiddleware, IMessage } from '../types';
+import { getDispatchContext } from '../core/DispatchContext';
+import { IIdempotencyStore } from '../idempotency/IdempotencyStore';
+import { InMemoryIdempotencyStore } from '../idempotency/InMemoryIdempotencyStore';
+
+/**
+ * Options for configuring the IdempotencyMiddleware.
+ * @typedef {Object} IdempotencyOptions
+ * @property {(message: IMessage) => string | undefined} [key] - Derives the key (default: `metadata.idempotencyKey`)
+ * @property {IIdempotencyStore} [store] - Where results are kept (default: in memory)
+ * @property {number} [ttl] - Milliseconds a stored result deduplicates retries (default: 24 hours)
+ * @property {number} [lease] - Milliseconds a reservation holds the key before a duplicate may run
+ *   again, e.g. after the process running it crashed (default: 30 seconds)
+ * @property {number} [pollInterval] - Milliseconds between checks of a key reserved elsewhere (default: 50)
+ */
+export interface IdempotencyOptions {
+  key?: (message: IMessage) => string | undefined;
+  store?: IIdempotencyStore;
+  ttl?: number;
+  lease?: number;
+  pollInterval?: number;
+}
+
+/**
+ * Middleware that runs a handler at most once per idempotency key.
+ * The first execution reserves the key in the store and completes it with its result, which
+ * is returned to duplicates. Duplicates arriving while the first execution is in flight wait
+ * for its outcome: those of the same process share it, others poll the store until the key is
+ * completed. Failed executions release the key, so a retry with the same key runs again.
+ * Messages without a key pass through unchanged.
+ * @implements {IMiddleware}
+ */
+export class IdempotencyMiddleware implements IMiddleware {
+  private options: Required<IdempotencyOptions>;
+  private inFlight = new Map<string, Promise<any>>();
+
+  /**
+   * Creates a new IdempotencyMiddleware instance.
+   * @param {IdempotencyOptions} [options]
+   */
+  constructor(options: IdempotencyOptions = {}) {
+    this.options = {
+      key: message => message.metadata?.idempotencyKey,
+      store: new InMemoryIdempotencyStore(),
+      ttl: 24 * 60 * 60 * 1000,
+      lease: 30 * 1000,
+      pollInterval: 50,
+      ...options
+    };
+  }
+
+  /**
+   * Executes the message unless its key has already been processed.
+   * @template T, R
+   * @param {T} message - The message to process.
+   * @param {(message: T) => Promise<R>} next - The next middleware or handler.
+   * @returns {Promise<R>}
+   */
+  async execute<T extends IMessage, R>(message: T, next: (message: T) => Promise<R>): Promise<R> {
+    const idempotencyKey = this.options.key(message);
+    if (idempotencyKey === undefined) {
+      return next(message);
+    }
+
+    const key = `${message.type}:${idempotencyKey}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const execution = this.executeOnce(key, message, next);
+    this.inFlight.set(key, execution);
+    try {
+      return await execution;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Returns the stored result, or reserves the key, runs the handler and stores its result.
+   * Waits while another process holds the key.
+   * @template T, R
+   * @param {string} key
+   * @param {T} message
+   * @param {(message: T) => Promise<R>} next
+   * @returns {Promise<R>}
+   */
+  private async executeOnce<T extends IMessage, R>(
+    key: string,
+    message: T,
+    next: (message: T) => Promise<R>
+  ): Promise<R> {
+    const { store, lease, pollInterval } = this.options;
+    const signal = getDispatchContext()?.signal;
+    for (;;) {
+      const reservation = await store.reserve(key, new Date(Date.now() + lease));
+      if (reservation.status === 'completed') {
+        return reservation.record.result;
+      }
+      if (reservation.status === 'reserved') {
+        break;
+      }
+      await this.sleep(pollInterval, signal);
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+    }
+
+    let result: R;
+    try {
+      result = await next(message);
+    } catch (error) {
+      // A key that cannot be released is freed once its lease lapses
+      await store.delete(key).catch(() => undefined);
+      throw error;
+    }
+    const now = Date.now();
+    await store.complete({
+      key,
+      messageType: message.type,
+      result,
+      createdAt: new Date(now),
+      expiresAt: new Date(now + this.options.ttl)
+    });
+    return result;
+  }
+
+  /**
+   * Waits for the given time or until the signal aborts.
+   * @param {number} ms
+   * @param {AbortSignal} [signal]
+   * @returns {Promise<void>}
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+}
@@ -2,6 +2,8 @@
 //|_|_|_|_|
 // o     o
 import { IMiddleware, IMessage } from '../types';
+import { getDispatchContext } from '../core/DispatchContext';
+import { isCommand, isQuery, isEvent } from '../core/MessageFactory';
 
 /**
  * Options for configuring the LoggingMiddleware.
@@ -22,6 +24,7 @@ export interface LoggingOptions {
 
 /**
  * Middleware for logging message execution in TypeBus-CQRS.
+ * The `logLevel` of the bus policy for a message type overrides the configured level.
  * @implements {IMiddleware}
  */
 export class LoggingMiddleware implements IMiddleware {
@@ -50,9 +53,13 @@ export class LoggingMiddleware implements IMiddleware {
    * @returns {Promise<R>}
    */
   async execute<T extends IMessage, R>(message: T, next: (message: T) => Promise<R>): Promise<R> {
+    const logLevel = getDispatchContext()?.policy.logLevel ?? this.options.logLevel;
+    if (logLevel === 'silent') {
+      return next(message);
+    }
     const startTime = process.hrtime.bigint();
-    const icon = this.getMessageIcon(message.type);
-    if (this.shouldLogStart()) {
+    const icon = this.getMessageIcon(message);
+    if (this.shouldLogStart(logLevel)) {
       console.log(this.colorize(`${icon} START: ${message.type}`, 'blue'), {
         id: message.id,
         timestamp: message.timestamp.toISOString(),
@@ -66,7 +73,7 @@ export class LoggingMiddleware implements IMiddleware {
       console.log(this.colorize(`${icon} SUCCESS: ${message.type}`, color), {
         id: message.id,
         duration: `${duration.toFixed(2)}ms`,
-        ...this.getResultLogData(result)
+        ...this.getResultLogData(result, logLevel)
       });
       return result;
     } catch (error) {
@@ -75,7 +82,7 @@ export class LoggingMiddleware implements IMiddleware {
         id: message.id,
         duration: `${duration.toFixed(2)}ms`,
         error: error instanceof Error ? error.message : String(error),
-        ...this.getStackTrace(error)
+        ...this.getStackTrace(error, logLevel)
       });
       throw error;
     }
@@ -83,10 +90,11 @@ export class LoggingMiddleware implements IMiddleware {
 
   /**
    * Determines if the start of message processing should be logged.
+   * @param {string} logLevel
    * @returns {boolean}
    */
-  private shouldLogStart(): boolean {
-    return this.options.logLevel === 'verbose' || this.options.logLevel === 'debug';
+  private shouldLogStart(logLevel: string): boolean {
+    return logLevel === 'verbose' || logLevel === 'debug';
   }
 
   /**
@@ -111,10 +119,11 @@ export class LoggingMiddleware implements IMiddleware {
   /**
    * Extracts result log data if logLevel is 'debug'.
    * @param {any} result
+   * @param {string} logLevel
    * @returns {object}
    */
-  private getResultLogData(result: any): object {
-    if (this.options.logLevel !== 'debug') return {};
+  private getResultLogData(result: any, logLevel: string): object {
+    if (logLevel !== 'debug') return {};
     return {
       result: this.sanitizeResult(result)
     };
@@ -123,10 +132,11 @@ export class LoggingMiddleware implements IMiddleware {
   /**
    * Extracts stack trace from error if logLevel is 'debug'.
    * @param {any} error
+   * @param {string} logLevel
    * @returns {object}
    */
-  private getStackTrace(error: any): object {
-    if (this.options.logLevel !== 'debug') return {};
+  private getStackTrace(error: any, logLevel: string): object {
+    if (logLevel !== 'debug') return {};
     return {
       stack: error instanceof Error ? error.stack : undefined
     };
@@ -143,60 +153,17 @@ export class LoggingMiddleware implements IMiddleware {
   }
 
   /**
-   * Returns an icon based on the message type.
-   * @param {string} type
+   * Returns an icon based on the message kind.
+   * @param {IMessage} message
    * @returns {string}
    */
-  private getMessageIcon(type: string): string {
-    if (this.isCommand(type)) return '📤';
-    if (this.isQuery(type)) return '📥';
-    if (this.isEvent(type)) return '📢';
+  private getMessageIcon(message: IMessage): string {
+    if (isCommand(message)) return '📤';
+    if (isQuery(message)) return '📥';
+    if (isEvent(message)) return '📢';
     return '💬';
   }
 
-  /**
-   * Determines if the message type is a command.
-   * @param {string} type
-   * @returns {boolean}
-   */
-  private isCommand(type: string): boolean {
-    return (
-      type.includes('Command') ||
-      type.includes('.Create') ||
-      type.includes('.Update') ||
-      type.includes('.Delete') ||
-      type.includes('.Change')
-    );
-  }
-
-  /**
-   * Determines if the message type is a query.
-   * @param {string} type
-   * @returns {boolean}
-   */
-  private isQuery(type: string): boolean {
-    return (
-      type.includes('Query') ||
-      type.includes('.Get') ||
-      type.includes('.Search') ||
-      type.includes('.Find')
-    );
-  }
-
-  /**
-   * Determines if the message type is an event.
-   * @param {string} type
-   * @returns {boolean}
-   */
-  private isEvent(type: string): boolean {
-    return (
-      type.includes('Event') ||
-      type.includes('.Created') ||
-      type.includes('.Updated') ||
-      type.includes('.Changed')
-    );
-  }
-
   /**
    * Adds color to the log output if enabled.
    * @param {string} text
@@ -0,0 +1,137 @@
+// middleware/RetryMiddleware.ts - Повтор обработки при временных ошибках
+import { IMiddleware, IMessage } from '../types';
+import { getDispatchContext } from '../core/DispatchContext';
+import { RetryPolicy } from '../core/PolicyRegistry';
+import { MessageTimeoutError, RejectedError } from '../errors/BusErrors';
+import { LockTimeoutError } from '../locking/LockProvider';
+
+/**
+ * Options for configuring the RetryMiddleware.
+ * @typedef {Object} RetryOptions
+ * @property {Record<string, RetryPolicy>} [overrides] - Policies per message type, merged over the defaults
+ */
+export interface RetryOptions extends RetryPolicy {
+  overrides?: Record<string, RetryPolicy>;
+}
+
+/**
+ * Default retry classifier: timeouts of nested dispatches and of aggregate locks, and errors
+ * marked with `retryable: true`. Other errors (validation, concurrency conflicts, missing
+ * handlers, ...) fail the same way on every attempt.
+ * @param {unknown} error
+ * @returns {boolean}
+ */
+export function isTransientError(error: unknown): boolean {
+  return (
+    error instanceof MessageTimeoutError ||
+    error instanceof LockTimeoutError ||
+    (typeof error === 'object' && error !== null && (error as { retryable?: unknown }).retryable === true)
+  );
+}
+
+/**
+ * Middleware that retries failed handlers with exponential backoff and jitter.
+ * Each attempt receives the message with `metadata.attempt` set (1-based). Retrying stops
+ * once the next delay would run past the dispatch deadline derived from the bus timeouts,
+ * and a pending delay ends early when the dispatch is aborted. Retry settings of the bus
+ * policy for the message type apply over the defaults; `overrides` apply over both.
+ * Only transient errors are retried unless `isRetryable` says otherwise (see isTransientError);
+ * business rejections (RejectedError) are final and never retried.
+ * @implements {IMiddleware}
+ */
+export class RetryMiddleware implements IMiddleware {
+  private defaults: Required<RetryPolicy>;
+  private overrides: Record<string, RetryPolicy>;
+
+  /**
+   * Creates a new RetryMiddleware instance.
+   * @param {RetryOptions} [options]
+   */
+  constructor(options: RetryOptions = {}) {
+    const { overrides = {}, ...policy } = options;
+    this.defaults = {
+      maxAttempts: 3,
+      initialDelay: 100,
+      maxDelay: 5000,
+      factor: 2,
+      jitter: 0.5,
+      isRetryable: isTransientError,
+      ...policy
+    };
+    this.overrides = overrides;
+  }
+
+  /**
+   * Executes the message, retrying retryable failures.
+   * @template T, R
+   * @param {T} message - The message to process.
+   * @param {(message: T) => Promise<R>} next - The next middleware or handler.
+   * @returns {Promise<R>}
+   */
+  async execute<T extends IMessage, R>(message: T, next: (message: T) => Promise<R>): Promise<R> {
+    const context = getDispatchContext();
+    const policy = this.getPolicy(message.type, context?.policy.retry);
+    const deadline = context?.deadline ?? Infinity;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next({ ...message, metadata: { ...message.metadata, attempt } });
+      } catch (error) {
+        if (
+          error instanceof RejectedError ||
+          attempt >= policy.maxAttempts ||
+          !policy.isRetryable(error, attempt, message)
+        ) {
+          throw error;
+        }
+        const delay = this.getDelay(policy, attempt);
+        if (Date.now() + delay >= deadline || context?.signal.aborted) {
+          throw error;
+        }
+        await this.sleep(delay, context?.signal);
+        if (context?.signal.aborted) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Gets the effective policy for a message type.
+   * @param {string} type
+   * @param {RetryPolicy} [busPolicy] - Retry settings from the bus policy registry
+   * @returns {Required<RetryPolicy>}
+   */
+  getPolicy(type: string, busPolicy?: RetryPolicy): Required<RetryPolicy> {
+    return { ...this.defaults, ...busPolicy, ...this.overrides[type] };
+  }
+
+  /**
+   * Waits for the given time or until the signal aborts.
+   * @param {number} ms
+   * @param {AbortSignal} [signal]
+   * @returns {Promise<void>}
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  /**
+   * Calculates the delay before the retry that follows the given attempt.
+   * @param {Required<RetryPolicy>} policy
+   * @param {number} attempt
+   * @returns {number}
+   */
+  private getDelay(policy: Required<RetryPolicy>, attempt: number): number {
+    const base = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.factor, attempt - 1));
+    return Math.round(base * (1 - policy.jitter * Math.random()));
+  }
+}
@@ -0,0 +1,63 @@
+// middleware/ValidationMiddleware.ts - Проверка данных сообщений по схемам
+import { IMiddleware, IMessage } from '../types';
+import { isCommand, isEvent, isQuery } from '../core/MessageFactory';
+import { IValidator, ValidationIssue } from '../validation/Schema';
+import { MessageSchemas } from '../validation/MessageSchemas';
+import { ValidationError } from '../validation/ValidationError';
+
+/**
+ * Middleware that rejects messages whose payload does not match their schema.
+ * Command and event data and query params are validated; messages without a schema pass
+ * through unchanged. Invalid messages fail with a ValidationError listing every issue.
+ * @implements {IMiddleware}
+ */
+export class ValidationMiddleware implements IMiddleware {
+  /**
+   * Creates a new ValidationMiddleware instance.
+   * @param {MessageSchemas<any, any, any>} schemas
+   */
+  constructor(private readonly schemas: MessageSchemas<any, any, any>) {}
+
+  /**
+   * Validates the message before passing it on.
+   * @template T, R
+   * @param {T} message - The message to process.
+   * @param {(message: T) => Promise<R>} next - The next middleware or handler.
+   * @returns {Promise<R>}
+   */
+  async execute<T extends IMessage, R>(message: T, next: (message: T) => Promise<R>): Promise<R> {
+    const issues = this.validate(message);
+    if (issues.length > 0) {
+      throw new ValidationError(message.type, issues, { messageId: message.id });
+    }
+    return next(message);
+  }
+
+  /**
+   * Validates the payload of a message.
+   * @param {IMessage} message
+   * @returns {ValidationIssue[]} Empty when the message is valid or has no schema.
+   */
+  validate(message: IMessage): ValidationIssue[] {
+    const [validator, payload] = this.resolve(message);
+    return validator ? validator.validate(payload) : [];
+  }
+
+  /**
+   * Finds the schema and the payload of a message based on its kind.
+   * @param {IMessage} message
+   * @returns {[IValidator | undefined, unknown]}
+   */
+  private resolve(message: IMessage): [IValidator | undefined, unknown] {
+    if (isQuery(message)) {
+      return [this.schemas.queries?.[message.type], message.params];
+    }
+    if (isEvent(message)) {
+      return [this.schemas.events?.[message.type], message.data];
+    }
+    if (isCommand(message)) {
+      return [this.schemas.commands?.[message.type], message.data];
+    }
+    return [undefined, undefined];
+  }
+}
@@ -1,7 +1,16 @@
 // middleware/index.ts - Экспорт всех middleware
 import { LoggingMiddleware } from './LoggingMiddleware';
+import { RetryMiddleware, RetryOptions } from './RetryMiddleware';
+import { CircuitBreakerMiddleware, CircuitBreakerOptions } from './CircuitBreakerMiddleware';
+import { ValidationMiddleware } from './ValidationMiddleware';
+import { IdempotencyMiddleware, IdempotencyOptions } from './IdempotencyMiddleware';
+import { MessageSchemas } from '../validation/MessageSchemas';
 
 export * from './LoggingMiddleware';
+export * from './RetryMiddleware';
+export * from './CircuitBreakerMiddleware';
+export * from './ValidationMiddleware';
+export * from './IdempotencyMiddleware';
 
 /**
  * Helper function to quickly set up logging middleware.
@@ -21,3 +30,39 @@ export function withLogging(options?: {
     colorOutput: true
   });
 }
+
+/**
+ * Helper function to quickly set up retry middleware.
+ * @param {RetryOptions} [options]
+ * @returns {RetryMiddleware}
+ */
+export function withRetry(options?: RetryOptions) {
+  return new RetryMiddleware(options);
+}
+
+/**
+ * Helper function to quickly set up circuit breaker middleware.
+ * @param {CircuitBreakerOptions} [options]
+ * @returns {CircuitBreakerMiddleware}
+ */
+export function withCircuitBreaker(options?: CircuitBreakerOptions) {
+  return new CircuitBreakerMiddleware(options);
+}
+
+/**
+ * Helper function to quickly set up validation middleware.
+ * @param {MessageSchemas<any, any, any>} schemas
+ * @returns {ValidationMiddleware}
+ */
+export function withValidation(schemas: MessageSchemas<any, any, any>) {
+  return new ValidationMiddleware(schemas);
+}
+
+/**
+ * Helper function to quickly set up idempotency middleware.
+ * @param {IdempotencyOptions} [options]
+ * @returns {IdempotencyMiddleware}
+ */
+export function withIdempotency(options?: IdempotencyOptions) {
+  return new IdempotencyMiddleware(options);
+}
@@ -0,0 +1,212 @@
+// outbox/FileOutbox.ts - Исходящий ящик в файле формата JSON Lines
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IEvent } from '../types';
+import { readJsonLines } from '../eventstore/JsonLines';
+import { IOutbox, OutboxEntry, createOutboxEntry } from './Outbox';
+
+/**
+ * Operation recorded in the outbox file.
+ */
+type OutboxRecord =
+  | { op: 'add'; entry: OutboxEntry }
+  | { op: 'dispatched'; id: string }
+  | { op: 'failed'; id: string; error: string }
+  | { op: 'discarded'; id: string };
+
+/**
+ * Options for configuring a FileOutbox.
+ * @typedef {Object} FileOutboxOptions
+ * @property {number} [compactAfter] - Records of settled entries after which the file is
+ *   rewritten with the undispatched entries only (default: 1000)
+ */
+export interface FileOutboxOptions {
+  compactAfter?: number;
+}
+
+/**
+ * Outbox that persists its operations to a JSON-lines file, so undispatched events survive
+ * a crash and can be relayed after a restart. The file is replayed into memory on first access
+ * and compacted once it holds enough records of dispatched or discarded entries.
+ * @implements {IOutbox}
+ */
+export class FileOutbox implements IOutbox {
+  private entries = new Map<string, OutboxEntry>();
+  private records = 0;
+  private loading?: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private options: Required<FileOutboxOptions>;
+
+  /**
+   * Creates a new FileOutbox instance.
+   * @param {string} filePath - Path of the JSON-lines file. Created on first write.
+   * @param {FileOutboxOptions} [options]
+   */
+  constructor(private readonly filePath: string, options: FileOutboxOptions = {}) {
+    this.options = { compactAfter: 1000, ...options };
+  }
+
+  /**
+   * Records events as pending.
+   * @param {IEvent[]} events
+   * @returns {Promise<OutboxEntry[]>}
+   */
+  async add(events: IEvent[]): Promise<OutboxEntry[]> {
+    const entries = events.map(event => createOutboxEntry(event));
+    await this.write(entries.map(entry => ({ op: 'add', entry })));
+    return entries.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Returns pending and failed entries, oldest first.
+   * @param {number} [limit]
+   * @param {number} [maxAttempts] - Leaves out entries with this many failed attempts or more
+   * @returns {Promise<OutboxEntry[]>}
+   */
+  async getUndispatched(limit?: number, maxAttempts = Infinity): Promise<OutboxEntry[]> {
+    await this.load();
+    return Array.from(this.entries.values())
+      .filter(entry => entry.status !== 'dispatched' && entry.attempts < maxAttempts)
+      .slice(0, limit)
+      .map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Marks an entry as dispatched.
+   * @param {string} id
+   * @returns {Promise<void>}
+   */
+  async markDispatched(id: string): Promise<void> {
+    await this.write([{ op: 'dispatched', id }]);
+  }
+
+  /**
+   * Records a failed dispatch attempt.
+   * @param {string} id
+   * @param {string} error
+   * @returns {Promise<void>}
+   */
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.write([{ op: 'failed', id, error }]);
+  }
+
+  /**
+   * Removes an entry whose event was never committed.
+   * @param {string} id
+   * @returns {Promise<void>}
+   */
+  async discard(id: string): Promise<void> {
+    await this.write([{ op: 'discarded', id }]);
+  }
+
+  /**
+   * Appends records to the file and applies them to the in-memory entries.
+   * @param {OutboxRecord[]} records
+   * @returns {Promise<void>}
+   */
+  private write(records: OutboxRecord[]): Promise<void> {
+    return this.enqueue(async () => {
+      await this.load();
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${records.map(r => JSON.stringify(r)).join('\n')}\n`, 'utf8');
+      records.forEach(record => this.apply(record));
+      this.records += records.length;
+      if (this.records - this.entries.size >= this.options.compactAfter) {
+        await this.compact();
+      }
+    });
+  }
+
+  /**
+   * Rewrites the file with one record per undispatched entry. The new file replaces the old
+   * one by a rename, so a crash leaves either of them intact.
+   * @returns {Promise<void>}
+   */
+  private async compact(): Promise<void> {
+    const entries = Array.from(this.entries.values());
+    const content = entries.map(entry => `${JSON.stringify({ op: 'add', entry })}\n`).join('');
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+    this.records = entries.length;
+  }
+
+  /**
+   * Applies a record to the in-memory entries.
+   * @param {OutboxRecord} record
+   */
+  private apply(record: OutboxRecord): void {
+    switch (record.op) {
+      case 'add':
+        this.entries.set(record.entry.id, record.entry);
+        break;
+      case 'dispatched':
+      case 'discarded':
+        this.entries.delete(record.id);
+        break;
+      case 'failed': {
+        const entry = this.entries.get(record.id);
+        if (entry) {
+          this.entries.set(record.id, {
+            ...entry,
+            status: 'failed',
+            attempts: entry.attempts + 1,
+            lastError: record.error
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Loads the file into memory once. A failed load is retried on the next access.
+   * @returns {Promise<void>}
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch(error => {
+        this.entries = new Map();
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Replays every record stored in the file, then compacts it.
+   * @returns {Promise<void>}
+   */
+  private async readFile(): Promise<void> {
+    const lines = await readJsonLines(this.filePath);
+    if (!lines) return;
+
+    for (const line of lines) {
+      const record = JSON.parse(line) as OutboxRecord;
+      if (record.op === 'add') {
+        const { entry } = record;
+        entry.createdAt = new Date(entry.createdAt);
+        entry.event = { ...entry.event, kind: 'event', timestamp: new Date(entry.event.timestamp) };
+      }
+      this.apply(record);
+    }
+    this.records = lines.length;
+    if (this.records > this.entries.size) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Runs an operation after all previously queued operations have settled.
+   * @template T
+   * @param {() => Promise<T>} operation
+   * @returns {Promise<T>}
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,66 @@
+// outbox/InMemoryOutbox.ts - Исходящий ящик в памяти
+import { IEvent } from '../types';
+import { IOutbox, OutboxEntry, createOutboxEntry } from './Outbox';
+
+/**
+ * Outbox that keeps entries in memory. Does not survive a restart.
+ * @implements {IOutbox}
+ */
+export class InMemoryOutbox implements IOutbox {
+  private entries = new Map<string, OutboxEntry>();
+
+  /**
+   * Records events as pending.
+   * @param {IEvent[]} events
+   * @returns {Promise<OutboxEntry[]>}
+   */
+  async add(events: IEvent[]): Promise<OutboxEntry[]> {
+    const added = events.map(event => createOutboxEntry(event));
+    added.forEach(entry => this.entries.set(entry.id, entry));
+    return added.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Returns pending and failed entries, oldest first.
+   * @param {number} [limit]
+   * @param {number} [maxAttempts] - Leaves out entries with this many failed attempts or more
+   * @returns {Promise<OutboxEntry[]>}
+   */
+  async getUndispatched(limit?: number, maxAttempts = Infinity): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.status !== 'dispatched' && entry.attempts < maxAttempts)
+      .slice(0, limit)
+      .map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Marks an entry as dispatched and forgets it.
+   * @param {string} id
+   * @returns {Promise<void>}
+   */
+  async markDispatched(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  /**
+   * Records a failed dispatch attempt.
+   * @param {string} id
+   * @param {string} error
+   * @returns {Promise<void>}
+   */
+  async markFailed(id: string, error: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.entries.set(id, { ...entry, status: 'failed', attempts: entry.attempts + 1, lastError: error });
+    }
+  }
+
+  /**
+   * Removes an entry whose event was never committed.
+   * @param {string} id
+   * @returns {Promise<void>}
+   */
+  async discard(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
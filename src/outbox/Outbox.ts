@@ -0,0 +1,75 @@
+// outbox/Outbox.ts - Контракт исходящего ящика событий (transactional outbox)
+import { IEvent } from '../types';
+
+/**
+ * Event recorded in the outbox until it has been dispatched to handlers.
+ * @typedef {Object} OutboxEntry
+ * @property {string} id
+ * @property {IEvent} event
+ * @property {'pending'|'dispatched'|'failed'} status
+ * @property {number} attempts - Failed dispatch attempts
+ * @property {string} [lastError]
+ * @property {Date} createdAt
+ */
+export interface OutboxEntry {
+  id: string;
+  event: IEvent;
+  status: 'pending' | 'dispatched' | 'failed';
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+}
+
+/**
+ * Interface for outboxes.
+ * @typedef {Object} IOutbox
+ */
+export interface IOutbox {
+  /**
+   * Records events as pending.
+   * @param {IEvent[]} events
+   * @returns {Promise<OutboxEntry[]>}
+   */
+  add(events: IEvent[]): Promise<OutboxEntry[]>;
+
+  /**
+   * Returns entries that still have to be dispatched (pending or failed), oldest first.
+   * Entries with `maxAttempts` or more failed attempts are left out before the limit applies,
+   * so exhausted entries do not take up the batch.
+   * @param {number} [limit]
+   * @param {number} [maxAttempts]
+   * @returns {Promise<OutboxEntry[]>}
+   */
+  getUndispatched(limit?: number, maxAttempts?: number): Promise<OutboxEntry[]>;
+
+  /**
+   * Marks an entry as dispatched.
+   * @param {string} id
+   * @returns {Promise<void>}
+   */
+  markDispatched(id: string): Promise<void>;
+
+  /**
+   * Records a failed dispatch attempt.
+   * @param {string} id
+   * @param {string} error
+   * @returns {Promise<void>}
+   */
+  markFailed(id: string, error: string): Promise<void>;
+
+  /**
+   * Removes an entry whose event was never committed, so it is not dispatched.
+   * @param {string} id
+   * @returns {Promise<void>}
+   */
+  discard(id: string): Promise<void>;
+}
+
+/**
+ * Creates a pending outbox entry for an event. The entry ID is the event ID.
+ * @param {IEvent} event
+ * @returns {OutboxEntry}
+ */
+export function createOutboxEntry(event: IEvent): OutboxEntry {
+  return { id: event.id, event, status: 'pending', attempts: 0, createdAt: new Date() };
+}
@@ -0,0 +1,141 @@
+// outbox/OutboxRelay.ts - Фоновая доставка событий из исходящего ящика
+import { TypeBus } from '../core/TypeBus';
+import { IOutbox, OutboxEntry } from './Outbox';
+
+/**
+ * Options for configuring an OutboxRelay.
+ * @typedef {Object} OutboxRelayOptions
+ * @property {number} [interval] - Polling interval in milliseconds (default: 1000)
+ * @property {number} [batchSize] - Entries relayed per poll (default: 100)
+ * @property {number} [maxAttempts] - Failed attempts after which an entry is skipped (default: 10)
+ * @property {number} [staleAfter] - Age in milliseconds after which a pending entry is considered
+ *   abandoned by the dispatch that created it (default: the timeout of the event type, at least 5000)
+ */
+export interface OutboxRelayOptions {
+  interval?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  staleAfter?: number;
+}
+
+/**
+ * Relays undispatched outbox entries to the bus' event handlers.
+ * Picks up entries whose dispatch failed, and pending entries left behind by a crash between
+ * commit and dispatch. Stale pending entries whose event is missing from the bus' event store
+ * were never committed and are discarded. Delivery is at-least-once: handlers should be idempotent.
+ */
+export class OutboxRelay<TEventMap extends Record<string, any> = any> {
+  private options: Required<Omit<OutboxRelayOptions, 'staleAfter'>> & Pick<OutboxRelayOptions, 'staleAfter'>;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<number>;
+
+  /**
+   * Creates a new OutboxRelay instance.
+   * @param {TypeBus<any, any, TEventMap>} bus - Bus whose event handlers receive the events.
+   * @param {IOutbox} outbox - Outbox to relay from.
+   * @param {OutboxRelayOptions} [options]
+   */
+  constructor(
+    private readonly bus: TypeBus<any, any, TEventMap>,
+    private readonly outbox: IOutbox,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.options = {
+      interval: 1000,
+      batchSize: 100,
+      maxAttempts: 10,
+      ...options
+    };
+  }
+
+  /**
+   * Starts polling the outbox. The timer does not keep the process alive; failed runs are
+   * logged according to the logging settings of the bus.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.relayPending().catch(error => this.bus.getLogger('outbox-relay').error('Relay failed:', error));
+    }, this.options.interval);
+    this.timer.unref();
+  }
+
+  /**
+   * Stops polling and waits for the current relay run to finish.
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running;
+  }
+
+  /**
+   * Dispatches one batch of undispatched entries. Overlapping calls share the same run.
+   * @param {number} [now] - Epoch milliseconds (default: Date.now()).
+   * @returns {Promise<number>} Number of entries dispatched successfully.
+   */
+  relayPending(now = Date.now()): Promise<number> {
+    if (!this.running) {
+      this.running = this.relayBatch(now).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Dispatches one batch of eligible entries.
+   * @param {number} now
+   * @returns {Promise<number>}
+   */
+  private async relayBatch(now: number): Promise<number> {
+    const { batchSize, maxAttempts } = this.options;
+    const entries = (await this.outbox.getUndispatched(batchSize, maxAttempts)).filter(
+      entry => entry.status === 'failed' || now - entry.createdAt.getTime() >= this.getStaleAfter(entry)
+    );
+
+    let dispatched = 0;
+    for (const entry of entries) {
+      if (entry.status === 'pending' && !(await this.isCommitted(entry))) {
+        await this.outbox.discard(entry.id);
+        continue;
+      }
+      try {
+        await this.bus.dispatchEvent(entry.event);
+      } catch (error) {
+        await this.outbox.markFailed(entry.id, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+      await this.outbox.markDispatched(entry.id);
+      dispatched++;
+    }
+    return dispatched;
+  }
+
+  /**
+   * Gets the age after which a pending entry is stale. By default it is at least the timeout of
+   * the event type, so entries whose handlers are still running are not relayed a second time.
+   * @param {OutboxEntry} entry
+   * @returns {number}
+   */
+  private getStaleAfter(entry: OutboxEntry): number {
+    return this.options.staleAfter ?? Math.max(5000, this.bus.getEffectivePolicy(entry.event.type).timeout ?? 0);
+  }
+
+  /**
+   * Checks whether the event of an entry was stored. Entries are recorded before their events
+   * are appended, so a crash in between leaves entries of events that were never committed.
+   * @param {OutboxEntry} entry
+   * @returns {Promise<boolean>} Always true when the bus has no event store.
+   */
+  private async isCommitted(entry: OutboxEntry): Promise<boolean> {
+    const eventStore = this.bus.getEventStore();
+    if (!eventStore) return true;
+    const { aggregateId, version, id } = entry.event;
+    const [stored] = await eventStore.readStream(aggregateId, version);
+    return stored?.version === version && stored.id === id;
+  }
+}
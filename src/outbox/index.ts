@@ -0,0 +1,7 @@
+/**
+ * Exports transactional outbox utilities.
+ */
+export * from './Outbox';
+export * from './InMemoryOutbox';
+export * from './FileOutbox';
+export * from './OutboxRelay';
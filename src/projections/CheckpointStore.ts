@@ -0,0 +1,22 @@
+// projections/CheckpointStore.ts - Контракт хранилища контрольных точек проекций
+
+/**
+ * Interface for projection checkpoint stores.
+ * @typedef {Object} ICheckpointStore
+ */
+export interface ICheckpointStore {
+  /**
+   * Loads the position of the last processed event (0 if none).
+   * @param {string} projectionName
+   * @returns {Promise<number>}
+   */
+  load(projectionName: string): Promise<number>;
+
+  /**
+   * Saves the position of the last processed event.
+   * @param {string} projectionName
+   * @param {number} position
+   * @returns {Promise<void>}
+   */
+  save(projectionName: string, position: number): Promise<void>;
+}
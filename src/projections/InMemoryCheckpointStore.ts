@@ -0,0 +1,29 @@
+// projections/InMemoryCheckpointStore.ts - Хранилище контрольных точек в памяти
+import { ICheckpointStore } from './CheckpointStore';
+
+/**
+ * Checkpoint store that keeps positions in memory.
+ * @implements {ICheckpointStore}
+ */
+export class InMemoryCheckpointStore implements ICheckpointStore {
+  private checkpoints = new Map<string, number>();
+
+  /**
+   * Loads the position of the last processed event.
+   * @param {string} projectionName
+   * @returns {Promise<number>}
+   */
+  async load(projectionName: string): Promise<number> {
+    return this.checkpoints.get(projectionName) ?? 0;
+  }
+
+  /**
+   * Saves the position of the last processed event.
+   * @param {string} projectionName
+   * @param {number} position
+   * @returns {Promise<void>}
+   */
+  async save(projectionName: string, position: number): Promise<void> {
+    this.checkpoints.set(projectionName, position);
+  }
+}
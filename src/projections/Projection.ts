@@ -0,0 +1,62 @@
+// projections/Projection.ts - Типы проекций (моделей чтения)
+import { EventType } from '../types';
+import { StoredEvent } from '../eventstore/EventStore';
+
+/**
+ * Handler that applies a stored event to a read model.
+ * @template TEventMap - Event map type
+ * @template K - Event type key
+ * @typedef {(event: StoredEvent<TEventMap, K>) => Promise<void>} ProjectionEventHandler
+ */
+export type ProjectionEventHandler<
+  TEventMap extends Record<string, any> = any,
+  K extends EventType<TEventMap> = EventType<TEventMap>
+> = (event: StoredEvent<TEventMap, K>) => Promise<void>;
+
+/**
+ * Declarative projection definition.
+ * @template TEventMap - Event map type
+ * @typedef {Object} ProjectionDefinition
+ * @property {string} name - Unique projection name, also the checkpoint key
+ * @property {Object} handle - Handlers per event type; other events only advance the checkpoint
+ * @property {() => Promise<void>} [reset] - Clears the read model before a rebuild
+ */
+export interface ProjectionDefinition<TEventMap extends Record<string, any> = any> {
+  name: string;
+  handle: {
+    [K in EventType<TEventMap>]?: ProjectionEventHandler<TEventMap, K>;
+  };
+  reset?: () => Promise<void>;
+}
+
+/**
+ * Error recorded while a projection processed an event.
+ * @typedef {Object} ProjectionError
+ */
+export interface ProjectionError {
+  position: number;
+  eventType: string;
+  message: string;
+  timestamp: Date;
+}
+
+/**
+ * Runtime status of a projection.
+ * @typedef {Object} ProjectionStatus
+ * @property {string} name
+ * @property {'idle'|'running'|'rebuilding'|'faulted'} state
+ * @property {number} position - Position of the last processed event (checkpoint)
+ * @property {number} headPosition - Position of the last event in the store
+ * @property {number} lag - Events not yet processed
+ * @property {number} errorCount - Errors since start or last rebuild
+ * @property {ProjectionError} [lastError]
+ */
+export interface ProjectionStatus {
+  name: string;
+  state: 'idle' | 'running' | 'rebuilding' | 'faulted';
+  position: number;
+  headPosition: number;
+  lag: number;
+  errorCount: number;
+  lastError?: ProjectionError;
+}
@@ -0,0 +1,242 @@
+// projections/ProjectionRunner.ts - Запуск проекций с контрольными точками
+import { EventType, IMessageHandler, IEvent } from '../types';
+import { IEventStore } from '../eventstore/EventStore';
+import { TypeBus } from '../core/TypeBus';
+import { Disposer, DISPOSE, createDisposer } from '../core/Disposer';
+import { ProjectionDefinition, ProjectionError, ProjectionStatus } from './Projection';
+import { ICheckpointStore } from './CheckpointStore';
+import { InMemoryCheckpointStore } from './InMemoryCheckpointStore';
+
+/**
+ * Options for configuring a ProjectionRunner.
+ * @typedef {Object} ProjectionRunnerOptions
+ * @property {ICheckpointStore} [checkpointStore] - Where positions are kept (default: in memory)
+ * @property {number} [batchSize] - Events read from the store per batch (default: 100)
+ * @property {boolean} [live] - Catch up as soon as a projected event is published (default: true)
+ */
+export interface ProjectionRunnerOptions {
+  checkpointStore?: ICheckpointStore;
+  batchSize?: number;
+  live?: boolean;
+}
+
+/**
+ * Runtime bookkeeping of a registered projection.
+ */
+interface ProjectionRuntime {
+  definition: ProjectionDefinition;
+  state: ProjectionStatus['state'];
+  position: number;
+  errorCount: number;
+  lastError?: ProjectionError;
+  queue: Promise<void>;
+}
+
+/**
+ * Runs projections against the event store of a bus.
+ * Each projection reads events in global order from its checkpoint, so it resumes where it
+ * stopped after a restart and can be rebuilt by replaying from position zero. A projection
+ * whose handler fails is marked as faulted and stays at the failing event until it is
+ * caught up explicitly or rebuilt.
+ * @template TEventMap - Event map type
+ */
+export class ProjectionRunner<TEventMap extends Record<string, any> = any> {
+  private eventStore: IEventStore;
+  private options: Required<ProjectionRunnerOptions>;
+  private projections = new Map<string, ProjectionRuntime>();
+  private disposers: Disposer[] = [];
+
+  /**
+   * Creates a new ProjectionRunner and attaches it to the bus.
+   * @param {TypeBus<any, any, TEventMap>} bus - Bus configured with an event store.
+   * @param {ProjectionRunnerOptions} [options]
+   */
+  constructor(private readonly bus: TypeBus<any, any, TEventMap>, options: ProjectionRunnerOptions = {}) {
+    const eventStore = bus.getEventStore();
+    if (!eventStore) {
+      throw new Error('ProjectionRunner requires a TypeBus configured with an eventStore');
+    }
+    this.eventStore = eventStore;
+    this.options = {
+      checkpointStore: new InMemoryCheckpointStore(),
+      batchSize: 100,
+      live: true,
+      ...options
+    };
+    this.disposers.push(bus.registerProjectionRunner(this));
+  }
+
+  /**
+   * Registers a projection. In live mode it also subscribes to the projected events.
+   * @param {ProjectionDefinition<TEventMap>} definition
+   * @returns {Disposer} Unsubscribes and removes the projection again. Its checkpoint is kept.
+   */
+  register(definition: ProjectionDefinition<TEventMap>): Disposer {
+    if (this.projections.has(definition.name)) {
+      throw new Error(`Projection '${definition.name}' already registered`);
+    }
+    this.projections.set(definition.name, {
+      definition,
+      state: 'idle',
+      position: 0,
+      errorCount: 0,
+      queue: Promise.resolve()
+    });
+
+    const subscriptions: Disposer[] = [];
+    if (this.options.live) {
+      const handler: IMessageHandler<IEvent<TEventMap>, void> = {
+        name: `projection:${definition.name}`,
+        handle: async () => {
+          if (this.projections.get(definition.name)?.state !== 'faulted') {
+            await this.catchUp(definition.name);
+          }
+        }
+      };
+      for (const eventType of Object.keys(definition.handle) as EventType<TEventMap>[]) {
+        subscriptions.push(this.bus.registerEventHandler(eventType, handler));
+      }
+    }
+
+    const disposer = createDisposer(() => {
+      subscriptions.forEach(dispose => dispose());
+      this.projections.delete(definition.name);
+      const index = this.disposers.indexOf(disposer);
+      if (index !== -1) {
+        this.disposers.splice(index, 1);
+      }
+    });
+    this.disposers.push(disposer);
+    return disposer;
+  }
+
+  /**
+   * Unsubscribes all projections and detaches the runner from the bus. Checkpoints are kept.
+   */
+  dispose(): void {
+    this.disposers.splice(0).reverse().forEach(dispose => dispose());
+  }
+
+  /**
+   * Same as dispose, for `using` declarations.
+   */
+  [DISPOSE](): void {
+    this.dispose();
+  }
+
+  /**
+   * Resumes every projection from its checkpoint and processes all pending events.
+   * @returns {Promise<void>}
+   */
+  async start(): Promise<void> {
+    await Promise.all(Array.from(this.projections.keys()).map(name => this.catchUp(name)));
+  }
+
+  /**
+   * Processes pending events of a projection, retrying a faulted one.
+   * @param {string} name
+   * @returns {Promise<void>}
+   */
+  async catchUp(name: string): Promise<void> {
+    const runtime = this.getRuntime(name);
+    await this.enqueue(runtime, () => this.process(runtime, 'running'));
+  }
+
+  /**
+   * Resets a projection and replays all events from position zero.
+   * @param {string} name
+   * @returns {Promise<void>}
+   */
+  async rebuild(name: string): Promise<void> {
+    const runtime = this.getRuntime(name);
+    await this.enqueue(runtime, async () => {
+      runtime.state = 'rebuilding';
+      runtime.errorCount = 0;
+      runtime.lastError = undefined;
+      await runtime.definition.reset?.();
+      await this.options.checkpointStore.save(name, 0);
+      await this.process(runtime, 'rebuilding');
+    });
+  }
+
+  /**
+   * Gets the status of all projections, or of a single one.
+   * @param {string} [name]
+   * @returns {Promise<ProjectionStatus[]>}
+   */
+  async getStatus(name?: string): Promise<ProjectionStatus[]> {
+    const headPosition = await this.eventStore.getLastPosition();
+    const runtimes = name ? [this.getRuntime(name)] : Array.from(this.projections.values());
+    return runtimes.map(runtime => ({
+      name: runtime.definition.name,
+      state: runtime.state,
+      position: runtime.position,
+      headPosition,
+      lag: headPosition - runtime.position,
+      errorCount: runtime.errorCount,
+      lastError: runtime.lastError
+    }));
+  }
+
+  /**
+   * Reads events after the checkpoint and applies them one by one.
+   * @param {ProjectionRuntime} runtime
+   * @param {ProjectionStatus['state']} state - State while processing.
+   * @returns {Promise<void>}
+   */
+  private async process(runtime: ProjectionRuntime, state: ProjectionStatus['state']): Promise<void> {
+    const { definition } = runtime;
+    const { checkpointStore, batchSize } = this.options;
+    runtime.state = state;
+    runtime.position = await checkpointStore.load(definition.name);
+
+    for (;;) {
+      const batch = await this.eventStore.readAll(runtime.position + 1, batchSize);
+      for (const event of batch) {
+        const handler = definition.handle[event.type as EventType<TEventMap>];
+        try {
+          await handler?.(event);
+        } catch (error) {
+          runtime.state = 'faulted';
+          runtime.errorCount++;
+          runtime.lastError = {
+            position: event.position,
+            eventType: event.type,
+            message: error instanceof Error ? error.message : String(error),
+            timestamp: new Date()
+          };
+          return;
+        }
+        await checkpointStore.save(definition.name, event.position);
+        runtime.position = event.position;
+      }
+      if (batch.length < batchSize) break;
+    }
+    runtime.state = 'idle';
+  }
+
+  /**
+   * Gets the runtime of a registered projection.
+   * @param {string} name
+   * @returns {ProjectionRuntime}
+   */
+  private getRuntime(name: string): ProjectionRuntime {
+    const runtime = this.projections.get(name);
+    if (!runtime) {
+      throw new Error(`No projection registered: ${name}`);
+    }
+    return runtime;
+  }
+
+  /**
+   * Runs an operation after the queued operations of the same projection.
+   * @param {ProjectionRuntime} runtime
+   * @param {() => Promise<void>} operation
+   * @returns {Promise<void>}
+   */
+  private enqueue(runtime: ProjectionRuntime, operation: () => Promise<void>): Promise<void> {
+    const result = runtime.queue.then(operation);
+    runtime.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Exports projection (read model) utilities.
+ */
+export * from './Projection';
+export * from './CheckpointStore';
+export * from './InMemoryCheckpointStore';
+export * from './ProjectionRunner';
@@ -0,0 +1,63 @@
+// sagas/InMemorySagaStore.ts - Хранилище состояний саг в памяти
+import { serialize, deserialize } from 'v8';
+import { SagaInstance } from './Saga';
+import { ISagaStore } from './SagaStore';
+
+/**
+ * Saga store that keeps instances in memory.
+ * @implements {ISagaStore}
+ */
+export class InMemorySagaStore implements ISagaStore {
+  private instances = new Map<string, SagaInstance>();
+
+  /**
+   * Loads a saga instance.
+   * @param {string} sagaName
+   * @param {string} id
+   * @returns {Promise<SagaInstance | undefined>}
+   */
+  async load(sagaName: string, id: string): Promise<SagaInstance | undefined> {
+    const instance = this.instances.get(this.key(sagaName, id));
+    return instance && this.copy(instance);
+  }
+
+  /**
+   * Saves a saga instance.
+   * @param {SagaInstance} instance
+   * @returns {Promise<void>}
+   */
+  async save(instance: SagaInstance): Promise<void> {
+    this.instances.set(this.key(instance.sagaName, instance.id), this.copy(instance));
+  }
+
+  /**
+   * Finds active instances whose deadline has passed.
+   * @param {string} sagaName
+   * @param {number} now
+   * @returns {Promise<SagaInstance[]>}
+   */
+  async findExpired(sagaName: string, now: number): Promise<SagaInstance[]> {
+    return Array.from(this.instances.values())
+      .filter(i => i.sagaName === sagaName && i.status === 'active' && i.deadline !== undefined && i.deadline <= now)
+      .map(i => this.copy(i));
+  }
+
+  /**
+   * Builds the map key of an instance.
+   * @param {string} sagaName
+   * @param {string} id
+   * @returns {string}
+   */
+  private key(sagaName: string, id: string): string {
+    return `${sagaName}:${id}`;
+  }
+
+  /**
+   * Deep-copies an instance, nested state included, so callers cannot mutate stored state.
+   * @param {SagaInstance} instance
+   * @returns {SagaInstance}
+   */
+  private copy(instance: SagaInstance): SagaInstance {
+    return deserialize(serialize(instance));
+  }
+}
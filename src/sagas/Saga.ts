@@ -0,0 +1,145 @@
+// sagas/Saga.ts - Типы саг (процесс-менеджеров)
+import {
+  CommandType,
+  CommandData,
+  CommandResult,
+  EventType,
+  IEvent
+} from '../types';
+import { ISagaStore } from './SagaStore';
+
+/**
+ * Lifecycle status of a saga instance.
+ * @typedef {'active'|'completed'|'compensated'|'timedOut'|'failed'} SagaStatus
+ */
+export type SagaStatus = 'active' | 'completed' | 'compensated' | 'timedOut' | 'failed';
+
+/**
+ * Command recorded by a saga, e.g. a compensation to run on failure.
+ * @template TCommandMap - Command map type
+ * @template T - Command type key
+ * @typedef {Object} SagaCommand
+ */
+export interface SagaCommand<
+  TCommandMap extends Record<string, any> = any,
+  T extends CommandType<TCommandMap> = CommandType<TCommandMap>
+> {
+  type: T;
+  data: CommandData<TCommandMap, T>;
+  aggregateId: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Persisted state of a single saga instance.
+ * @template TState - Saga state type
+ * @typedef {Object} SagaInstance
+ * @property {string} sagaName - Name of the saga definition
+ * @property {string} id - Correlation ID of the instance
+ * @property {TState} state - User-defined saga state
+ * @property {SagaStatus} status
+ * @property {SagaCommand[]} compensations - Compensating commands, run in reverse order on failure
+ * @property {number} [deadline] - Epoch milliseconds after which the instance times out
+ * @property {string} [error] - Message of the error that failed the instance
+ */
+export interface SagaInstance<TState = any> {
+  sagaName: string;
+  id: string;
+  state: TState;
+  status: SagaStatus;
+  compensations: SagaCommand[];
+  deadline?: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Context passed to saga handlers.
+ * @template TCommandMap - Command map type
+ * @template TState - Saga state type
+ * @typedef {Object} SagaContext
+ */
+export interface SagaContext<TCommandMap extends Record<string, any> = any, TState = any> {
+  /** Correlation ID of the saga instance. */
+  readonly sagaId: string;
+  /** Current saga state; handlers may mutate it or return a new one. */
+  readonly state: TState;
+
+  /**
+   * Dispatches a command through the bus' executeCommand.
+   * A compensation, if given, is recorded once the command succeeds.
+   * @template T
+   * @param {T} type
+   * @param {CommandData<TCommandMap, T>} data
+   * @param {string} aggregateId
+   * @param {{ metadata?: Record<string, any>; compensate?: SagaCommand<TCommandMap> }} [options]
+   * @returns {Promise<CommandResult<TCommandMap, T>>}
+   */
+  dispatch<T extends CommandType<TCommandMap>>(
+    type: T,
+    data: CommandData<TCommandMap, T>,
+    aggregateId: string,
+    options?: { metadata?: Record<string, any>; compensate?: SagaCommand<TCommandMap> }
+  ): Promise<CommandResult<TCommandMap, T>>;
+
+  /**
+   * Marks the saga as completed. Later events for this instance are ignored.
+   */
+  complete(): void;
+
+  /**
+   * Sets (or resets) the instance deadline.
+   * @param {number} ms - Milliseconds from now.
+   */
+  setTimeout(ms: number): void;
+
+  /**
+   * Removes the instance deadline.
+   */
+  clearTimeout(): void;
+}
+
+/**
+ * Handler of a saga step. May return a new state.
+ * @template TCommandMap, TEventMap, TState, K
+ */
+export type SagaEventHandler<
+  TCommandMap extends Record<string, any>,
+  TEventMap extends Record<string, any>,
+  TState,
+  K extends EventType<TEventMap>
+> = (event: IEvent<TEventMap, K>, context: SagaContext<TCommandMap, TState>) => Promise<TState | void>;
+
+/**
+ * Declarative saga definition.
+ * @template TCommandMap - Command map type
+ * @template TEventMap - Event map type
+ * @template TState - Saga state type
+ * @typedef {Object} SagaDefinition
+ * @property {string} name - Unique saga name
+ * @property {EventType<TEventMap>[]} startedBy - Events that create a new instance
+ * @property {(event: IEvent<TEventMap>) => string} [correlate] - Maps an event to an instance ID (default: aggregateId)
+ * @property {(event: IEvent<TEventMap>) => TState} initialState - State of a new instance
+ * @property {Object} handle - Step handlers per event type
+ * @property {Object} [timeout] - Deadline set when an instance starts, with an optional handler
+ * @property {ISagaStore} [store] - Where instances are persisted (default: in memory)
+ */
+export interface SagaDefinition<
+  TCommandMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any,
+  TState = any
+> {
+  name: string;
+  startedBy: EventType<TEventMap>[];
+  correlate?: (event: IEvent<TEventMap>) => string;
+  initialState: (event: IEvent<TEventMap>) => TState;
+  handle: {
+    [K in EventType<TEventMap>]?: SagaEventHandler<TCommandMap, TEventMap, TState, K>;
+  };
+  timeout?: {
+    after: number;
+    handle?: (context: SagaContext<TCommandMap, TState>) => Promise<TState | void>;
+  };
+  store?: ISagaStore;
+}
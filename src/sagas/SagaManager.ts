@@ -0,0 +1,345 @@
+// sagas/SagaManager.ts - Исполнение саг поверх шины
+import { AsyncLocalStorage } from 'async_hooks';
+import { CommandType, CommandData, CommandResult, EventType, IEvent, IMessageHandler } from '../types';
+import { TypeBus } from '../core/TypeBus';
+import { Disposer, DISPOSE } from '../core/Disposer';
+import { SagaCommand, SagaContext, SagaDefinition, SagaInstance, SagaStatus } from './Saga';
+import { ISagaStore } from './SagaStore';
+import { InMemorySagaStore } from './InMemorySagaStore';
+
+/**
+ * Instance whose lock is held by the current async context, with the events of that instance
+ * raised while it runs; they are handled once the running step has been saved.
+ */
+interface ActiveInstance<TEventMap extends Record<string, any>> {
+  id: string;
+  pending: IEvent<TEventMap>[];
+  done: boolean;
+}
+
+/**
+ * Runs a saga definition on a bus.
+ * Subscribes to the saga events, correlates them to instances, persists instance state and
+ * runs compensating commands in reverse order when a step fails or the instance times out.
+ * Events of an instance raised by the commands of its running step are handled after it.
+ * @template TCommandMap - Command map type
+ * @template TEventMap - Event map type
+ * @template TState - Saga state type
+ */
+export class SagaManager<
+  TCommandMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any,
+  TState = any
+> {
+  readonly store: ISagaStore;
+  private locks = new Map<string, Promise<unknown>>();
+  private timer?: NodeJS.Timeout;
+  private disposers: Disposer[] = [];
+  private activeInstance = new AsyncLocalStorage<ActiveInstance<TEventMap>>();
+
+  /**
+   * Creates a new SagaManager and subscribes it to the bus.
+   * @param {TypeBus<TCommandMap, any, TEventMap>} bus
+   * @param {SagaDefinition<TCommandMap, TEventMap, TState>} definition
+   */
+  constructor(
+    private readonly bus: TypeBus<TCommandMap, any, TEventMap>,
+    private readonly definition: SagaDefinition<TCommandMap, TEventMap, TState>
+  ) {
+    this.store = definition.store || new InMemorySagaStore();
+
+    const eventTypes = new Set<EventType<TEventMap>>([
+      ...definition.startedBy,
+      ...(Object.keys(definition.handle) as EventType<TEventMap>[])
+    ]);
+    for (const eventType of eventTypes) {
+      const handler: IMessageHandler<IEvent<TEventMap>, void> = {
+        name: `saga:${definition.name}`,
+        handle: event => this.handleEvent(event)
+      };
+      this.disposers.push(bus.registerEventHandler(eventType, handler));
+    }
+  }
+
+  /**
+   * Saga name.
+   * @returns {string}
+   */
+  get name(): string {
+    return this.definition.name;
+  }
+
+  /**
+   * Loads a saga instance by correlation ID.
+   * @param {string} id
+   * @returns {Promise<SagaInstance<TState> | undefined>}
+   */
+  async getInstance(id: string): Promise<SagaInstance<TState> | undefined> {
+    return this.store.load(this.name, id);
+  }
+
+  /**
+   * Times out every active instance whose deadline has passed.
+   * @param {number} [now] - Epoch milliseconds (default: Date.now()).
+   * @returns {Promise<number>} Number of instances that timed out.
+   */
+  async checkTimeouts(now = Date.now()): Promise<number> {
+    const expired = await this.store.findExpired(this.name, now);
+    for (const { id } of expired) {
+      await this.withInstance(id, [], async () => {
+        const instance = await this.store.load(this.name, id);
+        if (!instance || instance.status !== 'active' || instance.deadline === undefined || instance.deadline > now) {
+          return;
+        }
+        await this.runStep(instance, context => this.definition.timeout?.handle?.(context), 'timedOut');
+      });
+    }
+    return expired.length;
+  }
+
+  /**
+   * Starts checking timeouts periodically. The timer does not keep the process alive; failed
+   * checks are logged according to the logging settings of the bus.
+   * @param {number} intervalMs
+   */
+  startTimeoutPolling(intervalMs: number): void {
+    this.stopTimeoutPolling();
+    this.timer = setInterval(() => {
+      this.checkTimeouts().catch(error => this.bus.getLogger(`saga:${this.name}`).error('Timeout check failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stops periodic timeout checks.
+   */
+  stopTimeoutPolling(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Unsubscribes the saga from the bus and stops timeout polling. Stored instances are kept.
+   */
+  dispose(): void {
+    this.stopTimeoutPolling();
+    this.disposers.splice(0).forEach(dispose => dispose());
+  }
+
+  /**
+   * Same as dispose, for `using` declarations.
+   */
+  [DISPOSE](): void {
+    this.dispose();
+  }
+
+  /**
+   * Routes an event to its saga instance, starting a new one when allowed.
+   * @param {IEvent<TEventMap>} event
+   * @returns {Promise<void>}
+   */
+  private async handleEvent(event: IEvent<TEventMap>): Promise<void> {
+    const id = this.definition.correlate ? this.definition.correlate(event) : event.aggregateId;
+
+    // Raised by a command the running step of this instance dispatched: waiting for the lock
+    // would deadlock, so the event is handled once that step has been saved
+    const active = this.activeInstance.getStore();
+    if (active?.id === id && !active.done) {
+      active.pending.push(event);
+      return;
+    }
+    await this.withInstance(id, [event]);
+  }
+
+  /**
+   * Holds the lock of an instance while an operation runs, then handles the given events and
+   * those of the instance raised meanwhile, one step at a time.
+   * @param {string} id
+   * @param {IEvent<TEventMap>[]} pending
+   * @param {() => Promise<void>} [operation]
+   * @returns {Promise<void>}
+   */
+  private async withInstance(id: string, pending: IEvent<TEventMap>[], operation?: () => Promise<void>): Promise<void> {
+    await this.withLock(id, () => {
+      const active: ActiveInstance<TEventMap> = { id, pending, done: false };
+      return this.activeInstance.run(active, async () => {
+        try {
+          await operation?.();
+          for (let event = pending.shift(); event; event = pending.shift()) {
+            await this.applyEvent(id, event);
+          }
+        } finally {
+          active.done = true;
+        }
+      });
+    });
+  }
+
+  /**
+   * Runs the step of an event against its instance, starting a new one when allowed.
+   * Must be called while holding the lock of the instance.
+   * @param {string} id
+   * @param {IEvent<TEventMap>} event
+   * @returns {Promise<void>}
+   */
+  private async applyEvent(id: string, event: IEvent<TEventMap>): Promise<void> {
+    let instance = await this.store.load(this.name, id);
+    if (!instance) {
+      if (!this.definition.startedBy.includes(event.type)) return;
+      instance = this.createInstance(id, event);
+    }
+    if (instance.status !== 'active') return;
+
+    const handler = this.definition.handle[event.type as EventType<TEventMap>];
+    await this.runStep(instance, context => handler?.(event, context), 'active');
+  }
+
+  /**
+   * Creates a new active instance.
+   * @param {string} id
+   * @param {IEvent<TEventMap>} event - The starting event.
+   * @returns {SagaInstance<TState>}
+   */
+  private createInstance(id: string, event: IEvent<TEventMap>): SagaInstance<TState> {
+    const now = new Date();
+    const timeout = this.definition.timeout;
+    return {
+      sagaName: this.name,
+      id,
+      state: this.definition.initialState(event),
+      status: 'active',
+      compensations: [],
+      deadline: timeout ? now.getTime() + timeout.after : undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Runs a step against an instance and persists the outcome.
+   * A failing step triggers compensation; the error is recorded on the instance.
+   * @param {SagaInstance<TState>} instance
+   * @param {(context: SagaContext<TCommandMap, TState>) => Promise<TState | void> | undefined} step
+   * @param {SagaStatus} statusIfNotCompleted - Status to set when the step does not complete the saga.
+   * @returns {Promise<void>}
+   */
+  private async runStep(
+    instance: SagaInstance<TState>,
+    step: (context: SagaContext<TCommandMap, TState>) => Promise<TState | void> | undefined,
+    statusIfNotCompleted: SagaStatus
+  ): Promise<void> {
+    let completed = false;
+    const bus = this.bus;
+    const context: SagaContext<TCommandMap, TState> = {
+      sagaId: instance.id,
+      get state() {
+        return instance.state;
+      },
+      async dispatch<T extends CommandType<TCommandMap>>(
+        type: T,
+        data: CommandData<TCommandMap, T>,
+        aggregateId: string,
+        options: { metadata?: Record<string, any>; compensate?: SagaCommand<TCommandMap> } = {}
+      ): Promise<CommandResult<TCommandMap, T>> {
+        const result = await bus.executeCommand(type, data, aggregateId, options.metadata);
+        if (options.compensate) {
+          instance.compensations.push(options.compensate);
+        }
+        return result;
+      },
+      complete: () => {
+        completed = true;
+      },
+      setTimeout: (ms: number) => {
+        instance.deadline = Date.now() + ms;
+      },
+      clearTimeout: () => {
+        instance.deadline = undefined;
+      }
+    };
+
+    try {
+      const nextState = await step(context);
+      if (nextState !== undefined) {
+        instance.state = nextState;
+      }
+      instance.status = completed ? 'completed' : statusIfNotCompleted;
+      if (instance.status === 'timedOut') {
+        await this.compensate(instance, 'timedOut');
+      }
+    } catch (error) {
+      instance.error = error instanceof Error ? error.message : String(error);
+      await this.compensate(instance, 'compensated');
+    }
+
+    if (instance.status !== 'active') {
+      instance.deadline = undefined;
+    }
+    instance.updatedAt = new Date();
+    await this.store.save(instance);
+  }
+
+  /**
+   * Runs recorded compensations in reverse order.
+   * @param {SagaInstance<TState>} instance
+   * @param {SagaStatus} status - Status to set when all compensations succeed.
+   * @returns {Promise<void>}
+   */
+  private async compensate(instance: SagaInstance<TState>, status: SagaStatus): Promise<void> {
+    while (instance.compensations.length > 0) {
+      const command = instance.compensations[instance.compensations.length - 1];
+      try {
+        await this.bus.executeCommand(command.type, command.data, command.aggregateId, command.metadata);
+      } catch (error) {
+        instance.status = 'failed';
+        instance.error = `Compensation '${command.type}' failed: ${error instanceof Error ? error.message : String(error)}`;
+        return;
+      }
+      instance.compensations.pop();
+    }
+    instance.status = status;
+  }
+
+  /**
+   * Serializes work on the same saga instance.
+   * @template T
+   * @param {string} id
+   * @param {() => Promise<T>} operation
+   * @returns {Promise<T>}
+   */
+  private async withLock<T>(id: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const current = previous.then(operation);
+    const settled = current.catch(() => undefined);
+    this.locks.set(id, settled);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(id) === settled) {
+        this.locks.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Defines a saga and subscribes it to the bus.
+ * @template TCommandMap - Command map type
+ * @template TEventMap - Event map type
+ * @template TState - Saga state type
+ * @param {TypeBus<TCommandMap, any, TEventMap>} bus - The TypeBus-CQRS instance.
+ * @param {SagaDefinition<TCommandMap, TEventMap, TState>} definition - The saga definition.
+ * @returns {SagaManager<TCommandMap, TEventMap, TState>}
+ */
+export function defineSaga<
+  TCommandMap extends Record<string, any> = any,
+  TEventMap extends Record<string, any> = any,
+  TState = any
+>(
+  bus: TypeBus<TCommandMap, any, TEventMap>,
+  definition: SagaDefinition<TCommandMap, TEventMap, TState>
+): SagaManager<TCommandMap, TEventMap, TState> {
+  return new SagaManager(bus, definition);
+}
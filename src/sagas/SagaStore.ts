@@ -0,0 +1,31 @@
+// sagas/SagaStore.ts - Контракт хранилища состояний саг
+import { SagaInstance } from './Saga';
+
+/**
+ * Interface for saga instance stores.
+ * @typedef {Object} ISagaStore
+ */
+export interface ISagaStore {
+  /**
+   * Loads a saga instance.
+   * @param {string} sagaName
+   * @param {string} id
+   * @returns {Promise<SagaInstance | undefined>}
+   */
+  load(sagaName: string, id: string): Promise<SagaInstance | undefined>;
+
+  /**
+   * Saves a saga instance, replacing the previous state.
+   * @param {SagaInstance} instance
+   * @returns {Promise<void>}
+   */
+  save(instance: SagaInstance): Promise<void>;
+
+  /**
+   * Finds active instances whose deadline is at or before the given time.
+   * @param {string} sagaName
+   * @param {number} now - Epoch milliseconds
+   * @returns {Promise<SagaInstance[]>}
+   */
+  findExpired(sagaName: string, now: number): Promise<SagaInstance[]>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Exports saga (process manager) utilities.
+ */
+export * from './Saga';
+export * from './SagaStore';
+export * from './InMemorySagaStore';
+export * from './SagaManager';
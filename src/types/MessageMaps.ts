@@ -8,6 +8,10 @@ export interface BaseCommandMap {
     data: { name: string; email: string; password: string };
     aggregateId: string;
     result: { userId: string; events: string[] };
+    errors: {
+      EmailTaken: { email: string };
+      WeakPassword: { minLength: number };
+    };
   };
   'User.UpdateProfile': {
     data: { name?: string; email?: string };
@@ -199,6 +203,16 @@ export type CommandData<T extends Record<string, any> = CommandMap, K extends ke
  */
 export type CommandResult<T extends Record<string, any> = CommandMap, K extends keyof T & string = keyof T & string> = T[K]['result'];
 
+/**
+ * Extracts the declared business rejections of a command type: reason mapped to details.
+ * Commands without an `errors` shape have none.
+ * @template T - Command map type
+ * @template K - Command type key
+ * @typedef {T[K]['errors']} CommandErrors
+ */
+export type CommandErrors<T extends Record<string, any> = CommandMap, K extends keyof T & string = keyof T & string> =
+  T[K] extends { errors: infer E } ? E : Record<never, never>;
+
 /**
  * Extracts the params type for a given query type.
  * @template T - Query map type
@@ -215,6 +229,15 @@ export type QueryParams<T extends Record<string, any> = QueryMap, K extends keyo
  */
 export type QueryResult<T extends Record<string, any> = QueryMap, K extends keyof T & string = keyof T & string> = T[K]['result'];
 
+/**
+ * Extracts the declared business rejections of a query type: reason mapped to details.
+ * @template T - Query map type
+ * @template K - Query type key
+ * @typedef {T[K]['errors']} QueryErrors
+ */
+export type QueryErrors<T extends Record<string, any> = QueryMap, K extends keyof T & string = keyof T & string> =
+  T[K] extends { errors: infer E } ? E : Record<never, never>;
+
 /**
  * Extracts the data type for a given event type.
  * @template T - Event map type
@@ -9,19 +9,32 @@ import {
   QueryResult,
   EventData 
 } from './MessageMaps';
+import { Disposer } from '../core/Disposer';
+
+/**
+ * Kind of a message.
+ * @typedef {'command'|'query'|'event'} MessageKind
+ */
+export type MessageKind = 'command' | 'query' | 'event';
 
 /**
  * Base interface for all messages.
  * @typedef {Object} IMessage
  * @property {string} id
  * @property {string} type
+ * @property {MessageKind} kind - Set by the MessageFactory
  * @property {Date} timestamp
+ * @property {string} [correlationId] - Id shared with the message that started the chain; its own id for a root message
+ * @property {string} [causationId] - Id of the message whose handler created this one
  * @property {Record<string, any>} [metadata]
  */
 export interface IMessage {
   readonly id: string;
   readonly type: string;
+  readonly kind: MessageKind;
   readonly timestamp: Date;
+  readonly correlationId?: string;
+  readonly causationId?: string;
   readonly metadata?: Record<string, any>;
 }
 
@@ -33,6 +46,7 @@ export interface IMessage {
  */
 export interface ICommand<T extends Record<string, any> = any, K extends keyof T & string = keyof T & string> extends IMessage {
   readonly type: K;
+  readonly kind: 'command';
   readonly data: CommandData<T, K>;
   readonly aggregateId: string;
 }
@@ -45,6 +59,7 @@ export interface ICommand<T extends Record<string, any> = any, K extends keyof T
  */
 export interface IQuery<T extends Record<string, any> = any, K extends keyof T & string = keyof T & string> extends IMessage {
   readonly type: K;
+  readonly kind: 'query';
   readonly params: QueryParams<T, K>;
 }
 
@@ -56,6 +71,7 @@ export interface IQuery<T extends Record<string, any> = any, K extends keyof T &
  */
 export interface IEvent<T extends Record<string, any> = any, K extends keyof T & string = keyof T & string> extends IMessage {
   readonly type: K;
+  readonly kind: 'event';
   readonly data: EventData<T, K>;
   readonly aggregateId: string;
   readonly version: number;
@@ -65,22 +81,48 @@ export interface IEvent<T extends Record<string, any> = any, K extends keyof T &
  * Interface for message handlers.
  * @template TMessage, TResult
  * @typedef {Object} IMessageHandler
+ * @property {string} [name] - Name reported when the handler fails
  * @property {(message: TMessage) => Promise<TResult>} handle
  */
 export interface IMessageHandler<TMessage extends IMessage = IMessage, TResult = any> {
+  readonly name?: string;
   handle(message: TMessage): Promise<TResult>;
 }
 
 /**
  * Interface for middleware.
  * @typedef {Object} IMiddleware
+ * @property {string} [name] - Name used by message policies (default: class name)
  * @property {(message: T, next: (message: T) => Promise<R>) => Promise<R>} execute
+ * @property {() => void | Promise<void>} [stop] - Called when the bus closes, in reverse registration order
  */
 export interface IMiddleware {
+  readonly name?: string;
   execute<T extends IMessage, R = any>(
     message: T,
     next: (message: T) => Promise<R>
   ): Promise<R>;
+  stop?(): void | Promise<void>;
+}
+
+/**
+ * Restricts a middleware to some messages. Both conditions must hold when both are given.
+ * @typedef {Object} MiddlewareFilter
+ * @property {MessageKind[]} [kinds] - Message kinds the middleware runs for (default: all)
+ * @property {string[]} [types] - Exact types or glob patterns such as `Order.*` (default: all)
+ */
+export interface MiddlewareFilter {
+  kinds?: MessageKind[];
+  types?: string[];
+}
+
+/**
+ * Per-call dispatch options.
+ * @typedef {Object} DispatchOptions
+ * @property {AbortSignal} [signal] - Cancels the dispatch; handlers see it through the dispatch context
+ */
+export interface DispatchOptions {
+  signal?: AbortSignal;
 }
 
 /**
@@ -99,13 +141,15 @@ export interface IMessageBus<
     type: T,
     data: CommandData<TCommandMap, T>,
     aggregateId: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
   ): Promise<CommandResult<TCommandMap, T>>;
   
   executeQuery<T extends QueryType<TQueryMap>>(
     type: T,
     params: QueryParams<TQueryMap, T>,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
   ): Promise<QueryResult<TQueryMap, T>>;
   
   publishEvent<T extends EventType<TEventMap>>(
@@ -113,9 +157,25 @@ export interface IMessageBus<
     data: EventData<TEventMap, T>,
     aggregateId: string,
     version: number,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    options?: DispatchOptions
   ): Promise<void>;
   
-  use(middleware: IMiddleware): void;
+  registerCommandHandler<T extends CommandType<TCommandMap>>(
+    commandType: T,
+    handler: IMessageHandler<any, CommandResult<TCommandMap, T>>
+  ): Disposer;
+
+  registerQueryHandler<T extends QueryType<TQueryMap>>(
+    queryType: T,
+    handler: IMessageHandler<any, QueryResult<TQueryMap, T>>
+  ): Disposer;
+
+  registerEventHandler<T extends EventType<TEventMap>>(
+    eventType: T,
+    handler: IMessageHandler<any, void>
+  ): Disposer;
+
+  use(middleware: IMiddleware, filter?: MiddlewareFilter): Disposer;
   clear(): void;
 }
@@ -1,4 +1,12 @@
 // types/index.ts - Экспорт всех типов
+import { IEventStore } from '../eventstore/EventStore';
+import { IOutbox } from '../outbox/Outbox';
+import { MessagePolicy } from '../core/PolicyRegistry';
+import { EventDispatchStrategy } from '../core/EventDispatch';
+import { IDeadLetterStore } from '../deadletter/DeadLetter';
+import { EventQueueOptions } from '../core/EventQueue';
+import { AggregateLockOptions } from '../locking/LockProvider';
+
 export * from './MessageMaps';
 export * from './Messages';
 
@@ -32,6 +40,16 @@ export type RequiredFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
  * @property {number} [maxMiddleware]
  * @property {number} [commandTimeout]
  * @property {number} [queryTimeout]
+ * @property {number} [eventTimeout] - Timeout of each event handler
+ * @property {EventDispatchStrategy} [eventDispatch] - How events reach their handlers (default: 'parallel-fail-fast')
+ * @property {Record<string, MessagePolicy>} [policies] - Per-type policies keyed by message type or glob (`Order.*`)
+ * @property {IEventStore} [eventStore] - Store that published events are appended to before dispatch
+ * @property {boolean} [unitOfWork] - Buffer events published inside command handlers until the handler succeeds
+ * @property {IOutbox} [outbox] - Outbox that buffered events are recorded in before dispatch
+ * @property {AggregateLockOptions} [aggregateLocks] - Run commands of the same aggregate one at a time
+ * @property {EventQueueOptions} [eventQueue] - Dispatch published events in the background; publishEvent returns once queued
+ *   (failed dispatches are logged like the rest of the bus unless onError is given)
+ * @property {IDeadLetterStore} [deadLetterStore] - Captures failed event deliveries per handler instead of failing the publish
  */
 export interface TypeBusConfig {
   enableMetrics?: boolean;
@@ -40,6 +58,15 @@ export interface TypeBusConfig {
   maxMiddleware?: number;
   commandTimeout?: number;
   queryTimeout?: number;
+  eventTimeout?: number;
+  eventDispatch?: EventDispatchStrategy;
+  policies?: Record<string, MessagePolicy>;
+  eventStore?: IEventStore;
+  unitOfWork?: boolean;
+  outbox?: IOutbox;
+  deadLetterStore?: IDeadLetterStore;
+  eventQueue?: EventQueueOptions;
+  aggregateLocks?: AggregateLockOptions;
 }
 
 // Импортируем IMessageBus из Messages
@@ -47,26 +74,41 @@ import { IMessageBus } from './Messages';
 
 /**
  * Interface for TypeBus-CQRS modules.
+ * Everything the module registers on the bus while `configure` runs is removed again when
+ * the module is uninstalled.
  * @typedef {Object} ITypeBusModule
  * @property {string} name
  * @property {string} [version]
+ * @property {string[]} [dependencies] - Names of modules or extensions that must be installed first
  * @property {(bus: IMessageBus) => void | Promise<void>} configure
+ * @property {(bus: IMessageBus) => Awaitable<void>} [start] - Called when the bus starts
+ * @property {(bus: IMessageBus) => Awaitable<void>} [stop] - Called when the bus stops, in reverse install order
  */
 export interface ITypeBusModule {
   name: string;
   version?: string;
+  dependencies?: string[];
   configure(bus: IMessageBus): void | Promise<void>;
+  start?(bus: IMessageBus): Awaitable<void>;
+  stop?(bus: IMessageBus): Awaitable<void>;
 }
 
 /**
  * Interface for TypeBus-CQRS extensions.
+ * Registrations made while `install` runs are removed after `uninstall`.
  * @typedef {Object} ITypeBusExtension
  * @property {string} name
+ * @property {string[]} [dependencies] - Names of modules or extensions that must be installed first
  * @property {(bus: IMessageBus) => void} install
  * @property {(bus: IMessageBus) => void} [uninstall]
+ * @property {(bus: IMessageBus) => Awaitable<void>} [start] - Called when the bus starts
+ * @property {(bus: IMessageBus) => Awaitable<void>} [stop] - Called when the bus stops, in reverse install order
  */
 export interface ITypeBusExtension {
   name: string;
+  dependencies?: string[];
   install(bus: IMessageBus): void;
   uninstall?(bus: IMessageBus): void;
+  start?(bus: IMessageBus): Awaitable<void>;
+  stop?(bus: IMessageBus): Awaitable<void>;
 }
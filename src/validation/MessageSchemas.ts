@@ -0,0 +1,46 @@
+// validation/MessageSchemas.ts - Схемы команд, запросов и событий, привязанные к картам сообщений
+import {
+  CommandMap,
+  QueryMap,
+  EventMap,
+  CommandType,
+  QueryType,
+  EventType,
+  CommandData,
+  QueryParams,
+  EventData
+} from '../types';
+import { IValidator } from './Schema';
+
+/**
+ * Runtime schemas per message type. Each schema must validate exactly the payload type
+ * declared in the corresponding message map.
+ * @template TCommandMap, TQueryMap, TEventMap
+ * @typedef {Object} MessageSchemas
+ * @property {Object} [commands] - Validators of command data
+ * @property {Object} [queries] - Validators of query params
+ * @property {Object} [events] - Validators of event data
+ */
+export interface MessageSchemas<
+  TCommandMap extends Record<string, any> = CommandMap,
+  TQueryMap extends Record<string, any> = QueryMap,
+  TEventMap extends Record<string, any> = EventMap
+> {
+  commands?: { [K in CommandType<TCommandMap>]?: IValidator<CommandData<TCommandMap, K>> };
+  queries?: { [K in QueryType<TQueryMap>]?: IValidator<QueryParams<TQueryMap, K>> };
+  events?: { [K in EventType<TEventMap>]?: IValidator<EventData<TEventMap, K>> };
+}
+
+/**
+ * Declares message schemas, checking them against the message maps at compile time.
+ * @template TCommandMap, TQueryMap, TEventMap
+ * @param {MessageSchemas<TCommandMap, TQueryMap, TEventMap>} schemas
+ * @returns {MessageSchemas<TCommandMap, TQueryMap, TEventMap>}
+ */
+export function defineSchemas<
+  TCommandMap extends Record<string, any> = CommandMap,
+  TQueryMap extends Record<string, any> = QueryMap,
+  TEventMap extends Record<string, any> = EventMap
+>(schemas: MessageSchemas<TCommandMap, TQueryMap, TEventMap>): MessageSchemas<TCommandMap, TQueryMap, TEventMap> {
+  return schemas;
+}
@@ -0,0 +1,348 @@
+// validation/Schema.ts - Мини-DSL схем для проверки сообщений во время выполнения
+
+/**
+ * Segment of the path to an invalid value.
+ * @typedef {string | number} PathSegment
+ */
+export type PathSegment = string | number;
+
+/**
+ * Single validation problem.
+ * @typedef {Object} ValidationIssue
+ * @property {PathSegment[]} path - Path to the invalid value ([] for the root)
+ * @property {string} code - Machine-readable problem code
+ * @property {string} message - Human-readable description
+ */
+export interface ValidationIssue {
+  path: PathSegment[];
+  code: string;
+  message: string;
+}
+
+/**
+ * Interface for runtime validators. Implement it to plug in another validation library.
+ * @template T - Type of valid values
+ * @typedef {Object} IValidator
+ */
+export interface IValidator<T = any> {
+  /** Phantom member carrying the validated type; never set at runtime. */
+  readonly __type?: (value: T) => T;
+
+  /**
+   * Validates a value.
+   * @param {unknown} value
+   * @param {PathSegment[]} [path] - Path of the value inside the root value.
+   * @returns {ValidationIssue[]} Empty when the value is valid.
+   */
+  validate(value: unknown, path?: PathSegment[]): ValidationIssue[];
+}
+
+/**
+ * Extracts the validated type of a validator.
+ * @template V - Validator type
+ */
+export type Infer<V> = V extends IValidator<infer T> ? T : never;
+
+/**
+ * Flattens intersections for readable inferred types.
+ * @template T
+ */
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Object type described by a shape; keys whose schema accepts undefined become optional.
+ * @template S - Shape type
+ */
+export type InferShape<S extends Record<string, IValidator>> = Simplify<
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * Base class of the built-in schemas.
+ * @template T - Type of valid values
+ * @implements {IValidator<T>}
+ */
+export abstract class Schema<T> implements IValidator<T> {
+  declare readonly __type: (value: T) => T;
+
+  /**
+   * Validates a value.
+   * @param {unknown} value
+   * @param {PathSegment[]} [path]
+   * @returns {ValidationIssue[]}
+   */
+  abstract validate(value: unknown, path?: PathSegment[]): ValidationIssue[];
+
+  /**
+   * Also accepts undefined; inside an object the key becomes optional.
+   * @returns {Schema<T | undefined>}
+   */
+  optional(): Schema<T | undefined> {
+    return new WrappedSchema<T | undefined>(this, value => value === undefined);
+  }
+
+  /**
+   * Also accepts null.
+   * @returns {Schema<T | null>}
+   */
+  nullable(): Schema<T | null> {
+    return new WrappedSchema<T | null>(this, value => value === null);
+  }
+
+  /**
+   * Adds a custom check that runs once the value has the right shape.
+   * @param {(value: T) => boolean} check
+   * @param {string} message
+   * @param {string} [code]
+   * @returns {Schema<T>}
+   */
+  refine(check: (value: T) => boolean, message: string, code = 'custom'): Schema<T> {
+    return new RefinedSchema(this, check, message, code);
+  }
+}
+
+/**
+ * Creates a validation issue.
+ * @param {PathSegment[]} path
+ * @param {string} code
+ * @param {string} message
+ * @returns {ValidationIssue[]}
+ */
+function issue(path: PathSegment[], code: string, message: string): ValidationIssue[] {
+  return [{ path, code, message }];
+}
+
+/**
+ * Describes the runtime type of a value for error messages.
+ * @param {unknown} value
+ * @returns {string}
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  return typeof value;
+}
+
+/**
+ * Schema that accepts additional values before delegating to the inner schema.
+ */
+class WrappedSchema<T> extends Schema<T> {
+  constructor(private readonly inner: IValidator, private readonly accepts: (value: unknown) => boolean) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    return this.accepts(value) ? [] : this.inner.validate(value, path);
+  }
+}
+
+/**
+ * Schema with an additional custom check.
+ */
+class RefinedSchema<T> extends Schema<T> {
+  constructor(
+    private readonly inner: IValidator<T>,
+    private readonly check: (value: T) => boolean,
+    private readonly message: string,
+    private readonly code: string
+  ) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    const issues = this.inner.validate(value, path);
+    if (issues.length > 0) return issues;
+    return this.check(value as T) ? [] : issue(path, this.code, this.message);
+  }
+}
+
+/**
+ * Options of string schemas.
+ * @typedef {Object} StringOptions
+ */
+export interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  email?: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Schema of strings.
+ */
+export class StringSchema extends Schema<string> {
+  constructor(private readonly options: StringOptions = {}) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    const { min, max, pattern, email } = this.options;
+    if (typeof value !== 'string') return issue(path, 'invalid_type', `Expected string, received ${describe(value)}`);
+    if (min !== undefined && value.length < min) return issue(path, 'too_small', `Expected at least ${min} characters`);
+    if (max !== undefined && value.length > max) return issue(path, 'too_big', `Expected at most ${max} characters`);
+    if (email && !EMAIL_PATTERN.test(value)) return issue(path, 'invalid_email', 'Expected a valid email address');
+    if (pattern && !pattern.test(value)) return issue(path, 'invalid_format', `Expected to match ${pattern}`);
+    return [];
+  }
+}
+
+/**
+ * Options of number schemas.
+ * @typedef {Object} NumberOptions
+ */
+export interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+/**
+ * Schema of finite numbers.
+ */
+export class NumberSchema extends Schema<number> {
+  constructor(private readonly options: NumberOptions = {}) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    const { min, max, integer } = this.options;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return issue(path, 'invalid_type', `Expected number, received ${describe(value)}`);
+    }
+    if (integer && !Number.isInteger(value)) return issue(path, 'invalid_type', 'Expected integer');
+    if (min !== undefined && value < min) return issue(path, 'too_small', `Expected a number >= ${min}`);
+    if (max !== undefined && value > max) return issue(path, 'too_big', `Expected a number <= ${max}`);
+    return [];
+  }
+}
+
+/**
+ * Schema of values checked with typeof or instanceof.
+ */
+class PrimitiveSchema<T> extends Schema<T> {
+  constructor(private readonly name: string, private readonly is: (value: unknown) => boolean) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    return this.is(value) ? [] : issue(path, 'invalid_type', `Expected ${this.name}, received ${describe(value)}`);
+  }
+}
+
+/**
+ * Schema of one of a fixed set of values.
+ */
+export class EnumSchema<T extends string | number | boolean> extends Schema<T> {
+  constructor(private readonly values: readonly T[]) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    return this.values.includes(value as T)
+      ? []
+      : issue(path, 'invalid_value', `Expected one of ${this.values.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+}
+
+/**
+ * Schema of arrays.
+ */
+export class ArraySchema<T> extends Schema<T[]> {
+  constructor(private readonly item: IValidator<T>, private readonly options: { min?: number; max?: number } = {}) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    const { min, max } = this.options;
+    if (!Array.isArray(value)) return issue(path, 'invalid_type', `Expected array, received ${describe(value)}`);
+    if (min !== undefined && value.length < min) return issue(path, 'too_small', `Expected at least ${min} items`);
+    if (max !== undefined && value.length > max) return issue(path, 'too_big', `Expected at most ${max} items`);
+    return value.flatMap((item, index) => this.item.validate(item, [...path, index]));
+  }
+}
+
+/**
+ * Schema of plain objects with known keys.
+ */
+export class ObjectSchema<S extends Record<string, IValidator>> extends Schema<InferShape<S>> {
+  constructor(readonly shape: S, private readonly options: { strict?: boolean } = {}) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof Date) {
+      return issue(path, 'invalid_type', `Expected object, received ${describe(value)}`);
+    }
+    const record = value as Record<string, unknown>;
+    const issues = Object.keys(this.shape).flatMap(key => this.shape[key].validate(record[key], [...path, key]));
+    if (this.options.strict) {
+      for (const key of Object.keys(record)) {
+        if (!(key in this.shape)) issues.push(...issue([...path, key], 'unrecognized_key', `Unexpected key '${key}'`));
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Rejects keys that are not part of the shape.
+   * @returns {ObjectSchema<S>}
+   */
+  strict(): ObjectSchema<S> {
+    return new ObjectSchema(this.shape, { strict: true });
+  }
+}
+
+/**
+ * Schema of objects with arbitrary string keys.
+ */
+export class RecordSchema<T> extends Schema<Record<string, T>> {
+  constructor(private readonly value: IValidator<T>) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return issue(path, 'invalid_type', `Expected object, received ${describe(value)}`);
+    }
+    const record = value as Record<string, unknown>;
+    return Object.keys(record).flatMap(key => this.value.validate(record[key], [...path, key]));
+  }
+}
+
+/**
+ * Schema of values matching at least one of several schemas.
+ */
+export class UnionSchema<T> extends Schema<T> {
+  constructor(private readonly options: IValidator[]) {
+    super();
+  }
+
+  validate(value: unknown, path: PathSegment[] = []): ValidationIssue[] {
+    const results = this.options.map(option => option.validate(value, path));
+    if (results.some(issues => issues.length === 0)) return [];
+    return issue(path, 'invalid_union', results.map(issues => issues[0]?.message).join(' | '));
+  }
+}
+
+/**
+ * Builders of the built-in schemas.
+ */
+export const schema = {
+  string: (options?: StringOptions) => new StringSchema(options),
+  number: (options?: NumberOptions) => new NumberSchema(options),
+  boolean: () => new PrimitiveSchema<boolean>('boolean', value => typeof value === 'boolean'),
+  date: () =>
+    new PrimitiveSchema<Date>('date', value => value instanceof Date && !Number.isNaN(value.getTime())),
+  any: () => new PrimitiveSchema<any>('any', () => true),
+  literal: <T extends string | number | boolean>(value: T) => new EnumSchema<T>([value]),
+  enum: <T extends string | number | boolean>(values: readonly T[]) => new EnumSchema<T>(values),
+  array: <T>(item: IValidator<T>, options?: { min?: number; max?: number }) => new ArraySchema<T>(item, options),
+  object: <S extends Record<string, IValidator>>(shape: S) => new ObjectSchema<S>(shape),
+  record: <T>(value: IValidator<T>) => new RecordSchema<T>(value),
+  union: <V extends IValidator[]>(...options: V) => new UnionSchema<Infer<V[number]>>(options)
+};
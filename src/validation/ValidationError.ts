@@ -0,0 +1,33 @@
+// validation/ValidationError.ts - Ошибка проверки сообщения с подробностями по путям
+import { PathSegment, ValidationIssue } from './Schema';
+import { ErrorCode, TypeBusError, TypeBusErrorOptions } from '../errors/TypeBusError';
+
+/**
+ * Formats a path as a property access expression, e.g. `items[0].price`.
+ * @param {PathSegment[]} path
+ * @returns {string}
+ */
+export function formatPath(path: PathSegment[]): string {
+  return path.reduce<string>(
+    (result, segment) => (typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment),
+    ''
+  );
+}
+
+/**
+ * Error thrown for messages whose payload does not match their schema.
+ */
+export class ValidationError extends TypeBusError {
+  declare readonly messageType: string;
+
+  /**
+   * @param {string} messageType - Type of the rejected message.
+   * @param {ValidationIssue[]} issues - Path-level problems found in the payload.
+   * @param {TypeBusErrorOptions} [options]
+   */
+  constructor(messageType: string, public readonly issues: ValidationIssue[], options: TypeBusErrorOptions = {}) {
+    const details = issues.map(issue => `${formatPath(issue.path) || '(root)'}: ${issue.message}`).join('; ');
+    super(ErrorCode.VALIDATION_FAILED, `Invalid ${messageType}: ${details}`, { ...options, messageType });
+    this.name = 'ValidationError';
+  }
+}
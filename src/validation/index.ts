@@ -0,0 +1,6 @@
+/**
+ * Exports the schema DSL and message validation helpers.
+ */
+export * from './Schema';
+export * from './ValidationError';
+export * from './MessageSchemas';
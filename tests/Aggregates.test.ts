@@ -0,0 +1,298 @@
+import {
+  TypeBus,
+  AggregateRoot,
+  Repository,
+  InMemoryEventStore,
+  ConcurrencyError,
+  EventMap,
+  SnapshotCapable,
+  InMemorySnapshotStore,
+  EveryNEventsSnapshotPolicy,
+  OnDemandSnapshotPolicy,
+  TimeBasedSnapshotPolicy,
+  createCommand,
+  createEventHandler
+} from '../src';
+
+type UserState = { name: string; email: string; deleted: boolean };
+
+class UserAggregate extends AggregateRoot<EventMap> implements SnapshotCapable<UserState> {
+  name = '';
+  email = '';
+  deleted = false;
+
+  constructor(id: string) {
+    super(id);
+    this.when('User.Created', data => {
+      this.name = data.name;
+      this.email = data.email;
+    });
+    this.when('User.ProfileUpdated', data => {
+      Object.assign(this, data.changes);
+    });
+    this.when('User.Deleted', () => {
+      this.deleted = true;
+    });
+  }
+
+  create(name: string, email: string): void {
+    if (this.version > 0) throw new Error('User already exists');
+    this.apply('User.Created', { name, email });
+  }
+
+  rename(name: string): void {
+    this.apply('User.ProfileUpdated', { changes: { name } });
+  }
+
+  getSnapshotState(): UserState {
+    return { name: this.name, email: this.email, deleted: this.deleted };
+  }
+
+  restoreSnapshotState(state: UserState): void {
+    Object.assign(this, state);
+  }
+}
+
+describe('Aggregates', () => {
+  let bus: TypeBus;
+  let repository: Repository<UserAggregate, EventMap>;
+
+  beforeEach(() => {
+    bus = new TypeBus({ enableLogging: false, eventStore: new InMemoryEventStore() });
+    repository = new Repository(bus, id => new UserAggregate(id));
+  });
+
+  it('should track uncommitted events raised with apply', () => {
+    const user = new UserAggregate('user-1');
+    user.create('John', 'john@example.com');
+    user.rename('Johnny');
+
+    expect(user.name).toBe('Johnny');
+    expect(user.version).toBe(2);
+    expect(user.committedVersion).toBe(0);
+    expect(user.getUncommittedEvents().map(e => e.type)).toEqual(['User.Created', 'User.ProfileUpdated']);
+  });
+
+  it('should save through the bus and rehydrate from the stream', async () => {
+    const published: number[] = [];
+    createEventHandler(bus, 'User.Created', async (_data, _id, version) => {
+      published.push(version);
+    });
+
+    const user = await repository.load('user-1');
+    user.create('John', 'john@example.com');
+    await repository.save(user);
+
+    expect(published).toEqual([1]);
+    expect(user.getUncommittedEvents()).toHaveLength(0);
+
+    await repository.update('user-1', loaded => loaded.rename('Johnny'));
+
+    const reloaded = await repository.load('user-1');
+    expect(reloaded.name).toBe('Johnny');
+    expect(reloaded.email).toBe('john@example.com');
+    expect(reloaded.version).toBe(2);
+    expect(await repository.exists('user-1')).toBe(true);
+    expect(await repository.exists('user-2')).toBe(false);
+  });
+
+  it('should store and deliver the events the aggregate raised', async () => {
+    const delivered: string[] = [];
+    bus.registerEventHandler('User.Created', {
+      handle: async event => {
+        delivered.push(event.id);
+      }
+    });
+
+    const user = await repository.load('user-1');
+    user.create('John', 'john@example.com');
+    const [raised] = user.getUncommittedEvents();
+    await repository.save(user);
+
+    const [stored] = await bus.getEventStore()!.readStream('user-1');
+    expect(stored).toMatchObject({ id: raised.id, timestamp: raised.timestamp, correlationId: raised.correlationId });
+    expect(delivered).toEqual([raised.id]);
+  });
+
+  it('should reject saving a stale aggregate', async () => {
+    const first = await repository.load('user-1');
+    const second = await repository.load('user-1');
+    first.create('John', 'john@example.com');
+    second.create('Jane', 'jane@example.com');
+
+    await repository.save(first);
+    await expect(repository.save(second)).rejects.toBeInstanceOf(ConcurrencyError);
+  });
+
+  it('should append the whole batch at once and keep it committed when a dispatch fails', async () => {
+    const append = jest.spyOn(bus.getEventStore()!, 'append');
+    const delivered: string[] = [];
+    createEventHandler(bus, 'User.Created', async () => {
+      throw new Error('Handler failed');
+    });
+    createEventHandler(bus, 'User.ProfileUpdated', async data => {
+      delivered.push(data.changes.name);
+    });
+    const user = await repository.load('user-1');
+    user.create('John', 'john@example.com');
+    user.rename('Johnny');
+    const raised = user.getUncommittedEvents();
+
+    await expect(repository.save(user)).rejects.toThrow('Handler failed');
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(append).toHaveBeenCalledWith('user-1', raised, 0);
+    expect(user.committedVersion).toBe(2);
+    expect(user.getUncommittedEvents()).toEqual([]);
+    expect(delivered).toEqual([]);
+
+    const reloaded = await repository.load('user-1');
+    expect(reloaded.version).toBe(2);
+    expect(reloaded.name).toBe('Johnny');
+  });
+
+  it('should store none of the events when appending the batch fails', async () => {
+    const eventStore = bus.getEventStore()!;
+    const append = eventStore.append.bind(eventStore);
+    jest.spyOn(eventStore, 'append').mockImplementation(async (aggregateId, events, expectedVersion) => {
+      if (events.some(event => event.type === 'User.ProfileUpdated')) throw new Error('Store unavailable');
+      return append(aggregateId, events, expectedVersion);
+    });
+    const user = await repository.load('user-1');
+    user.create('John', 'john@example.com');
+    user.rename('Johnny');
+
+    await expect(repository.save(user)).rejects.toThrow('Store unavailable');
+    expect(user.getUncommittedEvents()).toHaveLength(2);
+    expect(await eventStore.getStreamVersion('user-1')).toBe(0);
+  });
+
+  it('should give command handlers access to the aggregate behind aggregateId', async () => {
+    const CreateUser = createCommand(bus, 'User.CreateUser', async (data, aggregateId) => {
+      const user = await repository.load(aggregateId);
+      user.create(data.name, data.email);
+      await repository.save(user);
+      return { userId: aggregateId, events: ['User.Created'] };
+    });
+
+    await CreateUser.execute({ name: 'John', email: 'john@example.com', password: 'secret' }, 'user-1');
+
+    await expect(
+      CreateUser.execute({ name: 'John', email: 'john@example.com', password: 'secret' }, 'user-1')
+    ).rejects.toThrow('User already exists');
+  });
+
+  it('should require a bus with an event store', () => {
+    expect(() => new Repository(new TypeBus({ enableLogging: false }), id => new UserAggregate(id))).toThrow(
+      'eventStore'
+    );
+  });
+
+  describe('Snapshots', () => {
+    let eventStore: InMemoryEventStore;
+    let snapshotStore: InMemorySnapshotStore;
+
+    beforeEach(() => {
+      eventStore = new InMemoryEventStore();
+      snapshotStore = new InMemorySnapshotStore();
+      bus = new TypeBus({ enableLogging: false, eventStore });
+    });
+
+    it('should not snapshot events a unit of work has not committed', async () => {
+      bus = new TypeBus({ enableLogging: false, eventStore, unitOfWork: true });
+      const users = new Repository(bus, id => new UserAggregate(id), {
+        snapshots: { store: snapshotStore, policy: new EveryNEventsSnapshotPolicy(1) }
+      });
+      let fail = true;
+      createCommand(bus, 'User.CreateUser', async (data, aggregateId) => {
+        await users.update(aggregateId, user => user.create(data.name, data.email));
+        if (fail) throw new Error('Command failed');
+        return { userId: aggregateId, events: ['User.Created'] };
+      });
+      const data = { name: 'John', email: 'john@example.com', password: 'secret' };
+
+      await expect(bus.executeCommand('User.CreateUser', data, 'user-1')).rejects.toThrow('Command failed');
+      expect(await snapshotStore.load('user-1')).toBeUndefined();
+
+      fail = false;
+      await bus.executeCommand('User.CreateUser', data, 'user-1');
+      const user = await users.load('user-1');
+      expect(user.version).toBe(1);
+      expect((await snapshotStore.load('user-1'))?.version).toBe(1);
+    });
+
+    it('should snapshot every N events and replay only the tail', async () => {
+      const users = new Repository(bus, id => new UserAggregate(id), {
+        snapshots: { store: snapshotStore, policy: new EveryNEventsSnapshotPolicy(2) }
+      });
+
+      await users.update('user-1', user => user.create('John', 'john@example.com'));
+      expect(await snapshotStore.load('user-1')).toBeUndefined();
+
+      await users.update('user-1', user => user.rename('Johnny'));
+      await users.update('user-1', user => user.rename('Jack'));
+      expect((await snapshotStore.load('user-1'))?.version).toBe(2);
+
+      const readStream = jest.spyOn(eventStore, 'readStream');
+      const user = await users.load('user-1');
+      expect(readStream).toHaveBeenCalledWith('user-1', 3);
+      expect(user.name).toBe('Jack');
+      expect(user.version).toBe(3);
+    });
+
+    it('should discard and rebuild snapshots with another schema version', async () => {
+      const users = new Repository(bus, id => new UserAggregate(id), {
+        snapshots: { store: snapshotStore, policy: new EveryNEventsSnapshotPolicy(1) }
+      });
+      await users.update('user-1', user => user.create('John', 'john@example.com'));
+      await snapshotStore.save({ ...(await snapshotStore.load('user-1'))!, state: { legacy: true } });
+
+      const upgraded = new Repository(bus, id => new UserAggregate(id), {
+        snapshots: { store: snapshotStore, policy: new OnDemandSnapshotPolicy(), schemaVersion: 2 }
+      });
+      const user = await upgraded.load('user-1');
+
+      expect(user.name).toBe('John');
+      const snapshot = await snapshotStore.load('user-1');
+      expect(snapshot?.schemaVersion).toBe(2);
+      expect(snapshot?.state).toEqual({ name: 'John', email: 'john@example.com', deleted: false });
+    });
+
+    it('should take snapshots on demand only', async () => {
+      const users = new Repository(bus, id => new UserAggregate(id), {
+        snapshots: { store: snapshotStore, policy: new OnDemandSnapshotPolicy() }
+      });
+      const user = await users.load('user-1');
+      user.create('John', 'john@example.com');
+      await users.save(user);
+      expect(await snapshotStore.load('user-1')).toBeUndefined();
+
+      const snapshot = await users.snapshot(user);
+      expect(snapshot.version).toBe(1);
+      expect(await snapshotStore.load('user-1')).toBe(snapshot);
+    });
+
+    it('should take time-based snapshots once the interval has passed', () => {
+      const policy = new TimeBasedSnapshotPolicy(60000);
+      const snapshot = {
+        aggregateId: 'user-1',
+        version: 1,
+        schemaVersion: 1,
+        state: {},
+        timestamp: new Date(Date.now() - 120000)
+      };
+
+      expect(policy.shouldSnapshot({ aggregateId: 'user-1', version: 1, eventsSinceSnapshot: 1 })).toBe(true);
+      expect(
+        policy.shouldSnapshot({ aggregateId: 'user-1', version: 2, eventsSinceSnapshot: 1, lastSnapshot: snapshot })
+      ).toBe(true);
+      expect(
+        policy.shouldSnapshot({
+          aggregateId: 'user-1',
+          version: 2,
+          eventsSinceSnapshot: 1,
+          lastSnapshot: { ...snapshot, timestamp: new Date() }
+        })
+      ).toBe(false);
+    });
+  });
+});
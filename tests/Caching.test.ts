@@ -0,0 +1,139 @@
+import {
+  TypeBus,
+  QueryCache,
+  InMemoryCacheStore,
+  CommandMap,
+  QueryMap,
+  EventMap,
+  canonicalKey,
+  createQuery,
+  QueryCacheAttachedError
+} from '../src';
+
+describe('Query caching', () => {
+  const order = { userId: 'user-1', items: [{ productId: 'p-1', quantity: 1, price: 10 }], totalAmount: 10 };
+  let bus: TypeBus<CommandMap, QueryMap, EventMap>;
+  let statsHandler: jest.Mock;
+  let historyHandler: jest.Mock;
+
+  beforeEach(() => {
+    bus = new TypeBus<CommandMap, QueryMap, EventMap>({ enableLogging: false });
+    statsHandler = jest.fn(async ({ userId }) => ({ userId, totalOrders: 1, totalSpent: 10 }));
+    historyHandler = jest.fn(async ({ page = 1 }) => ({ orders: [], total: 0, page }));
+    createQuery(bus, 'User.GetUserStats', statsHandler);
+    createQuery(bus, 'Order.GetOrderHistory', historyHandler);
+  });
+
+  afterEach(() => {
+    bus.clear();
+  });
+
+  it('should serve repeated queries from the cache and count hits and misses', async () => {
+    new QueryCache(bus, { queries: { 'User.GetUserStats': { ttl: 1000 } } });
+
+    await bus.executeQuery('User.GetUserStats', { userId: 'user-1' });
+    await bus.executeQuery('User.GetUserStats', { userId: 'user-1' });
+    await bus.executeQuery('User.GetUserStats', { userId: 'user-2' });
+    await bus.executeQuery('Order.GetOrderHistory', { userId: 'user-1' });
+    await bus.executeQuery('Order.GetOrderHistory', { userId: 'user-1' });
+
+    expect(statsHandler).toHaveBeenCalledTimes(2);
+    expect(historyHandler).toHaveBeenCalledTimes(2);
+    expect(bus.getCacheStats()).toEqual({
+      hits: 1,
+      misses: 2,
+      hitRate: 1 / 3,
+      invalidations: 0,
+      queries: { 'User.GetUserStats': { hits: 1, misses: 2 } }
+    });
+  });
+
+  it('should derive equal keys for equal params and expire entries after the TTL', async () => {
+    new QueryCache(bus, { queries: { 'Order.GetOrderHistory': { ttl: 20 } } });
+
+    await bus.executeQuery('Order.GetOrderHistory', { userId: 'user-1', page: 1, limit: 10 });
+    await bus.executeQuery('Order.GetOrderHistory', { limit: 10, page: 1, userId: 'user-1' });
+    expect(historyHandler).toHaveBeenCalledTimes(1);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await bus.executeQuery('Order.GetOrderHistory', { userId: 'user-1', page: 1, limit: 10 });
+    expect(historyHandler).toHaveBeenCalledTimes(2);
+    expect(canonicalKey({ b: 1, a: [{ d: 1, c: 2 }] })).toBe('{"a":[{"c":2,"d":1}],"b":1}');
+  });
+
+  it('should evict entries when invalidating events are published', async () => {
+    const store = new InMemoryCacheStore();
+    new QueryCache(bus, {
+      store,
+      queries: {
+        'User.GetUserStats': {
+          invalidatedBy: { 'Order.Created': event => ({ userId: event.data.userId }) }
+        },
+        'Order.GetOrderHistory': {
+          key: params => `${params.userId}:${params.page ?? 1}`,
+          invalidatedBy: ['Order.Created']
+        }
+      }
+    });
+
+    await bus.executeQuery('User.GetUserStats', { userId: 'user-1' });
+    await bus.executeQuery('User.GetUserStats', { userId: 'user-2' });
+    await bus.executeQuery('Order.GetOrderHistory', { userId: 'user-2', page: 1 });
+    await bus.executeQuery('Order.GetOrderHistory', { userId: 'user-2', page: 2 });
+
+    await bus.publishEvent('Order.Created', order, 'order-1', 1);
+
+    expect(await store.get('User.GetUserStats', canonicalKey({ userId: 'user-1' }))).toBeUndefined();
+    expect(await store.get('User.GetUserStats', canonicalKey({ userId: 'user-2' }))).toBeDefined();
+    expect(await store.get('Order.GetOrderHistory', 'user-2:1')).toBeUndefined();
+    expect(bus.getCacheStats()?.invalidations).toBe(3);
+  });
+
+  it('should not cache results computed while an invalidating event was handled', async () => {
+    const cache = new QueryCache(bus, {
+      queries: { 'User.GetUserStats': { invalidatedBy: ['Order.Created'] } }
+    });
+    let release!: () => void;
+    statsHandler.mockImplementationOnce(async ({ userId }) => {
+      await new Promise<void>(resolve => (release = resolve));
+      return { userId, totalOrders: 0, totalSpent: 0 };
+    });
+
+    const stale = bus.executeQuery('User.GetUserStats', { userId: 'user-1' });
+    await new Promise(resolve => setImmediate(resolve));
+    await bus.publishEvent('Order.Created', order, 'order-1', 1);
+    release();
+
+    expect((await stale).totalOrders).toBe(0);
+    expect((await bus.executeQuery('User.GetUserStats', { userId: 'user-1' })).totalOrders).toBe(1);
+    expect(await cache.invalidate('User.GetUserStats')).toBe(1);
+  });
+
+  it('should refuse to attach a second query cache with a typed error', () => {
+    const queries = { 'User.GetUserStats': { invalidatedBy: ['Order.Created' as const] } };
+    new QueryCache(bus, { queries });
+    const stats = bus.getStats();
+
+    let error: unknown;
+    try {
+      new QueryCache(bus, { queries });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(QueryCacheAttachedError);
+    expect(error).toMatchObject({ code: 'QUERY_CACHE_ATTACHED' });
+    expect(bus.getStats()).toEqual(stats);
+  });
+
+  it('should detach from the bus when disposed', async () => {
+    const cache = new QueryCache(bus, { queries: { 'User.GetUserStats': { invalidatedBy: ['Order.Created'] } } });
+    cache.dispose();
+
+    expect(bus.getStats()).toMatchObject({ eventHandlers: 0, middleware: 0 });
+    expect(bus.getCacheStats()).toBeUndefined();
+    await bus.executeQuery('User.GetUserStats', { userId: 'user-1' });
+    await bus.executeQuery('User.GetUserStats', { userId: 'user-1' });
+    expect(statsHandler).toHaveBeenCalledTimes(2);
+    expect(() => new QueryCache(bus, { queries: {} })).not.toThrow();
+  });
+});
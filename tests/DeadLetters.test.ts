@@ -0,0 +1,146 @@
+import {
+  TypeBus,
+  InMemoryDeadLetterStore,
+  DeadLetterQueue,
+  IMiddleware,
+  createEventHandler,
+  createFluentBuilder
+} from '../src';
+
+describe('Dead-letter queue', () => {
+  const created = { name: 'John', email: 'john@example.com' };
+  let store: InMemoryDeadLetterStore;
+  let bus: TypeBus;
+  let queue: DeadLetterQueue;
+  let mailServerUp: boolean;
+  let sent: string[];
+  let indexed: string[];
+
+  beforeEach(() => {
+    store = new InMemoryDeadLetterStore();
+    bus = new TypeBus({ enableLogging: false, deadLetterStore: store });
+    queue = new DeadLetterQueue(bus);
+    mailServerUp = false;
+    sent = [];
+    indexed = [];
+    bus.registerEventHandler('User.Created', {
+      name: 'welcome-mail',
+      handle: async event => {
+        if (!mailServerUp) throw new Error('Mail server down');
+        sent.push(event.aggregateId);
+      }
+    });
+    createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+      indexed.push(aggregateId);
+    });
+  });
+
+  it('should capture failed deliveries without failing the publish or other handlers', async () => {
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+
+    const [letter] = await queue.list();
+    expect(indexed).toEqual(['user-1']);
+    expect(letter).toMatchObject({
+      handler: 'welcome-mail',
+      attempts: 1,
+      error: { name: 'Error', message: 'Mail server down' },
+      event: { type: 'User.Created', aggregateId: 'user-1', data: created }
+    });
+    expect(await queue.inspect(letter.id)).toEqual(letter);
+  });
+
+  it('should count failed retries and remove dead letters once delivered', async () => {
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+    const [letter] = await queue.list({ handler: 'welcome-mail' });
+
+    expect(await queue.retry(letter.id)).toBe(false);
+    expect((await queue.inspect(letter.id))?.attempts).toBe(2);
+
+    mailServerUp = true;
+    expect(await queue.retry(letter.id)).toBe(true);
+    expect(sent).toEqual(['user-1']);
+    expect(indexed).toEqual(['user-1']);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('should redrive matching dead letters through the middleware pipeline', async () => {
+    const seen: Array<string | undefined> = [];
+    const audit: IMiddleware = {
+      execute: async (message, next) => {
+        seen.push((message as any).aggregateId);
+        return next(message);
+      }
+    };
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+    await bus.publishEvent('User.Created', created, 'user-2', 1);
+    bus.use(audit);
+
+    mailServerUp = true;
+    expect(await queue.redrive({ eventType: 'User.Created' })).toEqual({ succeeded: 2, failed: 0 });
+    expect(sent).toEqual(['user-1', 'user-2']);
+    expect(seen).toEqual(['user-1', 'user-2']);
+  });
+
+  it('should discard dead letters and number unnamed handlers in registration order', async () => {
+    createEventHandler(bus, 'User.Created', async () => {
+      throw new Error('Search index unavailable');
+    });
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+
+    const letters = await queue.list();
+    expect(letters.map(letter => letter.handler)).toEqual(['welcome-mail', '#2']);
+    expect(await queue.discard(letters[1].id)).toBe(true);
+    expect(await queue.list()).toHaveLength(1);
+  });
+
+  it('should identify builder handlers by the given name or the name of their logic', async () => {
+    const updateSearchIndex = async (): Promise<void> => {
+      throw new Error('Search index unavailable');
+    };
+    createEventHandler(bus, 'User.Created', updateSearchIndex);
+    createEventHandler(bus, 'User.Created', updateSearchIndex, 'search-index');
+    createFluentBuilder(bus).event('User.Created', 'audit-log').handle(updateSearchIndex);
+    mailServerUp = true;
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+
+    const letters = await queue.list();
+    expect(letters.map(letter => letter.handler)).toEqual(['updateSearchIndex', 'search-index', 'audit-log']);
+  });
+
+  it('should give each registration its own id that survives removing other handlers', async () => {
+    const calls: string[] = [];
+    const register = (name: string | undefined, label: string) =>
+      bus.registerEventHandler('User.Created', {
+        name,
+        handle: async () => {
+          calls.push(label);
+          throw new Error(`${label} failed`);
+        }
+      });
+    const removeFirst = register('audit', 'first');
+    register('audit', 'second');
+    register(undefined, 'third');
+    mailServerUp = true;
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+
+    const letters = await queue.list();
+    expect(letters.map(letter => letter.handler)).toEqual(['audit', 'audit#3', '#4']);
+
+    removeFirst();
+    calls.length = 0;
+    expect(await queue.retry(letters[1].id)).toBe(false);
+    expect(await queue.retry(letters[2].id)).toBe(false);
+    expect(calls).toEqual(['second', 'third']);
+    await expect(bus.redeliverEvent(letters[0].event, 'audit')).rejects.toThrow("No handler 'audit'");
+  });
+
+  it('should keep rejecting publishes when no dead-letter store is configured', async () => {
+    const plainBus = new TypeBus({ enableLogging: false });
+    createEventHandler(plainBus, 'User.Created', async () => {
+      throw new Error('Mail server down');
+    });
+
+    await expect(plainBus.publishEvent('User.Created', created, 'user-1', 1)).rejects.toThrow('Mail server down');
+    expect(() => new DeadLetterQueue(plainBus)).toThrow('deadLetterStore');
+  });
+});
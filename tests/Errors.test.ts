@@ -0,0 +1,130 @@
+import {
+  TypeBus,
+  TypeBusError,
+  ErrorCode,
+  HandlerNotFoundError,
+  DuplicateHandlerError,
+  MiddlewareLimitError,
+  MessageTimeoutError,
+  ConcurrencyError,
+  ValidationError,
+  EventDispatchError,
+  InMemoryEventStore,
+  ValidationMiddleware,
+  defineSchemas,
+  schema,
+  toProblemDetails,
+  createCommand,
+  createQuery,
+  createEventHandler
+} from '../src';
+
+describe('Errors', () => {
+  const data = { name: 'John', email: 'john@example.com', password: 'secret' };
+  let bus: TypeBus;
+
+  beforeEach(() => {
+    bus = new TypeBus({ enableLogging: false });
+  });
+
+  it('should throw typed errors with codes, message type and id for bus failures', async () => {
+    const missing = await bus.executeCommand('User.CreateUser', data, 'user-1').catch(e => e);
+    expect(missing).toBeInstanceOf(HandlerNotFoundError);
+    expect(missing).toBeInstanceOf(TypeBusError);
+    expect(missing).toMatchObject({ code: ErrorCode.HANDLER_NOT_FOUND, messageType: 'User.CreateUser', kind: 'command' });
+    expect(missing.messageId).toEqual(expect.any(String));
+
+    createQuery(bus, 'User.GetUser', async () => null);
+    expect(() => createQuery(bus, 'User.GetUser', async () => null)).toThrow(DuplicateHandlerError);
+
+    const limited = new TypeBus({ enableLogging: false, maxMiddleware: 0 });
+    let limit: unknown;
+    try {
+      limited.use({ execute: (message, next) => next(message) });
+    } catch (error) {
+      limit = error;
+    }
+    expect(limit).toBeInstanceOf(MiddlewareLimitError);
+    expect(limit).toMatchObject({ code: 'MIDDLEWARE_LIMIT', limit: 0 });
+  });
+
+  it('should abort slow dispatches with a MessageTimeoutError', async () => {
+    const timed = new TypeBus({ enableLogging: false, queryTimeout: 10 });
+    createQuery(timed, 'User.GetUser', () => new Promise(resolve => setTimeout(() => resolve(null), 50)));
+
+    const error = await timed.executeQuery('User.GetUser', { userId: 'user-1' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(MessageTimeoutError);
+    expect(error).toMatchObject({ code: 'MESSAGE_TIMEOUT', messageType: 'User.GetUser', timeout: 10 });
+    expect(error.message).toBe('User.GetUser timed out after 10ms');
+  });
+
+  it('should attach the offending message to errors of other subsystems', async () => {
+    const stored = new TypeBus({ enableLogging: false, eventStore: new InMemoryEventStore() });
+    const conflict = await stored
+      .publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 2)
+      .catch(e => e);
+    expect(conflict).toBeInstanceOf(ConcurrencyError);
+    expect(conflict).toMatchObject({ code: 'CONCURRENCY_CONFLICT', messageType: 'User.Created' });
+
+    const failure = new Error('SMTP down');
+    const settling = new TypeBus({ enableLogging: false, eventDispatch: 'parallel-settle-all' });
+    createEventHandler(settling, 'User.Created', async () => {
+      throw failure;
+    });
+    const dispatch = await settling
+      .publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1)
+      .catch(e => e);
+    expect(dispatch).toBeInstanceOf(EventDispatchError);
+    expect(dispatch.cause).toBe(failure);
+  });
+
+  describe('toProblemDetails', () => {
+    it('should map validation errors with their issues', async () => {
+      const schemas = defineSchemas({
+        commands: {
+          'User.CreateUser': schema.object({
+            name: schema.string(),
+            email: schema.string({ email: true }),
+            password: schema.string()
+          })
+        }
+      });
+      bus.use(new ValidationMiddleware(schemas));
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => ({ userId: aggregateId, events: [] }));
+      const error = await bus.executeCommand('User.CreateUser', { ...data, email: 'nope' }, 'user-1').catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(toProblemDetails(error, { typeBaseUri: 'https://errors.example.com/', instance: '/users' })).toEqual({
+        type: 'https://errors.example.com/validation-failed',
+        title: 'Validation failed',
+        status: 400,
+        detail: error.message,
+        code: 'VALIDATION_FAILED',
+        instance: '/users',
+        messageType: 'User.CreateUser',
+        messageId: error.messageId,
+        issues: [{ path: ['email'], code: 'invalid_email', message: 'Expected a valid email address' }]
+      });
+    });
+
+    it('should include the cause chain only on request and hide unknown errors', () => {
+      const root = new Error('connection reset');
+      const error = new MessageTimeoutError('User.GetUser', 100, { cause: root });
+
+      expect(toProblemDetails(error).cause).toBeUndefined();
+      expect(toProblemDetails(error, { includeCause: true, statuses: { MESSAGE_TIMEOUT: 503 } })).toMatchObject({
+        status: 503,
+        timeout: 100,
+        cause: { name: 'Error', message: 'connection reset' }
+      });
+      expect(JSON.parse(JSON.stringify(toProblemDetails(new Error('secret'))))).toEqual({
+        type: 'about:blank',
+        title: 'Internal server error',
+        status: 500,
+        detail: 'An unexpected error occurred',
+        code: 'INTERNAL_ERROR'
+      });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { TypeBus, EventQueueFullError, createCommand, createEventHandler, getDispatchContext } from '../src';
+
+describe('Background event queue', () => {
+  const created = { name: 'John', email: 'john@example.com' };
+  const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+  it('should return from publishEvent once queued and drain when done', async () => {
+    const bus = new TypeBus({ enableLogging: false, eventQueue: {} });
+    const sent: string[] = [];
+    createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+      await sleep(10);
+      sent.push(aggregateId);
+    });
+
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+    await bus.publishEvent('User.Created', created, 'user-2', 1);
+    expect(sent).toEqual([]);
+
+    await bus.drain();
+    expect(sent).toEqual(['user-1', 'user-2']);
+    expect(bus.getEventQueueStats()).toEqual({ queued: 0, inFlight: 0, processed: 2, failed: 0, dropped: 0 });
+  });
+
+  it('should limit concurrency per event type', async () => {
+    const bus = new TypeBus({
+      enableLogging: false,
+      eventQueue: { concurrency: 1 },
+      policies: { 'Order.*': { concurrency: 3 } }
+    });
+    const running: Record<string, number> = {};
+    const peak: Record<string, number> = {};
+    const track = (type: string) => async () => {
+      running[type] = (running[type] ?? 0) + 1;
+      peak[type] = Math.max(peak[type] ?? 0, running[type]);
+      await sleep(5);
+      running[type]--;
+    };
+    createEventHandler(bus, 'User.Created', track('user'));
+    createEventHandler(bus, 'Order.Cancelled', track('order'));
+
+    for (let i = 0; i < 4; i++) {
+      await bus.publishEvent('User.Created', created, `user-${i}`, 1);
+      await bus.publishEvent('Order.Cancelled', { reason: '', refundAmount: 0 }, `order-${i}`, 1);
+    }
+    await bus.drain();
+
+    expect(peak).toEqual({ user: 1, order: 3 });
+  });
+
+  it('should drop or reject events when the queue is full', async () => {
+    const dropping = new TypeBus({ enableLogging: false, eventQueue: { maxSize: 1, overflow: 'drop' } });
+    const rejecting = new TypeBus({ enableLogging: false, eventQueue: { maxSize: 1, overflow: 'reject' } });
+    for (const bus of [dropping, rejecting]) {
+      createEventHandler(bus, 'User.Created', () => sleep(10));
+      await bus.publishEvent('User.Created', created, 'user-1', 1); // taken by a worker
+      await bus.publishEvent('User.Created', created, 'user-2', 1); // waits in the queue
+    }
+
+    await dropping.publishEvent('User.Created', created, 'user-3', 1);
+    await expect(rejecting.publishEvent('User.Created', created, 'user-3', 1)).rejects.toBeInstanceOf(
+      EventQueueFullError
+    );
+
+    await Promise.all([dropping.drain(), rejecting.drain()]);
+    expect(dropping.getEventQueueStats()).toMatchObject({ processed: 2, dropped: 1 });
+    expect(rejecting.getEventQueueStats()).toMatchObject({ processed: 2, dropped: 0 });
+  });
+
+  it('should block publishers until there is space', async () => {
+    const bus = new TypeBus({ enableLogging: false, eventQueue: { maxSize: 1, overflow: 'block' } });
+    const handled: string[] = [];
+    createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+      await sleep(10);
+      handled.push(aggregateId);
+    });
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+    await bus.publishEvent('User.Created', created, 'user-2', 1);
+
+    await bus.publishEvent('User.Created', created, 'user-3', 1);
+    expect(handled).toEqual(['user-1']);
+
+    const controller = new AbortController();
+    const blocked = bus.publishEvent('User.Created', created, 'user-4', 1, {}, { signal: controller.signal });
+    controller.abort(new Error('Gave up'));
+    await expect(blocked).rejects.toThrow('Gave up');
+
+    await bus.drain();
+    expect(handled).toEqual(['user-1', 'user-2', 'user-3']);
+  });
+
+  it('should not block events published by queued handlers', async () => {
+    const bus = new TypeBus({ enableLogging: false, eventQueue: { maxSize: 1, overflow: 'block', concurrency: 1 } });
+    const handled: string[] = [];
+    createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+      if (aggregateId === 'user-1') {
+        await sleep(5);
+        await bus.publishEvent('User.Created', created, 'user-1-follow-up', 1);
+      }
+      handled.push(aggregateId);
+    });
+    await bus.publishEvent('User.Created', created, 'user-1', 1);
+    await bus.publishEvent('User.Created', created, 'user-2', 1);
+
+    await bus.drain();
+    expect(handled).toEqual(['user-1', 'user-2', 'user-1-follow-up']);
+    expect(bus.getEventQueueStats()).toMatchObject({ processed: 3, failed: 0 });
+  });
+
+  it('should report failures and detach dispatches from the publisher', async () => {
+    const errors: string[] = [];
+    const bus = new TypeBus({
+      enableLogging: false,
+      eventQueue: { onError: error => errors.push((error as Error).message) }
+    });
+    let detachedSignal: AbortSignal | undefined;
+    createEventHandler(bus, 'User.Created', async () => {
+      detachedSignal = getDispatchContext()!.signal;
+      await sleep(10);
+      throw new Error('Mail server down');
+    });
+    createCommand(bus, 'User.CreateUser', async (data, aggregateId) => {
+      await bus.publishEvent('User.Created', { name: data.name, email: data.email }, aggregateId, 1);
+      return { userId: aggregateId, events: ['User.Created'] };
+    });
+
+    const controller = new AbortController();
+    await bus.executeCommand('User.CreateUser', { ...created, password: 'secret' }, 'user-1', {}, {
+      signal: controller.signal
+    });
+    controller.abort();
+    await bus.drain();
+
+    expect(errors).toEqual(['Mail server down']);
+    expect(detachedSignal?.aborted).toBe(false);
+    expect(bus.getEventQueueStats()?.failed).toBe(1);
+  });
+
+  it('should log failures by default only when the bus logs', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    for (const enableLogging of [false, true]) {
+      const bus = new TypeBus({ enableLogging, logLevel: 'error', eventQueue: {} });
+      createEventHandler(bus, 'User.Created', async () => {
+        throw new Error('Mail server down');
+      });
+      await bus.publishEvent('User.Created', created, 'user-1', 1);
+      await bus.drain();
+    }
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0]).toBe('❌ [event-queue] Background dispatch of User.Created failed:');
+    error.mockRestore();
+  });
+});
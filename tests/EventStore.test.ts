@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TypeBus,
+  MessageFactory,
+  InMemoryEventStore,
+  FileEventStore,
+  ConcurrencyError,
+  createEventHandler
+} from '../src';
+
+describe('Event Store', () => {
+  const factory = new MessageFactory();
+  const userCreated = (aggregateId: string, version: number) =>
+    factory.createEvent('User.Created', { name: 'John', email: 'john@example.com' }, aggregateId, version);
+
+  describe('InMemoryEventStore', () => {
+    let store: InMemoryEventStore;
+
+    beforeEach(() => {
+      store = new InMemoryEventStore();
+    });
+
+    it('should append events and read them by stream and position', async () => {
+      await store.append('user-1', [userCreated('user-1', 1), userCreated('user-1', 2)], 0);
+      await store.append('user-2', [userCreated('user-2', 1)], 0);
+
+      const stream = await store.readStream('user-1');
+      expect(stream.map(e => e.version)).toEqual([1, 2]);
+      expect((await store.readStream('user-1', 2)).map(e => e.position)).toEqual([2]);
+
+      const all = await store.readAll(2, 5);
+      expect(all.map(e => e.aggregateId)).toEqual(['user-1', 'user-2']);
+      expect(await store.getStreamVersion('user-1')).toBe(2);
+      expect(await store.getLastPosition()).toBe(3);
+    });
+
+    it('should reject appends with an unexpected version', async () => {
+      await store.append('user-1', [userCreated('user-1', 1)], 0);
+
+      await expect(store.append('user-1', [userCreated('user-1', 1)], 0)).rejects.toBeInstanceOf(
+        ConcurrencyError
+      );
+      await expect(store.append('user-1', [userCreated('user-1', 3)], 1)).rejects.toThrow(
+        'expected 2'
+      );
+    });
+  });
+
+  describe('FileEventStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'typebus-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist events as JSON lines and reload them', async () => {
+      const filePath = path.join(dir, 'events.jsonl');
+      const store = new FileEventStore(filePath);
+      await store.append('user-1', [userCreated('user-1', 1)], 0);
+      await store.append('user-1', [userCreated('user-1', 2)], 1);
+
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(2);
+
+      const reloaded = new FileEventStore(filePath);
+      const stream = await reloaded.readStream('user-1');
+      expect(stream.map(e => e.position)).toEqual([1, 2]);
+      expect(stream[0].timestamp).toBeInstanceOf(Date);
+      await expect(reloaded.append('user-1', [userCreated('user-1', 2)], 1)).rejects.toBeInstanceOf(
+        ConcurrencyError
+      );
+    });
+
+    it('should serialize concurrent appends to the same stream', async () => {
+      const store = new FileEventStore(path.join(dir, 'events.jsonl'));
+      const results = await Promise.allSettled([
+        store.append('user-1', [userCreated('user-1', 1)], 0),
+        store.append('user-1', [userCreated('user-1', 1)], 0)
+      ]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(await store.getLastPosition()).toBe(1);
+    });
+
+    it('should cut off a line torn by a crash and keep appending after it', async () => {
+      const filePath = path.join(dir, 'events.jsonl');
+      await new FileEventStore(filePath).append('user-1', [userCreated('user-1', 1)], 0);
+      await fs.appendFile(filePath, JSON.stringify(userCreated('user-1', 2)).slice(0, 20), 'utf8');
+
+      const reloaded = new FileEventStore(filePath);
+      expect(await reloaded.getStreamVersion('user-1')).toBe(1);
+      await reloaded.append('user-1', [userCreated('user-1', 2)], 1);
+
+      expect((await new FileEventStore(filePath).readStream('user-1')).map(e => e.version)).toEqual([1, 2]);
+    });
+
+    it('should retry loading a file that failed to load', async () => {
+      const filePath = path.join(dir, 'events.jsonl');
+      await fs.writeFile(filePath, 'not json\n', 'utf8');
+      const store = new FileEventStore(filePath);
+      await expect(store.getLastPosition()).rejects.toThrow(SyntaxError);
+
+      await fs.writeFile(filePath, `${JSON.stringify(userCreated('user-1', 1))}\n`, 'utf8');
+      expect(await store.getLastPosition()).toBe(1);
+    });
+  });
+
+  describe('TypeBus integration', () => {
+    it('should append published events before dispatching them', async () => {
+      const eventStore = new InMemoryEventStore();
+      const bus = new TypeBus({ enableLogging: false, eventStore });
+      const positions: number[] = [];
+      createEventHandler(bus, 'User.Created', async () => {
+        positions.push(await eventStore.getLastPosition());
+      });
+
+      await bus.publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1);
+
+      expect(positions).toEqual([1]);
+      expect(bus.getEventStore()).toBe(eventStore);
+    });
+
+    it('should reject publishing with a version that does not follow the stream', async () => {
+      const handler = jest.fn();
+      const bus = new TypeBus({ enableLogging: false, eventStore: new InMemoryEventStore() });
+      createEventHandler(bus, 'User.Created', async () => handler());
+
+      await bus.publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1);
+
+      await expect(
+        bus.publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1)
+      ).rejects.toBeInstanceOf(ConcurrencyError);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
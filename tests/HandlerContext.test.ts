@@ -0,0 +1,98 @@
+import {
+  TypeBus,
+  CommandMap,
+  QueryMap,
+  EventMap,
+  IEvent,
+  CommandHandlerLogic,
+  createCommand,
+  createQuery,
+  createEventHandler,
+  createFluentBuilder
+} from '../src';
+
+describe('Handler Context', () => {
+  const data = { name: 'John', email: 'john@example.com', password: 'secret' };
+  let bus: TypeBus<CommandMap, QueryMap, EventMap>;
+
+  beforeEach(() => {
+    bus = new TypeBus<CommandMap, QueryMap, EventMap>({ enableLogging: false });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    bus.clear();
+  });
+
+  it('should give command handlers the message, the bus and a publish helper', async () => {
+    const published: IEvent[] = [];
+    createEventHandler(bus, 'User.Created', async (_data, _aggregateId, _version, _metadata, context) => {
+      published.push(context.message);
+    });
+    createCommand(bus, 'User.CreateUser', async (command, aggregateId, _metadata, context) => {
+      expect(context.bus).toBe(bus);
+      expect(context.message).toMatchObject({ kind: 'command', type: 'User.CreateUser', aggregateId, data: command });
+      expect(context.signal.aborted).toBe(false);
+      await context.publish('User.Created', { name: command.name, email: command.email }, 1);
+      return { userId: aggregateId, events: ['User.Created'] };
+    });
+
+    await bus.executeCommand('User.CreateUser', data, 'user-1', { requestId: 'req-1' });
+
+    expect(published).toHaveLength(1);
+    expect(published[0]).toMatchObject({ type: 'User.Created', aggregateId: 'user-1', version: 1 });
+    expect(published[0].causationId).toEqual(expect.stringMatching(/^msg-/));
+  });
+
+  it('should give query handlers the full query', async () => {
+    const GetUser = createQuery(bus, 'User.GetUser', async (params, _metadata, context) => ({
+      id: params.userId,
+      name: context.message.type,
+      email: context.message.kind,
+      createdAt: context.message.timestamp
+    }));
+
+    const user = await GetUser.execute({ userId: 'user-1' });
+
+    expect(user).toMatchObject({ id: 'user-1', name: 'User.GetUser', email: 'query' });
+  });
+
+  it('should abort the signal when the dispatch times out', async () => {
+    const timed = new TypeBus<CommandMap, QueryMap, EventMap>({ enableLogging: false, commandTimeout: 20 });
+    let aborted = false;
+    createFluentBuilder(timed)
+      .command('User.CreateUser')
+      .handle(async (_data, aggregateId, _metadata, { signal }) => {
+        await new Promise(resolve => signal.addEventListener('abort', resolve, { once: true }));
+        aborted = signal.aborted;
+        return { userId: aggregateId, events: [] };
+      });
+
+    await expect(timed.executeCommand('User.CreateUser', data, 'user-1')).rejects.toThrow('timed out');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(aborted).toBe(true);
+  });
+
+  it('should scope the logger to the message and follow the bus logging settings', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const logging = new TypeBus<CommandMap, QueryMap, EventMap>({ enableLogging: true, logLevel: 'info' });
+    const handle: CommandHandlerLogic<CommandMap, 'User.CreateUser'> = async (_data, aggregateId, _metadata, context) => {
+      context.logger.debug('hidden');
+      context.logger.info('creating');
+      context.logger.error('failed');
+      return { userId: aggregateId, events: [] };
+    };
+    createCommand(logging, 'User.CreateUser', handle);
+    createCommand(bus, 'User.CreateUser', handle);
+
+    await logging.executeCommand('User.CreateUser', data, 'user-1');
+    await bus.executeCommand('User.CreateUser', data, 'user-2');
+
+    const lines = log.mock.calls.map(call => String(call[0])).filter(line => line.includes('[User.CreateUser'));
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatch(/^ℹ️ \[User\.CreateUser msg-\S+\] creating$/);
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(String(error.mock.calls[0][0])).toMatch(/^❌ \[User\.CreateUser msg-\S+\] failed$/);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  TypeBus,
+  InMemoryLockProvider,
+  LockTimeoutError,
+  ILockProvider,
+  createCommand,
+  createEventHandler,
+  getMessageContext
+} from '../src';
+
+describe('Per-aggregate command serialization', () => {
+  const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+  let log: string[];
+
+  /**
+   * Registers a slow command that logs when it starts and ends.
+   */
+  const registerSlowCommand = (bus: TypeBus, ms = 10) =>
+    createCommand(bus, 'User.UpdateProfile', async (data, aggregateId) => {
+      log.push(`${aggregateId}:${data.name}:start`);
+      await sleep(ms);
+      log.push(`${aggregateId}:${data.name}:end`);
+      return { success: true };
+    });
+
+  beforeEach(() => {
+    log = [];
+  });
+
+  it('should run commands of the same aggregate one at a time and others in parallel', async () => {
+    const bus = new TypeBus({ enableLogging: false, aggregateLocks: {} });
+    const UpdateProfile = registerSlowCommand(bus);
+
+    await Promise.all([
+      UpdateProfile.execute({ name: 'a' }, 'user-1'),
+      UpdateProfile.execute({ name: 'b' }, 'user-1'),
+      UpdateProfile.execute({ name: 'c' }, 'user-2')
+    ]);
+
+    expect(log.filter(entry => entry.startsWith('user-1'))).toEqual([
+      'user-1:a:start',
+      'user-1:a:end',
+      'user-1:b:start',
+      'user-1:b:end'
+    ]);
+    expect(log.indexOf('user-2:c:start')).toBeLessThan(log.indexOf('user-1:a:end'));
+  });
+
+  it('should fail with a LockTimeoutError when the aggregate stays locked', async () => {
+    const provider = new InMemoryLockProvider();
+    const bus = new TypeBus({ enableLogging: false, aggregateLocks: { provider, timeout: 10 } });
+    const UpdateProfile = registerSlowCommand(bus, 30);
+
+    const first = UpdateProfile.execute({ name: 'a' }, 'user-1');
+    const error = await UpdateProfile.execute({ name: 'b' }, 'user-1').catch(e => e);
+    await first;
+    await UpdateProfile.execute({ name: 'c' }, 'user-1');
+
+    expect(error).toBeInstanceOf(LockTimeoutError);
+    expect(error).toMatchObject({ key: 'user-1', timeout: 10, messageType: 'User.UpdateProfile' });
+    expect(error.messageId).toEqual(expect.any(String));
+    expect(log).toEqual(['user-1:a:start', 'user-1:a:end', 'user-1:c:start', 'user-1:c:end']);
+    await sleep(0);
+    expect(provider.isLocked('user-1')).toBe(false);
+  });
+
+  it('should let handlers dispatch commands for the aggregate they hold', async () => {
+    const bus = new TypeBus({ enableLogging: false, aggregateLocks: { timeout: 50 } });
+    registerSlowCommand(bus, 1);
+    createCommand(bus, 'User.CreateUser', async (data, aggregateId) => {
+      await bus.executeCommand('User.UpdateProfile', { name: data.name }, aggregateId);
+      return { userId: aggregateId, events: [] };
+    });
+
+    await expect(
+      bus.executeCommand('User.CreateUser', { name: 'a', email: 'a@example.com', password: 'secret' }, 'user-1')
+    ).resolves.toEqual({ userId: 'user-1', events: [] });
+  });
+
+  it('should not let queued event handlers reuse the locks of the publishing command', async () => {
+    const bus = new TypeBus({ enableLogging: false, aggregateLocks: {}, eventQueue: {} });
+    const UpdateProfile = registerSlowCommand(bus);
+    let correlationId: string | undefined;
+    createCommand(bus, 'User.CreateUser', async (data, aggregateId) => {
+      await bus.publishEvent('User.Created', { name: data.name, email: data.email }, aggregateId, 1);
+      await sleep(10);
+      log.push(`${aggregateId}:create:end`);
+      return { userId: aggregateId, events: ['User.Created'] };
+    });
+    createEventHandler(bus, 'User.Created', async (data, aggregateId) => {
+      correlationId = getMessageContext()?.correlationId;
+      await UpdateProfile.execute({ name: data.name }, aggregateId);
+    });
+
+    await bus.executeCommand('User.CreateUser', { name: 'a', email: 'a@example.com', password: 'secret' }, 'user-1');
+    await bus.drain();
+
+    expect(log).toEqual(['user-1:create:end', 'user-1:a:start', 'user-1:a:end']);
+    expect(correlationId).toBeDefined();
+  });
+
+  it('should stop waiting for a lock when the enclosing dispatch aborts', async () => {
+    const bus = new TypeBus({ enableLogging: false, aggregateLocks: { timeout: 1000 } });
+    const UpdateProfile = registerSlowCommand(bus, 30);
+    const outer = new AbortController();
+    createCommand(bus, 'User.CreateUser', async (data, aggregateId) => {
+      await bus.executeCommand('User.UpdateProfile', { name: data.name }, 'user-2', undefined, {
+        signal: new AbortController().signal
+      });
+      return { userId: aggregateId, events: [] };
+    });
+
+    const first = UpdateProfile.execute({ name: 'a' }, 'user-2');
+    const create = bus.executeCommand(
+      'User.CreateUser',
+      { name: 'b', email: 'b@example.com', password: 'secret' },
+      'user-1',
+      undefined,
+      { signal: outer.signal }
+    );
+    await sleep(5);
+    outer.abort(new Error('Cancelled'));
+
+    await expect(create).rejects.toThrow('Cancelled');
+    await first;
+    expect(log).toEqual(['user-2:a:start', 'user-2:a:end']);
+  });
+
+  it('should use a custom lock provider', async () => {
+    const keys: string[] = [];
+    const provider: ILockProvider = {
+      acquire: async key => {
+        keys.push(key);
+        return async () => undefined;
+      }
+    };
+    const bus = new TypeBus({ enableLogging: false, aggregateLocks: { provider } });
+    const UpdateProfile = registerSlowCommand(bus, 1);
+
+    await UpdateProfile.execute({ name: 'a' }, 'user-1');
+
+    expect(keys).toEqual(['user-1']);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  TypeBus,
+  IMessage,
+  MessageContext,
+  getMessageContext,
+  runInMessageContext,
+  createCommand,
+  createEventHandler
+} from '../src';
+
+describe('Message Context', () => {
+  const data = { name: 'John', email: 'john@example.com', password: 'secret' };
+  let bus: TypeBus;
+  let seen: IMessage[];
+
+  beforeEach(() => {
+    bus = new TypeBus({ enableLogging: false });
+    seen = [];
+    bus.use({
+      async execute(message, next) {
+        seen.push(message);
+        return next(message);
+      }
+    });
+  });
+
+  afterEach(() => {
+    bus.clear();
+  });
+
+  it('should correlate messages created by handlers with their root and parent', async () => {
+    createCommand(bus, 'User.CreateUser', async (command, aggregateId) => {
+      await bus.publishEvent('User.Created', { name: command.name, email: command.email }, aggregateId, 1);
+      return { userId: aggregateId, events: ['User.Created'] };
+    });
+    createEventHandler(bus, 'User.Created', async event => {
+      await bus.executeCommand('User.ChangePassword', { currentPassword: 'secret', newPassword: 'x' }, event.aggregateId);
+    });
+    createCommand(bus, 'User.ChangePassword', async () => ({ success: true }));
+
+    await bus.executeCommand('User.CreateUser', data, 'user-1');
+
+    const [create, created, change] = seen;
+    expect(seen.map(message => message.type)).toEqual(['User.CreateUser', 'User.Created', 'User.ChangePassword']);
+    expect(create.correlationId).toBe(create.id);
+    expect(create.causationId).toBeUndefined();
+    expect(created).toMatchObject({ correlationId: create.id, causationId: create.id });
+    expect(change).toMatchObject({ correlationId: create.id, causationId: created.id });
+  });
+
+  it('should expose the current context to handlers without changing their signature', async () => {
+    let context: MessageContext | undefined;
+    const CreateUser = createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+      context = getMessageContext();
+      return { userId: aggregateId, events: [] };
+    });
+
+    await CreateUser.execute(data, 'user-1');
+    await CreateUser.execute(data, 'user-2');
+
+    expect(getMessageContext()).toBeUndefined();
+    expect(seen[0].correlationId).not.toBe(seen[1].correlationId);
+    expect(context).toEqual({
+      correlationId: seen[1].id,
+      causationId: undefined,
+      messageId: seen[1].id,
+      messageType: 'User.CreateUser'
+    });
+  });
+
+  it('should continue a seeded correlation id', async () => {
+    createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => ({ userId: aggregateId, events: [] }));
+
+    await runInMessageContext({ correlationId: 'request-1' }, () =>
+      bus.executeCommand('User.CreateUser', data, 'user-1')
+    );
+
+    expect(seen[0].correlationId).toBe('request-1');
+    expect(seen[0].causationId).toBeUndefined();
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  TypeBus,
+  RetryMiddleware,
+  isTransientError,
+  MessageTimeoutError,
+  ConcurrencyError,
+  CircuitBreakerMiddleware,
+  CircuitOpenError,
+  CircuitStateChange,
+  IdempotencyMiddleware,
+  InMemoryIdempotencyStore,
+  RejectedError,
+  createCommand,
+  createQuery
+} from '../src';
+
+describe('Middleware', () => {
+  let bus: TypeBus;
+
+  beforeEach(() => {
+    bus = new TypeBus({ enableLogging: false });
+  });
+
+  afterEach(() => {
+    bus.clear();
+  });
+
+  describe('RetryMiddleware', () => {
+    const transient = (message: string) => Object.assign(new Error(message), { retryable: true });
+
+    it('should retry transient failures and record the attempt in metadata', async () => {
+      const attempts: number[] = [];
+      bus.use(new RetryMiddleware({ maxAttempts: 3, initialDelay: 1 }));
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId, metadata) => {
+        attempts.push(metadata?.attempt);
+        if (attempts.length < 3) throw transient('Temporary failure');
+        return { userId: aggregateId, events: [] };
+      });
+
+      const result = await bus.executeCommand(
+        'User.CreateUser',
+        { name: 'John', email: 'john@example.com', password: 'secret' },
+        'user-1',
+        { requestId: 'req-1' }
+      );
+
+      expect(result.userId).toBe('user-1');
+      expect(attempts).toEqual([1, 2, 3]);
+    });
+
+    it('should not retry errors the classifier rejects', async () => {
+      const handler = jest.fn(async () => {
+        throw new Error('Invalid email');
+      });
+      bus.use(
+        new RetryMiddleware({
+          initialDelay: 1,
+          isRetryable: error => !(error as Error).message.startsWith('Invalid')
+        })
+      );
+      createCommand(bus, 'User.CreateUser', handler);
+
+      await expect(
+        bus.executeCommand('User.CreateUser', { name: '', email: '', password: '' }, 'user-1')
+      ).rejects.toThrow('Invalid email');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry permanent errors by default', async () => {
+      bus.use(new RetryMiddleware({ initialDelay: 1 }));
+      const handler = jest.fn(async () => {
+        throw new Error('Invalid email');
+      });
+      createCommand(bus, 'User.CreateUser', handler);
+
+      await expect(
+        bus.executeCommand('User.CreateUser', { name: '', email: '', password: '' }, 'user-1')
+      ).rejects.toThrow('Invalid email');
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(isTransientError(new MessageTimeoutError('User.GetUser', 10))).toBe(true);
+      expect(isTransientError(new ConcurrencyError('user-1', 0, 1))).toBe(false);
+    });
+
+    it('should apply per-message-type overrides', async () => {
+      const retry = new RetryMiddleware({
+        maxAttempts: 2,
+        initialDelay: 1,
+        overrides: { 'User.GetUser': { maxAttempts: 4 } }
+      });
+      bus.use(retry);
+      const handler = jest.fn(async () => {
+        throw transient('Service unavailable');
+      });
+      createQuery(bus, 'User.GetUser', handler);
+
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('Service unavailable');
+      expect(handler).toHaveBeenCalledTimes(4);
+      expect(retry.getPolicy('User.GetUser')).toMatchObject({ maxAttempts: 4, initialDelay: 1 });
+    });
+
+    it('should stop retrying when the next delay would exceed the bus timeout', async () => {
+      const timedBus = new TypeBus({ enableLogging: false, queryTimeout: 100 });
+      timedBus.use(new RetryMiddleware({ maxAttempts: 10, initialDelay: 40, jitter: 0 }));
+      const handler = jest.fn(async () => {
+        throw transient('Service unavailable');
+      });
+      createQuery(timedBus, 'User.GetUser', handler);
+
+      await expect(timedBus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow(
+        'Service unavailable'
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('CircuitBreakerMiddleware', () => {
+    const user = { id: 'user-1', name: 'John', email: 'john@example.com', createdAt: new Date() };
+
+    it('should open after the failure threshold and fail fast', async () => {
+      const changes: CircuitStateChange[] = [];
+      const breaker = new CircuitBreakerMiddleware({
+        failureThreshold: 2,
+        cooldown: 60000,
+        onStateChange: change => changes.push(change)
+      });
+      bus.use(breaker);
+      const handler = jest.fn(async () => {
+        throw new Error('Service unavailable');
+      });
+      createQuery(bus, 'User.GetUser', handler);
+
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('Service unavailable');
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('Service unavailable');
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toBeInstanceOf(CircuitOpenError);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(breaker.getState('User.GetUser')).toBe('open');
+      expect(changes.map(c => `${c.from}->${c.to}`)).toEqual(['closed->open']);
+    });
+
+    it('should close again after a successful trial call', async () => {
+      let healthy = false;
+      const changes: string[] = [];
+      bus.use(
+        new CircuitBreakerMiddleware({
+          failureThreshold: 1,
+          cooldown: 20,
+          onStateChange: change => changes.push(change.to)
+        })
+      );
+      createQuery(bus, 'User.GetUser', async () => {
+        if (!healthy) throw new Error('Service unavailable');
+        return user;
+      });
+
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('Service unavailable');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('Service unavailable');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      healthy = true;
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).resolves.toEqual(user);
+
+      expect(changes).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+    });
+
+    it('should use the fallback and custom keys', async () => {
+      const breaker = new CircuitBreakerMiddleware({
+        failureThreshold: 1,
+        key: message => (message.type.startsWith('User.') ? 'users-service' : message.type),
+        fallback: () => ({ ...user, name: 'Unknown' })
+      });
+      bus.use(breaker);
+      createQuery(bus, 'User.GetUser', async () => {
+        throw new Error('Service unavailable');
+      });
+
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('Service unavailable');
+      const result = await bus.executeQuery('User.GetUser', { userId: 'user-1' });
+
+      expect(result.name).toBe('Unknown');
+      expect(breaker.getStates()).toEqual({ 'users-service': 'open' });
+    });
+
+    it('should not count business rejections as failures', async () => {
+      const breaker = new CircuitBreakerMiddleware({ failureThreshold: 1 });
+      bus.use(breaker);
+      createQuery(bus, 'User.GetUser', async () => {
+        throw new RejectedError('UserBlocked', { userId: 'user-1' });
+      });
+
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toBeInstanceOf(RejectedError);
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toBeInstanceOf(RejectedError);
+      expect(breaker.getState('User.GetUser')).toBe('closed');
+    });
+
+    it('should count hanging calls as failures', async () => {
+      const breaker = new CircuitBreakerMiddleware({ failureThreshold: 1, callTimeout: 10 });
+      bus.use(breaker);
+      createQuery(bus, 'User.GetUser', () => new Promise(resolve => setTimeout(() => resolve(user), 50)));
+
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('timed out');
+      expect(breaker.getState('User.GetUser')).toBe('open');
+    });
+  });
+
+  describe('IdempotencyMiddleware', () => {
+    const data = { name: 'John', email: 'john@example.com', password: 'secret' };
+
+    it('should return the stored result for duplicate keys', async () => {
+      bus.use(new IdempotencyMiddleware());
+      const handler = jest.fn(async (_data: unknown, aggregateId: string) => ({
+        userId: aggregateId,
+        events: ['User.Created']
+      }));
+      createCommand(bus, 'User.CreateUser', handler);
+
+      const first = await bus.executeCommand('User.CreateUser', data, 'user-1', { idempotencyKey: 'req-1' });
+      const second = await bus.executeCommand('User.CreateUser', data, 'user-2', { idempotencyKey: 'req-1' });
+      await bus.executeCommand('User.CreateUser', data, 'user-3', { idempotencyKey: 'req-2' });
+      await bus.executeCommand('User.CreateUser', data, 'user-4');
+
+      expect(second).toEqual(first);
+      expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    it('should make concurrent duplicates wait for the in-flight execution', async () => {
+      bus.use(new IdempotencyMiddleware({ key: message => (message as any).aggregateId }));
+      const handler = jest.fn(async (_data: unknown, aggregateId: string) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return { userId: aggregateId, events: [] };
+      });
+      createCommand(bus, 'User.CreateUser', handler);
+
+      const results = await Promise.all([
+        bus.executeCommand('User.CreateUser', data, 'user-1'),
+        bus.executeCommand('User.CreateUser', data, 'user-1'),
+        bus.executeCommand('User.CreateUser', data, 'user-1')
+      ]);
+
+      expect(results).toEqual([0, 1, 2].map(() => ({ userId: 'user-1', events: [] })));
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run once across processes sharing a store and take over lapsed reservations', async () => {
+      const store = new InMemoryIdempotencyStore();
+      const other = new TypeBus({ enableLogging: false });
+      const handler = jest.fn(async (_data: unknown, aggregateId: string) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return { userId: aggregateId, events: [] };
+      });
+      for (const instance of [bus, other]) {
+        instance.use(new IdempotencyMiddleware({ store, pollInterval: 5 }));
+        createCommand(instance, 'User.CreateUser', handler);
+      }
+      const execute = (instance: TypeBus, aggregateId: string, idempotencyKey: string) =>
+        instance.executeCommand('User.CreateUser', data, aggregateId, { idempotencyKey });
+
+      const results = await Promise.all([execute(bus, 'user-1', 'req-1'), execute(other, 'user-2', 'req-1')]);
+      expect(results).toEqual([0, 1].map(() => ({ userId: 'user-1', events: [] })));
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      await store.reserve('User.CreateUser:req-2', new Date(Date.now() + 10));
+      expect(await execute(other, 'user-3', 'req-2')).toEqual({ userId: 'user-3', events: [] });
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run again after a failure or once the record expires', async () => {
+      const store = new InMemoryIdempotencyStore();
+      bus.use(new IdempotencyMiddleware({ store, ttl: 20 }));
+      let calls = 0;
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+        if (++calls === 1) throw new Error('Temporary failure');
+        return { userId: aggregateId, events: [] };
+      });
+      const execute = () => bus.executeCommand('User.CreateUser', data, 'user-1', { idempotencyKey: 'req-1' });
+
+      await expect(execute()).rejects.toThrow('Temporary failure');
+      await execute();
+      await execute();
+      expect(calls).toBe(2);
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await execute();
+      expect(calls).toBe(3);
+      expect(await store.get('User.CreateUser:req-1')).toMatchObject({ messageType: 'User.CreateUser' });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  TypeBus,
+  ITypeBusModule,
+  ITypeBusExtension,
+  ModuleNotInstalledError,
+  ModuleInUseError,
+  ModuleDependencyMissingError,
+  ModuleDependencyCycleError,
+  ModuleAlreadyInstalledError
+} from '../src';
+
+describe('Modules and Extensions', () => {
+  const user = { id: 'user-1', name: 'John', email: 'john@example.com', createdAt: new Date() };
+  let bus: TypeBus;
+  let hooks: string[];
+
+  /**
+   * Creates a module that registers a query and records its lifecycle hooks.
+   */
+  const usersModule = (overrides: Partial<ITypeBusModule> = {}): ITypeBusModule => ({
+    name: 'users',
+    version: '1.0.0',
+    configure: target => {
+      target.registerQueryHandler('User.GetUser', { handle: async () => user });
+      target.use({ name: 'audit', execute: (message, next) => next(message) });
+    },
+    start: () => {
+      hooks.push('start:users');
+    },
+    stop: () => {
+      hooks.push('stop:users');
+    },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    bus = new TypeBus({ enableLogging: false });
+    hooks = [];
+  });
+
+  it('should configure modules and roll back their registrations on uninstall', async () => {
+    await bus.registerModule(usersModule());
+
+    expect(await bus.executeQuery('User.GetUser', { userId: 'user-1' })).toEqual(user);
+    expect(bus.getInstalledModules()).toEqual([
+      { name: 'users', version: '1.0.0', kind: 'module', dependencies: [], registrations: 2, started: false }
+    ]);
+
+    await bus.uninstall('users');
+
+    expect(bus.getStats()).toMatchObject({ queryHandlers: 0, middleware: 0 });
+    expect(bus.getInstalledModules()).toEqual([]);
+    await expect(bus.uninstall('users')).rejects.toThrow("Module 'users' is not installed");
+    await expect(bus.uninstall('users')).rejects.toBeInstanceOf(ModuleNotInstalledError);
+  });
+
+  it('should install dependencies first and refuse missing or required ones', async () => {
+    const order: string[] = [];
+    const billing: ITypeBusModule = {
+      name: 'billing',
+      dependencies: ['users'],
+      configure: () => {
+        order.push('billing');
+      }
+    };
+
+    await expect(bus.registerModule(billing)).rejects.toThrow("Module 'billing' depends on 'users', which is not installed");
+    await expect(bus.registerModule(billing)).rejects.toMatchObject({
+      code: 'MODULE_DEPENDENCY_MISSING',
+      moduleName: 'billing',
+      dependency: 'users'
+    });
+    await expect(bus.registerModule(billing)).rejects.toBeInstanceOf(ModuleDependencyMissingError);
+    await bus.registerModule(billing, usersModule({ configure: () => void order.push('users') }));
+
+    expect(order).toEqual(['users', 'billing']);
+    await expect(bus.registerModule(billing)).rejects.toBeInstanceOf(ModuleAlreadyInstalledError);
+    await expect(bus.uninstall('users')).rejects.toThrow("Cannot uninstall module 'users': required by 'billing'");
+    await expect(bus.uninstall('users')).rejects.toMatchObject({ code: 'MODULE_IN_USE', dependents: ['billing'] });
+    await expect(bus.uninstall('users')).rejects.toBeInstanceOf(ModuleInUseError);
+    await expect(
+      bus.registerModule(
+        { name: 'a', dependencies: ['b'], configure: () => undefined },
+        { name: 'b', dependencies: ['a'], configure: () => undefined }
+      )
+    ).rejects.toThrow('Circular module dependency: a -> b -> a');
+    await expect(
+      bus.registerModule(
+        { name: 'a', dependencies: ['b'], configure: () => undefined },
+        { name: 'b', dependencies: ['a'], configure: () => undefined }
+      )
+    ).rejects.toMatchObject({ code: 'MODULE_DEPENDENCY_CYCLE', cycle: ['a', 'b', 'a'] });
+    await expect(
+      bus.registerModule({ name: 'c', dependencies: ['c'], configure: () => undefined })
+    ).rejects.toBeInstanceOf(ModuleDependencyCycleError);
+  });
+
+  it('should roll back a module whose configure fails', async () => {
+    const failing = usersModule({
+      configure: async target => {
+        target.registerCommandHandler('User.CreateUser', {
+          handle: async command => ({ userId: command.aggregateId, events: [] })
+        });
+        throw new Error('Missing configuration');
+      }
+    });
+
+    await expect(bus.registerModule(failing)).rejects.toThrow('Missing configuration');
+
+    expect(bus.getStats().commandHandlers).toBe(0);
+    expect(bus.getInstalledModules()).toEqual([]);
+  });
+
+  it('should run start hooks in install order and stop hooks in reverse', async () => {
+    const removed = jest.fn();
+    const metrics: ITypeBusExtension = {
+      name: 'metrics',
+      dependencies: ['users'],
+      install: target => {
+        target.registerEventHandler('User.Created', { handle: async () => undefined });
+      },
+      uninstall: removed,
+      start: () => {
+        hooks.push('start:metrics');
+      },
+      stop: () => {
+        hooks.push('stop:metrics');
+      }
+    };
+    await bus.registerModule(usersModule());
+    await bus.start();
+    await bus.install(metrics);
+    await bus.stop();
+
+    expect(hooks).toEqual(['start:users', 'start:metrics', 'stop:metrics', 'stop:users']);
+
+    await bus.uninstall('metrics');
+    expect(removed).toHaveBeenCalledWith(bus);
+    expect(bus.getStats().eventHandlers).toBe(0);
+    expect(bus.getInstalledModules().map(m => m.name)).toEqual(['users']);
+  });
+});
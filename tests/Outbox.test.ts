@@ -0,0 +1,289 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TypeBus,
+  InMemoryEventStore,
+  InMemoryOutbox,
+  FileOutbox,
+  OutboxRelay,
+  MessageFactory,
+  RetryMiddleware,
+  ConcurrencyError,
+  createCommand,
+  createEventHandler
+} from '../src';
+
+describe('Unit of Work and Outbox', () => {
+  const userCreated = { name: 'John', email: 'john@example.com' };
+
+  describe('unit-of-work mode', () => {
+    let eventStore: InMemoryEventStore;
+    let bus: TypeBus;
+    let handled: string[];
+
+    beforeEach(() => {
+      eventStore = new InMemoryEventStore();
+      bus = new TypeBus({ enableLogging: false, eventStore, unitOfWork: true });
+      handled = [];
+      createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+        handled.push(aggregateId);
+      });
+    });
+
+    it('should dispatch events only after the handler succeeds', async () => {
+      createCommand(bus, 'User.CreateUser', async (data, aggregateId) => {
+        await bus.publishEvent('User.Created', { name: data.name, email: data.email }, aggregateId, 1);
+        expect(handled).toEqual([]);
+        return { userId: aggregateId, events: ['User.Created'] };
+      });
+
+      await bus.executeCommand('User.CreateUser', { ...userCreated, password: 'secret' }, 'user-1');
+
+      expect(handled).toEqual(['user-1']);
+      expect(await eventStore.getStreamVersion('user-1')).toBe(1);
+    });
+
+    it('should drop buffered events when the handler fails', async () => {
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+        await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+        throw new Error('Validation failed');
+      });
+
+      await expect(
+        bus.executeCommand('User.CreateUser', { ...userCreated, password: 'secret' }, 'user-1')
+      ).rejects.toThrow('Validation failed');
+
+      expect(handled).toEqual([]);
+      expect(await eventStore.getLastPosition()).toBe(0);
+    });
+
+    it('should commit only the events of the successful attempt when retried', async () => {
+      let attempts = 0;
+      bus.use(new RetryMiddleware({ maxAttempts: 3, initialDelay: 1 }));
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+        await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+        if (++attempts === 1) throw Object.assign(new Error('Temporary failure'), { retryable: true });
+        return { userId: aggregateId, events: ['User.Created'] };
+      });
+
+      await bus.executeCommand('User.CreateUser', { ...userCreated, password: 'secret' }, 'user-1');
+
+      expect(attempts).toBe(2);
+      expect(handled).toEqual(['user-1']);
+      expect(await eventStore.getLastPosition()).toBe(1);
+    });
+
+    it('should commit events of nested commands with the outer command', async () => {
+      createCommand(bus, 'User.UpdateProfile', async (_data, aggregateId) => {
+        await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+        return { success: true };
+      });
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+        await bus.executeCommand('User.UpdateProfile', {}, 'user-2');
+        expect(handled).toEqual([]);
+        await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+        return { userId: aggregateId, events: [] };
+      });
+
+      await bus.executeCommand('User.CreateUser', { ...userCreated, password: 'secret' }, 'user-1');
+
+      expect(handled.sort()).toEqual(['user-1', 'user-2']);
+    });
+
+    it('should publish directly outside of command handlers', async () => {
+      await bus.publishEvent('User.Created', userCreated, 'user-1', 1);
+      expect(handled).toEqual(['user-1']);
+    });
+  });
+
+  describe('outbox', () => {
+    it('should record failed dispatches and relay them later', async () => {
+      const outbox = new InMemoryOutbox();
+      const bus = new TypeBus({ enableLogging: false, unitOfWork: true, outbox });
+      let available = false;
+      const handled = jest.fn();
+      createEventHandler(bus, 'User.Created', async () => {
+        if (!available) throw new Error('Mail server down');
+        handled();
+      });
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+        await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+        return { userId: aggregateId, events: [] };
+      });
+
+      await expect(
+        bus.executeCommand('User.CreateUser', { ...userCreated, password: 'secret' }, 'user-1')
+      ).resolves.toEqual({ userId: 'user-1', events: [] });
+
+      const [failed] = await outbox.getUndispatched();
+      expect(failed).toMatchObject({ status: 'failed', attempts: 1, lastError: 'Mail server down' });
+
+      available = true;
+      const relay = new OutboxRelay(bus, outbox);
+      expect(await relay.relayPending()).toBe(1);
+      expect(handled).toHaveBeenCalledTimes(1);
+      expect(await outbox.getUndispatched()).toHaveLength(0);
+    });
+
+    it('should discard the entries of events that could not be stored', async () => {
+      const outbox = new InMemoryOutbox();
+      const eventStore = new InMemoryEventStore();
+      const bus = new TypeBus({ enableLogging: false, unitOfWork: true, eventStore, outbox });
+      await eventStore.append('user-1', [new MessageFactory().createEvent('User.Created', userCreated, 'user-1', 1)], 0);
+      createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+        await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+        return { userId: aggregateId, events: [] };
+      });
+
+      await expect(
+        bus.executeCommand('User.CreateUser', { ...userCreated, password: 'secret' }, 'user-1')
+      ).rejects.toBeInstanceOf(ConcurrencyError);
+
+      expect(await outbox.getUndispatched()).toEqual([]);
+    });
+
+    it('should discard pending entries of events that were never stored', async () => {
+      const outbox = new InMemoryOutbox();
+      const bus = new TypeBus({ enableLogging: false, eventStore: new InMemoryEventStore() });
+      const handled = jest.fn();
+      createEventHandler(bus, 'User.Created', async () => handled());
+      await outbox.add([new MessageFactory().createEvent('User.Created', userCreated, 'user-1', 1)]);
+
+      const relay = new OutboxRelay(bus, outbox, { staleAfter: 0 });
+      expect(await relay.relayPending()).toBe(0);
+      expect(handled).not.toHaveBeenCalled();
+      expect(await outbox.getUndispatched()).toEqual([]);
+    });
+
+    it('should dispatch committed events through the event queue', async () => {
+      const outbox = new InMemoryOutbox();
+      const bus = new TypeBus({ enableLogging: false, unitOfWork: true, outbox, eventQueue: {} });
+      let available = true;
+      createEventHandler(bus, 'User.Created', async () => {
+        if (!available) throw new Error('Mail server down');
+      });
+      const CreateUser = createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+        await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+        return { userId: aggregateId, events: [] };
+      });
+
+      await CreateUser.execute({ ...userCreated, password: 'secret' }, 'user-1');
+      expect(await outbox.getUndispatched()).toHaveLength(1);
+      await bus.drain();
+      expect(await outbox.getUndispatched()).toEqual([]);
+
+      available = false;
+      await CreateUser.execute({ ...userCreated, password: 'secret' }, 'user-2');
+      await bus.drain();
+      expect(await outbox.getUndispatched()).toMatchObject([{ status: 'failed', lastError: 'Mail server down' }]);
+      expect(bus.getEventQueueStats()).toMatchObject({ processed: 1, failed: 1 });
+    });
+
+    it('should not relay pending entries before the event timeout has passed', async () => {
+      const outbox = new InMemoryOutbox();
+      const bus = new TypeBus({ enableLogging: false, eventTimeout: 60000 });
+      createEventHandler(bus, 'User.Created', async () => undefined);
+      const [entry] = await outbox.add([new MessageFactory().createEvent('User.Created', userCreated, 'user-1', 1)]);
+
+      const relay = new OutboxRelay(bus, outbox);
+      expect(await relay.relayPending(entry.createdAt.getTime() + 30000)).toBe(0);
+      expect(await relay.relayPending(entry.createdAt.getTime() + 60000)).toBe(1);
+    });
+
+    it('should not let exhausted entries block the entries behind them', async () => {
+      const outbox = new InMemoryOutbox();
+      const bus = new TypeBus({ enableLogging: false });
+      const handled = jest.fn();
+      createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+        if (aggregateId !== 'user-3') throw new Error('Mail server down');
+        handled();
+      });
+      const factory = new MessageFactory();
+      const exhausted = await outbox.add([
+        factory.createEvent('User.Created', userCreated, 'user-1', 1),
+        factory.createEvent('User.Created', userCreated, 'user-2', 1)
+      ]);
+      for (const entry of exhausted) {
+        for (let attempt = 0; attempt < 3; attempt++) await outbox.markFailed(entry.id, 'Mail server down');
+      }
+      await outbox.add([factory.createEvent('User.Created', userCreated, 'user-3', 1)]);
+
+      const relay = new OutboxRelay(bus, outbox, { batchSize: 2, maxAttempts: 3, staleAfter: 0 });
+      expect(await relay.relayPending()).toBe(1);
+      expect(handled).toHaveBeenCalledTimes(1);
+      expect((await outbox.getUndispatched()).map(entry => entry.event.aggregateId)).toEqual(['user-1', 'user-2']);
+      expect(await outbox.getUndispatched(undefined, 3)).toEqual([]);
+    });
+
+    it('should log failed relay runs only when the bus logs', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const outbox = new InMemoryOutbox();
+      jest.spyOn(outbox, 'getUndispatched').mockRejectedValue(new Error('Outbox unavailable'));
+      const quiet = new OutboxRelay(new TypeBus({ enableLogging: false }), outbox, { interval: 5 });
+      const loud = new OutboxRelay(new TypeBus({ enableLogging: true, logLevel: 'error' }), outbox, { interval: 5 });
+
+      quiet.start();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await quiet.stop();
+      expect(error).not.toHaveBeenCalled();
+
+      loud.start();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await loud.stop();
+      expect(String(error.mock.calls[0]?.[0])).toBe('❌ [outbox-relay] Relay failed:');
+      error.mockRestore();
+    });
+
+    it('should keep undispatched entries in a file across restarts', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'typebus-'));
+      const filePath = path.join(dir, 'outbox.jsonl');
+      try {
+        const event = new MessageFactory().createEvent('User.Created', userCreated, 'user-1', 1);
+        const crashed = new FileOutbox(filePath);
+        await crashed.add([event]);
+
+        const bus = new TypeBus({ enableLogging: false });
+        const handled = jest.fn();
+        createEventHandler(bus, 'User.Created', async data => handled(data));
+
+        const restarted = new FileOutbox(filePath);
+        const relay = new OutboxRelay(bus, restarted, { staleAfter: 0 });
+        expect(await relay.relayPending()).toBe(1);
+        expect(handled).toHaveBeenCalledWith(userCreated);
+        expect(await new FileOutbox(filePath).getUndispatched()).toHaveLength(0);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should repair a torn last line and compact settled entries', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'typebus-'));
+      const filePath = path.join(dir, 'outbox.jsonl');
+      const factory = new MessageFactory();
+      const event = (aggregateId: string) => factory.createEvent('User.Created', userCreated, aggregateId, 1);
+      try {
+        const crashed = new FileOutbox(filePath);
+        const [first] = await crashed.add([event('user-1')]);
+        await crashed.markDispatched(first.id);
+        await crashed.add([event('user-2')]);
+        await fs.appendFile(filePath, '{"op":"add","entry":{"id"', 'utf8');
+
+        const restarted = new FileOutbox(filePath, { compactAfter: 2 });
+        expect((await restarted.getUndispatched()).map(entry => entry.event.aggregateId)).toEqual(['user-2']);
+        expect((await fs.readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(1);
+
+        const [third] = await restarted.add([event('user-3')]);
+        await restarted.markDispatched(third.id);
+        await restarted.add([event('user-4')]);
+        expect((await fs.readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(2);
+        expect((await new FileOutbox(filePath).getUndispatched()).map(entry => entry.event.aggregateId)).toEqual([
+          'user-2',
+          'user-4'
+        ]);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  TypeBus,
+  InMemoryEventStore,
+  InMemoryCheckpointStore,
+  ProjectionRunner,
+  ProjectionDefinition,
+  QueryMap,
+  CommandMap,
+  EventMap
+} from '../src';
+
+describe('Projections', () => {
+  let eventStore: InMemoryEventStore;
+  let checkpointStore: InMemoryCheckpointStore;
+  let bus: TypeBus<CommandMap, QueryMap, EventMap>;
+  let orderHistory: Map<string, string[]>;
+
+  const orderHistoryProjection = (): ProjectionDefinition<EventMap> => ({
+    name: 'OrderHistory',
+    handle: {
+      'Order.Created': async event => {
+        const orders = orderHistory.get(event.data.userId) || [];
+        orderHistory.set(event.data.userId, [...orders, event.aggregateId]);
+      }
+    },
+    reset: async () => {
+      orderHistory.clear();
+    }
+  });
+
+  const publishOrder = (orderId: string) =>
+    bus.publishEvent('Order.Created', { userId: 'user-1', items: [], totalAmount: 10 }, orderId, 1);
+
+  beforeEach(() => {
+    eventStore = new InMemoryEventStore();
+    checkpointStore = new InMemoryCheckpointStore();
+    bus = new TypeBus({ enableLogging: false, eventStore });
+    orderHistory = new Map();
+  });
+
+  it('should update read models live and track checkpoints', async () => {
+    const runner = new ProjectionRunner(bus, { checkpointStore });
+    runner.register(orderHistoryProjection());
+
+    await publishOrder('order-1');
+    await bus.publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1);
+    await publishOrder('order-2');
+
+    expect(orderHistory.get('user-1')).toEqual(['order-1', 'order-2']);
+    expect(await checkpointStore.load('OrderHistory')).toBe(3);
+
+    const [status] = await bus.getProjectionStatus();
+    expect(status).toMatchObject({ name: 'OrderHistory', state: 'idle', position: 3, lag: 0, errorCount: 0 });
+  });
+
+  it('should resume from the checkpoint after a restart', async () => {
+    await publishOrder('order-1');
+    await checkpointStore.save('OrderHistory', 1);
+    await publishOrder('order-2');
+
+    const runner = new ProjectionRunner(bus, { checkpointStore, live: false });
+    runner.register(orderHistoryProjection());
+    expect((await runner.getStatus('OrderHistory'))[0].lag).toBe(2);
+
+    await runner.start();
+
+    expect(orderHistory.get('user-1')).toEqual(['order-2']);
+    expect((await runner.getStatus('OrderHistory'))[0].lag).toBe(0);
+  });
+
+  it('should rebuild from position zero', async () => {
+    const runner = new ProjectionRunner(bus, { checkpointStore, batchSize: 1 });
+    runner.register(orderHistoryProjection());
+    await publishOrder('order-1');
+    await publishOrder('order-2');
+    orderHistory.set('user-1', ['corrupted']);
+
+    await runner.rebuild('OrderHistory');
+
+    expect(orderHistory.get('user-1')).toEqual(['order-1', 'order-2']);
+    expect(await checkpointStore.load('OrderHistory')).toBe(2);
+  });
+
+  it('should stop at a failing event and report the error', async () => {
+    let fail = true;
+    const runner = new ProjectionRunner(bus, { checkpointStore });
+    runner.register({
+      name: 'Failing',
+      handle: {
+        'Order.Created': async () => {
+          if (fail) throw new Error('Read model unavailable');
+        }
+      }
+    });
+
+    await expect(publishOrder('order-1')).resolves.toBeUndefined();
+    await publishOrder('order-2');
+
+    const [faulted] = await runner.getStatus('Failing');
+    expect(faulted).toMatchObject({ state: 'faulted', position: 0, lag: 2, errorCount: 1 });
+    expect(faulted.lastError).toMatchObject({ position: 1, eventType: 'Order.Created', message: 'Read model unavailable' });
+
+    fail = false;
+    await runner.catchUp('Failing');
+    expect((await runner.getStatus('Failing'))[0]).toMatchObject({ state: 'idle', position: 2, lag: 0 });
+  });
+
+  it('should stop projecting live events once unregistered or disposed', async () => {
+    const runner = new ProjectionRunner(bus, { checkpointStore });
+    const unregister = runner.register(orderHistoryProjection());
+    await publishOrder('order-1');
+
+    unregister();
+    await publishOrder('order-2');
+    expect(orderHistory.get('user-1')).toEqual(['order-1']);
+    expect(await runner.getStatus()).toEqual([]);
+
+    runner.register(orderHistoryProjection());
+    runner.dispose();
+    await publishOrder('order-3');
+    expect(orderHistory.get('user-1')).toEqual(['order-1']);
+    expect(bus.getStats().eventHandlers).toBe(0);
+    expect(await bus.getProjectionStatus()).toEqual([]);
+    expect(await checkpointStore.load('OrderHistory')).toBe(1);
+  });
+});
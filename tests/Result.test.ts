@@ -0,0 +1,97 @@
+import {
+  TypeBus,
+  CommandMap,
+  QueryMap,
+  RejectedError,
+  HandlerNotFoundError,
+  RetryMiddleware,
+  ErrorCode,
+  toProblemDetails,
+  createCommand,
+  createQuery
+} from '../src';
+
+describe('Result API', () => {
+  const data = { name: 'John', email: 'john@example.com', password: 'secret' };
+  let bus: TypeBus<CommandMap, QueryMap>;
+
+  beforeEach(() => {
+    bus = new TypeBus<CommandMap, QueryMap>({ enableLogging: false });
+  });
+
+  it('should return the handler result as an ok result', async () => {
+    bus.registerCommandHandler('User.CreateUser', { handle: async () => ({ userId: 'user-1', events: [] }) });
+
+    const result = await bus.tryExecuteCommand('User.CreateUser', data, 'user-1');
+
+    expect(result).toEqual({ ok: true, value: { userId: 'user-1', events: [] } });
+  });
+
+  it('should return declared rejections typed by reason', async () => {
+    bus.registerCommandHandler('User.CreateUser', {
+      handle: async command => {
+        throw new RejectedError('EmailTaken', { email: command.data.email });
+      }
+    });
+
+    const result = await bus.tryExecuteCommand('User.CreateUser', data, 'user-1');
+
+    expect(result.ok).toBe(false);
+    if (result.ok || result.error.kind !== 'rejected') {
+      throw new Error('expected a rejection');
+    }
+    expect(result.error.reason).toBe('EmailTaken');
+    if (result.error.reason === 'EmailTaken') {
+      expect(result.error.details.email).toBe('john@example.com');
+    }
+    expect(result.error.error.code).toBe(ErrorCode.MESSAGE_REJECTED);
+    expect(toProblemDetails(result.error.error)).toMatchObject({
+      status: 422,
+      reason: 'EmailTaken',
+      details: { email: 'john@example.com' }
+    });
+  });
+
+  it('should return other errors as unexpected failures', async () => {
+    const result = await bus.tryExecuteQuery('User.GetUser', { userId: 'user-1' });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.kind).toBe('error');
+    expect(!result.ok && result.error.error).toBeInstanceOf(HandlerNotFoundError);
+  });
+
+  it('should not retry rejections', async () => {
+    let attempts = 0;
+    bus.use(new RetryMiddleware({ maxAttempts: 3, initialDelay: 1 }));
+    bus.registerCommandHandler('User.CreateUser', {
+      handle: async () => {
+        attempts++;
+        throw new RejectedError('WeakPassword', { minLength: 12 });
+      }
+    });
+
+    const result = await bus.tryExecuteCommand('User.CreateUser', data, 'user-1');
+
+    expect(attempts).toBe(1);
+    expect(!result.ok && result.error.kind === 'rejected' && result.error.reason).toBe('WeakPassword');
+  });
+
+  it('should expose tryExecute on builders', async () => {
+    const createUser = createCommand(bus, 'User.CreateUser', async () => {
+      throw new RejectedError('EmailTaken', { email: data.email });
+    });
+    const createdAt = new Date(0);
+    const getUser = createQuery(bus, 'User.GetUser', async params => ({
+      id: params.userId,
+      name: 'John',
+      email: data.email,
+      createdAt
+    }));
+
+    const created = await createUser.tryExecute(data, 'user-1');
+    const found = await getUser.tryExecute({ userId: 'user-1' });
+
+    expect(created).toMatchObject({ ok: false, error: { kind: 'rejected', reason: 'EmailTaken' } });
+    expect(found).toEqual({ ok: true, value: { id: 'user-1', name: 'John', email: data.email, createdAt } });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  TypeBus,
+  defineSaga,
+  InMemorySagaStore,
+  createCommand,
+  ExtendCommandMap,
+  QueryMap,
+  EventMap
+} from '../src';
+
+type Commands = ExtendCommandMap<{
+  'Payment.Charge': { data: { orderId: string; amount: number }; aggregateId: string; result: { paymentId: string } };
+  'Payment.Refund': { data: { paymentId: string }; aggregateId: string; result: { success: boolean } };
+  'Order.Ship': { data: { orderId: string }; aggregateId: string; result: { success: boolean } };
+}>;
+
+type OrderSagaState = { amount: number; paymentId?: string };
+
+describe('Sagas', () => {
+  let bus: TypeBus<Commands, QueryMap, EventMap>;
+  let executed: string[];
+
+  beforeEach(() => {
+    bus = new TypeBus<Commands, QueryMap, EventMap>({ enableLogging: false });
+    executed = [];
+    createCommand(bus, 'Payment.Charge', async data => {
+      executed.push('Payment.Charge');
+      return { paymentId: `pay-${data.orderId}` };
+    });
+    createCommand(bus, 'Payment.Refund', async () => {
+      executed.push('Payment.Refund');
+      return { success: true };
+    });
+  });
+
+  const defineOrderSaga = () =>
+    defineSaga(bus, {
+      name: 'OrderFulfillment',
+      startedBy: ['Order.Created'],
+      initialState: (): OrderSagaState => ({ amount: 0 }),
+      handle: {
+        'Order.Created': async (event, ctx) => {
+          const { paymentId } = await ctx.dispatch(
+            'Payment.Charge',
+            { orderId: event.aggregateId, amount: event.data.totalAmount },
+            event.aggregateId,
+            { compensate: { type: 'Payment.Refund', data: { paymentId: `pay-${event.aggregateId}` }, aggregateId: event.aggregateId } }
+          );
+          return { amount: event.data.totalAmount, paymentId };
+        },
+        'Order.StatusChanged': async (event, ctx) => {
+          if (event.data.newStatus === 'shipped') {
+            await ctx.dispatch('Order.Ship', { orderId: event.aggregateId }, event.aggregateId);
+          }
+          ctx.complete();
+        }
+      },
+      timeout: { after: 1000 }
+    });
+
+  const orderCreated = { userId: 'user-1', items: [], totalAmount: 100 };
+
+  it('should start, correlate and complete instances', async () => {
+    createCommand(bus, 'Order.Ship', async () => {
+      executed.push('Order.Ship');
+      return { success: true };
+    });
+    const saga = defineOrderSaga();
+
+    await bus.publishEvent('Order.StatusChanged', { oldStatus: 'new', newStatus: 'shipped' }, 'order-0', 1);
+    expect(await saga.getInstance('order-0')).toBeUndefined();
+
+    await bus.publishEvent('Order.Created', orderCreated, 'order-1', 1);
+    const started = await saga.getInstance('order-1');
+    expect(started?.status).toBe('active');
+    expect(started?.state).toEqual({ amount: 100, paymentId: 'pay-order-1' });
+
+    await bus.publishEvent('Order.StatusChanged', { oldStatus: 'paid', newStatus: 'shipped' }, 'order-1', 2);
+    expect((await saga.getInstance('order-1'))?.status).toBe('completed');
+    expect(executed).toEqual(['Payment.Charge', 'Order.Ship']);
+  });
+
+  it('should run compensations when a step fails', async () => {
+    const saga = defineOrderSaga();
+
+    await bus.publishEvent('Order.Created', orderCreated, 'order-1', 1);
+    await bus.publishEvent('Order.StatusChanged', { oldStatus: 'paid', newStatus: 'shipped' }, 'order-1', 2);
+
+    const instance = await saga.getInstance('order-1');
+    expect(instance?.status).toBe('compensated');
+    expect(instance?.error).toContain('Order.Ship');
+    expect(executed).toEqual(['Payment.Charge', 'Payment.Refund']);
+  });
+
+  it('should time out and compensate expired instances', async () => {
+    const saga = defineOrderSaga();
+    await bus.publishEvent('Order.Created', orderCreated, 'order-1', 1);
+
+    expect(await saga.checkTimeouts()).toBe(0);
+    expect(await saga.checkTimeouts(Date.now() + 5000)).toBe(1);
+
+    expect((await saga.getInstance('order-1'))?.status).toBe('timedOut');
+    expect(executed).toEqual(['Payment.Charge', 'Payment.Refund']);
+  });
+
+  it('should process events for the same instance one at a time', async () => {
+    const order: string[] = [];
+    defineSaga(bus, {
+      name: 'Counter',
+      startedBy: ['User.Created', 'User.ProfileUpdated'],
+      initialState: () => ({ count: 0 }),
+      handle: {
+        'User.Created': async (_event, ctx) => {
+          order.push('created-start');
+          await new Promise(resolve => setTimeout(resolve, 10));
+          order.push('created-end');
+          return { count: ctx.state.count + 1 };
+        },
+        'User.ProfileUpdated': async (_event, ctx) => {
+          order.push('updated');
+          return { count: ctx.state.count + 1 };
+        }
+      }
+    });
+
+    await Promise.all([
+      bus.publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1),
+      bus.publishEvent('User.ProfileUpdated', { changes: {} }, 'user-1', 2)
+    ]);
+
+    expect(order).toEqual(['created-start', 'created-end', 'updated']);
+  });
+
+  it('should handle events raised by the commands of a running step after that step', async () => {
+    bus.replaceHandler('Payment.Charge', {
+      handle: async command => {
+        executed.push('Payment.Charge');
+        await bus.publishEvent('Order.StatusChanged', { oldStatus: 'new', newStatus: 'paid' }, command.aggregateId, 2);
+        return { paymentId: `pay-${command.aggregateId}` };
+      }
+    });
+    const saga = defineOrderSaga();
+
+    const started = Date.now();
+    await bus.publishEvent('Order.Created', orderCreated, 'order-1', 1);
+
+    const instance = await saga.getInstance('order-1');
+    expect(instance).toMatchObject({ status: 'completed', state: { amount: 100, paymentId: 'pay-order-1' } });
+    expect(instance?.error).toBeUndefined();
+    expect(executed).toEqual(['Payment.Charge']);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+    it('should log failed timeout checks only when the bus logs', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const store = new InMemorySagaStore();
+    jest.spyOn(store, 'findExpired').mockRejectedValue(new Error('Store unavailable'));
+    const quiet = defineSaga(bus, { name: 'Quiet', startedBy: [], initialState: () => ({}), handle: {}, store });
+    const logging = new TypeBus<Commands, QueryMap, EventMap>({ enableLogging: true, logLevel: 'error' });
+    const loud = defineSaga(logging, { name: 'Loud', startedBy: [], initialState: () => ({}), handle: {}, store });
+
+    quiet.startTimeoutPolling(5);
+    loud.startTimeoutPolling(5);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    quiet.dispose();
+    loud.dispose();
+
+    const lines = error.mock.calls.map(call => String(call[0]));
+    expect(lines.some(line => line.includes('[saga:Loud] Timeout check failed'))).toBe(true);
+    expect(lines.some(line => line.includes('saga:Quiet'))).toBe(false);
+    error.mockRestore();
+  });
+
+    it('should stop handling events once disposed', async () => {
+    const saga = defineOrderSaga();
+    saga.dispose();
+
+    await bus.publishEvent('Order.Created', orderCreated, 'order-1', 1);
+
+    expect(await saga.getInstance('order-1')).toBeUndefined();
+    expect(bus.getStats().eventHandlers).toBe(0);
+  });
+
+  it('should keep stored state isolated from callers', async () => {
+    const store = new InMemorySagaStore();
+    const now = new Date();
+    const instance = {
+      sagaName: 'Nested',
+      id: 'saga-1',
+      state: { items: [{ sku: 'a' }] },
+      status: 'active' as const,
+      compensations: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    await store.save(instance);
+    instance.state.items[0].sku = 'changed';
+
+    const loaded = await store.load('Nested', 'saga-1');
+    loaded!.state.items.push({ sku: 'b' });
+
+    expect((await store.load('Nested', 'saga-1'))?.state).toEqual({ items: [{ sku: 'a' }] });
+    expect(loaded?.createdAt).toEqual(now);
+  });
+});
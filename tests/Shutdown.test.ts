@@ -0,0 +1,124 @@
+import { TypeBus, BusClosedError, createCommand, createEventHandler, getDispatchContext } from '../src';
+
+describe('Graceful Shutdown', () => {
+  const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+  const userCreated = { name: 'John', email: 'john@example.com' };
+  const createUser = { ...userCreated, password: 'secret' };
+
+  it('should reject new work and wait for in-flight handlers, including their nested dispatches', async () => {
+    const bus = new TypeBus({ enableLogging: false });
+    const handled: string[] = [];
+    createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+      handled.push(aggregateId);
+    });
+    const CreateUser = createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => {
+      await sleep(20);
+      await bus.publishEvent('User.Created', userCreated, aggregateId, 1);
+      return { userId: aggregateId, events: ['User.Created'] };
+    });
+
+    const running = CreateUser.execute(createUser, 'user-1');
+    expect(bus.getInFlightCounts()).toEqual({ commands: 1, queries: 0, events: 0, total: 1 });
+
+    const closed = bus.close({ timeout: 1000 });
+    const error = await CreateUser.execute(createUser, 'user-2').catch(e => e);
+    await closed;
+
+    expect(error).toBeInstanceOf(BusClosedError);
+    expect(error.messageType).toBe('User.CreateUser');
+    await expect(running).resolves.toEqual({ userId: 'user-1', events: ['User.Created'] });
+    expect(handled).toEqual(['user-1']);
+    expect(bus.getInFlightCounts().total).toBe(0);
+    await expect(bus.publishEvent('User.Created', userCreated, 'user-3', 1)).rejects.toBeInstanceOf(BusClosedError);
+    expect(bus.close()).toBe(closed);
+  });
+
+  it('should dispatch queued events before closing', async () => {
+    const bus = new TypeBus({ enableLogging: false, eventQueue: {} });
+    const handled: string[] = [];
+    createEventHandler(bus, 'User.Created', async (_data, aggregateId) => {
+      await sleep(5);
+      handled.push(aggregateId);
+    });
+
+    await bus.publishEvent('User.Created', userCreated, 'user-1', 1);
+    await bus.publishEvent('User.Created', userCreated, 'user-2', 1);
+    await bus.close();
+
+    expect(handled).toEqual(['user-1', 'user-2']);
+  });
+
+  it('should abort in-flight work and discard queued events after the timeout', async () => {
+    const bus = new TypeBus({ enableLogging: false, eventQueue: { onError: () => undefined } });
+    const signals: AbortSignal[] = [];
+    createEventHandler(bus, 'User.Created', async () => {
+      signals.push(getDispatchContext()!.signal);
+      await sleep(1000);
+    });
+    const CreateUser = createCommand(bus, 'User.CreateUser', () => new Promise(() => undefined));
+
+    const hanging = CreateUser.execute(createUser, 'user-1').catch(e => e);
+    await bus.publishEvent('User.Created', userCreated, 'user-1', 1);
+    await bus.publishEvent('User.Created', userCreated, 'user-2', 1);
+    await sleep(0);
+    await bus.close({ timeout: 20 });
+
+    expect(await hanging).toBeInstanceOf(BusClosedError);
+    expect(signals).toHaveLength(1);
+    expect(signals[0].reason).toBeInstanceOf(BusClosedError);
+    expect(bus.getEventQueueStats()).toMatchObject({ queued: 0, dropped: 1 });
+  });
+
+  it('should run stop hooks of modules, then of middleware, in reverse order', async () => {
+    const bus = new TypeBus({ enableLogging: false });
+    const stopped: string[] = [];
+    const middleware = (name: string) => ({
+      name,
+      execute: <T, R>(message: T, next: (message: T) => Promise<R>) => next(message),
+      stop: () => {
+        stopped.push(name);
+      }
+    });
+    const module = (name: string) => ({
+      name,
+      configure: () => undefined,
+      stop: () => {
+        stopped.push(name);
+      }
+    });
+    bus.use(middleware('logging'));
+    bus.use(middleware('metrics'));
+    await bus.registerModule(module('users'), module('billing'));
+    await bus.start();
+
+    await bus.close();
+
+    expect(stopped).toEqual(['billing', 'users', 'metrics', 'logging']);
+  });
+
+  it('should only log failing stop hooks when logging is enabled', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      for (const enableLogging of [false, true]) {
+        const bus = new TypeBus({ enableLogging });
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        bus.use({
+          name: 'metrics',
+          execute: (message, next) => next(message),
+          stop: () => Promise.reject(new Error('metrics'))
+        });
+        await bus.registerModule({
+          name: 'users',
+          configure: () => undefined,
+          stop: () => Promise.reject(new Error('users'))
+        });
+        await bus.start();
+
+        await expect(bus.close()).rejects.toThrow('users');
+        expect(error).toHaveBeenCalledTimes(enableLogging ? 2 : 0);
+      }
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -1,4 +1,19 @@
-import { TypeBus, createCommand, createQuery, createEventHandler } from '../src';
+import {
+  TypeBus,
+  RetryMiddleware,
+  IMiddleware,
+  EventDispatchError,
+  createCommand,
+  createQuery,
+  createEventHandler,
+  getDispatchContext,
+  isCommand,
+  isQuery,
+  isEvent,
+  createFluentBuilder,
+  PolicyRegistry,
+  DISPOSE
+} from '../src';
 
 describe('TypeBus-CQRS', () => {
   let bus: TypeBus;
@@ -230,6 +245,422 @@ describe('TypeBus-CQRS', () => {
         'middleware1-after'
       ]);
     });
+
+    it('should pass messages with their kind', async () => {
+      const seen: string[] = [];
+      bus.use({
+        async execute(message, next) {
+          const guard = isCommand(message) ? 'command' : isQuery(message) ? 'query' : isEvent(message) ? 'event' : '?';
+          seen.push(`${message.type}:${message.kind}:${guard}`);
+          return next(message);
+        }
+      });
+      createCommand(bus, 'User.CreateUser', async () => ({ userId: 'test', events: [] }));
+      createQuery(bus, 'User.GetUser', async () => null as any);
+      createEventHandler(bus, 'User.Deleted', async () => {});
+
+      await bus.executeCommand('User.CreateUser', { name: 'Test', email: 'test@example.com', password: 'password' }, 'test-id');
+      await bus.executeQuery('User.GetUser', { userId: 'test-id' });
+      await bus.publishEvent('User.Deleted', { userId: 'test-id', reason: 'test' }, 'test-id', 2);
+
+      expect(seen).toEqual([
+        'User.CreateUser:command:command',
+        'User.GetUser:query:query',
+        'User.Deleted:event:event'
+      ]);
+    });
+
+    it('should run filtered middleware only for matching kinds and types', async () => {
+      const seen: string[] = [];
+      const record = (label: string): IMiddleware => ({
+        async execute(message, next) {
+          seen.push(`${label}:${message.type}`);
+          return next(message);
+        }
+      });
+      bus.use(record('commands'), { kinds: ['command'] });
+      bus.use(record('users'), { types: ['User.*'] });
+      bus.use(record('user-commands'), { kinds: ['command'], types: ['User.*', 'Order.Place'] });
+      createCommand(bus, 'User.CreateUser', async () => ({ userId: 'test', events: [] }));
+      createEventHandler(bus, 'User.Deleted', async () => {});
+      createEventHandler(bus, 'Order.Cancelled', async () => {});
+
+      await bus.executeCommand('User.CreateUser', { name: 'Test', email: 'test@example.com', password: 'password' }, 'test-id');
+      await bus.publishEvent('User.Deleted', { userId: 'test-id', reason: 'test' }, 'test-id', 2);
+      await bus.publishEvent('Order.Cancelled', { reason: 'test' }, 'order-1', 2);
+
+      expect(seen).toEqual([
+        'commands:User.CreateUser',
+        'users:User.CreateUser',
+        'user-commands:User.CreateUser',
+        'users:User.Deleted'
+      ]);
+    });
+  });
+
+  describe('Cancellation', () => {
+    const user = { id: 'user-1', name: 'John', email: 'john@example.com', createdAt: new Date() };
+
+    /**
+     * Resolves once the current dispatch is aborted and reports the abort reason.
+     */
+    const waitForAbort = () => {
+      const signal = getDispatchContext()!.signal;
+      return new Promise<unknown>(resolve => signal.addEventListener('abort', () => resolve(signal.reason)));
+    };
+
+    it('should abort the dispatch signal when the timeout elapses', async () => {
+      const timedBus = new TypeBus({ enableLogging: false, queryTimeout: 20 });
+      let aborted: Promise<unknown> | undefined;
+      createQuery(timedBus, 'User.GetUser', async () => {
+        aborted = waitForAbort();
+        await aborted;
+        return user;
+      });
+
+      await expect(timedBus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow(
+        'User.GetUser timed out after 20ms'
+      );
+      expect(await aborted).toBeInstanceOf(Error);
+    });
+
+    it('should abort handlers when the caller aborts its signal', async () => {
+      const controller = new AbortController();
+      const reasons: unknown[] = [];
+      createCommand(bus, 'User.UpdateProfile', async () => {
+        reasons.push(await waitForAbort());
+        return { success: false };
+      });
+      createEventHandler(bus, 'User.Created', async () => {
+        reasons.push(await waitForAbort());
+      });
+
+      const command = bus.executeCommand('User.UpdateProfile', {}, 'user-1', undefined, {
+        signal: controller.signal
+      });
+      const event = bus.publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1, {}, {
+        signal: controller.signal
+      });
+      controller.abort(new Error('Client disconnected'));
+
+      await expect(command).rejects.toThrow('Client disconnected');
+      await expect(event).rejects.toThrow('Client disconnected');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(reasons).toHaveLength(2);
+    });
+
+    it('should not run handlers for an already aborted signal', async () => {
+      const handler = jest.fn(async () => user);
+      const GetUser = createQuery(bus, 'User.GetUser', handler);
+
+      await expect(
+        GetUser.execute({ userId: 'user-1' }, undefined, { signal: AbortSignal.abort(new Error('Cancelled')) })
+      ).rejects.toThrow('Cancelled');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should propagate cancellation to nested dispatches', async () => {
+      const controller = new AbortController();
+      let nestedAborted = false;
+      createQuery(bus, 'User.GetUser', async () => {
+        await waitForAbort();
+        nestedAborted = true;
+        return user;
+      });
+      createCommand(bus, 'User.UpdateProfile', async () => {
+        await bus.executeQuery('User.GetUser', { userId: 'user-1' });
+        return { success: true };
+      });
+
+      const command = bus.executeCommand('User.UpdateProfile', {}, 'user-1', undefined, {
+        signal: controller.signal
+      });
+      await new Promise(resolve => setImmediate(resolve));
+      controller.abort(new Error('Cancelled'));
+
+      await expect(command).rejects.toThrow('Cancelled');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(nestedAborted).toBe(true);
+    });
+
+    it('should abort nested dispatches given their own signal when the enclosing dispatch aborts', async () => {
+      const outer = new AbortController();
+      const inner = new AbortController();
+      let reason: unknown;
+      createQuery(bus, 'User.GetUser', async () => {
+        reason = await waitForAbort();
+        return user;
+      });
+      createCommand(bus, 'User.UpdateProfile', async () => {
+        await bus.executeQuery('User.GetUser', { userId: 'user-1' }, undefined, { signal: inner.signal });
+        return { success: true };
+      });
+
+      const command = bus.executeCommand('User.UpdateProfile', {}, 'user-1', undefined, { signal: outer.signal });
+      await new Promise(resolve => setImmediate(resolve));
+      outer.abort(new Error('Cancelled'));
+
+      await expect(command).rejects.toThrow('Cancelled');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(reason).toEqual(new Error('Cancelled'));
+      expect(inner.signal.aborted).toBe(false);
+    });
+
+    it('should clear the timeout timer when the handler completes', async () => {
+      jest.useFakeTimers();
+      try {
+        createQuery(bus, 'User.GetUser', async () => user);
+        await bus.executeQuery('User.GetUser', { userId: 'user-1' });
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('Message Policies', () => {
+    const order = { userId: 'user-1', items: [], totalAmount: 0 };
+
+    it('should merge matching policies with the most specific winning', () => {
+      const policyBus = new TypeBus({
+        enableLogging: false,
+        policies: {
+          'Order.CreateOrder': { timeout: 200 },
+          'Order.*': { timeout: 1000, logLevel: 'debug', retry: { maxAttempts: 5 } },
+          '*': { timeout: 5000, retry: { initialDelay: 10 } }
+        }
+      });
+      createCommand(policyBus, 'Order.CreateOrder', async () => ({ orderId: '', totalAmount: 0 }));
+      createQuery(policyBus, 'User.GetUser', async () => ({ id: '', name: '', email: '', createdAt: new Date() }));
+
+      expect(policyBus.getEffectivePolicy('Order.CreateOrder')).toEqual({
+        type: 'Order.CreateOrder',
+        timeout: 200,
+        logLevel: 'debug',
+        retry: { maxAttempts: 5, initialDelay: 10 },
+        middleware: {},
+        matched: ['*', 'Order.*', 'Order.CreateOrder']
+      });
+      expect(policyBus.getEffectivePolicy('Order.CancelOrder').timeout).toBe(1000);
+
+      policyBus.setPolicy('*', {});
+      expect(policyBus.getEffectivePolicy('User.GetUser')).toMatchObject({ timeout: 10000, matched: ['*'] });
+      expect(policyBus.getEffectivePolicy('Order.Created').timeout).toBe(1000);
+    });
+
+    it('should merge policies of registered types when they are registered or a policy is set', () => {
+      const registry = new PolicyRegistry({ 'Order.*': { timeout: 1000 } });
+      const registered = registry.register('Order.Created');
+      expect(registry.resolve('Order.Created')).toBe(registered);
+
+      registry.set('Order.Created', { concurrency: 2 });
+      const updated = registry.resolve('Order.Created');
+      expect(updated).toMatchObject({ timeout: 1000, concurrency: 2, matched: ['Order.*', 'Order.Created'] });
+      expect(registry.resolve('Order.Created')).toBe(updated);
+      expect(registry.resolve('Order.Cancelled')).not.toBe(registry.resolve('Order.Cancelled'));
+    });
+
+    it('should apply per-type timeouts, including to events', async () => {
+      const policyBus = new TypeBus({
+        enableLogging: false,
+        eventTimeout: 20,
+        policies: { 'User.GetUser': { timeout: 20 } }
+      });
+      const slow = () => new Promise(resolve => setTimeout(resolve, 50));
+      createQuery(policyBus, 'User.GetUser', async () => {
+        await slow();
+        return { id: '', name: '', email: '', createdAt: new Date() };
+      });
+      createEventHandler(policyBus, 'Order.Created', async () => {
+        await slow();
+      });
+
+      await expect(policyBus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow(
+        'User.GetUser timed out after 20ms'
+      );
+      await expect(policyBus.publishEvent('Order.Created', order, 'order-1', 1)).rejects.toThrow(
+        'Order.Created timed out after 20ms'
+      );
+    });
+
+    it('should switch middleware and retry settings per type', async () => {
+      const audited: string[] = [];
+      const audit: IMiddleware = {
+        name: 'audit',
+        execute: async (message, next) => {
+          audited.push(message.type);
+          return next(message);
+        }
+      };
+      const policyBus = new TypeBus({
+        enableLogging: false,
+        policies: {
+          'User.*': { middleware: { audit: false } },
+          'Order.*': { retry: { maxAttempts: 4, initialDelay: 1 } }
+        }
+      });
+      policyBus.use(audit);
+      policyBus.use(new RetryMiddleware({ maxAttempts: 1 }));
+      createCommand(policyBus, 'User.UpdateProfile', async () => ({ success: true }));
+      const handler = jest.fn(async () => {
+        throw Object.assign(new Error('Service unavailable'), { retryable: true });
+      });
+      createCommand(policyBus, 'Order.CancelOrder', handler);
+
+      await policyBus.executeCommand('User.UpdateProfile', {}, 'user-1');
+      await expect(policyBus.executeCommand('Order.CancelOrder', { reason: '' }, 'order-1')).rejects.toThrow(
+        'Service unavailable'
+      );
+
+      expect(audited).toEqual(['Order.CancelOrder']);
+      expect(handler).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('Event Dispatch Strategies', () => {
+    const created = { name: 'John', email: 'john@example.com' };
+
+    /**
+     * Registers three handlers on the bus; the second one fails. Returns the call log.
+     */
+    const registerHandlers = (target: TypeBus) => {
+      const calls: string[] = [];
+      const handler = (name: string, delay: number, fail = false) => async () => {
+        calls.push(`${name}-start`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        calls.push(`${name}-end`);
+        if (fail) throw new Error(`${name} failed`);
+      };
+      createEventHandler(target, 'User.Created', handler('a', 10));
+      target.registerEventHandler('User.Created', { name: 'mailer', handle: handler('b', 1, true) });
+      createEventHandler(target, 'User.Created', handler('c', 5));
+      return calls;
+    };
+
+    it('should reject with an aggregate error once all parallel handlers settled', async () => {
+      const strategyBus = new TypeBus({ enableLogging: false, eventDispatch: 'parallel-settle-all' });
+      const calls = registerHandlers(strategyBus);
+
+      const error = await strategyBus.publishEvent('User.Created', created, 'user-1', 1).catch(e => e);
+
+      expect(error).toBeInstanceOf(EventDispatchError);
+      expect(error.message).toBe('1 of 3 handlers failed for User.Created: mailer: b failed');
+      expect(error.failures).toEqual([{ index: 1, handler: 'mailer', error: expect.any(Error) }]);
+      expect(calls).toContain('a-end');
+      expect(calls).toContain('c-end');
+    });
+
+    it('should run handlers in order and continue past failures when sequential', async () => {
+      const strategyBus = new TypeBus({ enableLogging: false, policies: { 'User.*': { dispatch: 'sequential' } } });
+      const calls = registerHandlers(strategyBus);
+
+      await expect(strategyBus.publishEvent('User.Created', created, 'user-1', 1)).rejects.toBeInstanceOf(
+        EventDispatchError
+      );
+      expect(calls).toEqual(['a-start', 'a-end', 'b-start', 'b-end', 'c-start', 'c-end']);
+      expect(strategyBus.getEffectivePolicy('User.Created').dispatch).toBe('sequential');
+    });
+
+    it('should stop at the first failure when sequential-stop-on-error', async () => {
+      const strategyBus = new TypeBus({ enableLogging: false });
+      strategyBus.setPolicy('User.Created', { dispatch: 'sequential-stop-on-error' });
+      const calls = registerHandlers(strategyBus);
+
+      await expect(strategyBus.publishEvent('User.Created', created, 'user-1', 1)).rejects.toThrow('b failed');
+      expect(calls).toEqual(['a-start', 'a-end', 'b-start', 'b-end']);
+    });
+
+    it('should dispatch to the handlers registered when the event was published', async () => {
+      const strategyBus = new TypeBus({ enableLogging: false, eventDispatch: 'sequential' });
+      const calls: string[] = [];
+      const disposeFirst = strategyBus.registerEventHandler('User.Created', {
+        name: 'first',
+        handle: async () => {
+          calls.push('first');
+          disposeFirst();
+          strategyBus.registerEventHandler('User.Created', { name: 'late', handle: async () => void calls.push('late') });
+        }
+      });
+      strategyBus.registerEventHandler('User.Created', {
+        name: 'failing',
+        handle: async () => {
+          calls.push('failing');
+          throw new Error('failing failed');
+        }
+      });
+
+      const error = await strategyBus.publishEvent('User.Created', created, 'user-1', 1).catch(e => e);
+
+      expect(calls).toEqual(['first', 'failing']);
+      expect(error.failures).toEqual([{ index: 1, handler: 'failing', error: expect.any(Error) }]);
+    });
+
+    it('should reject with the first error by default', async () => {
+      const calls = registerHandlers(bus);
+
+      await expect(bus.publishEvent('User.Created', created, 'user-1', 1)).rejects.toThrow('b failed');
+      expect(calls.slice(0, 3)).toEqual(['a-start', 'b-start', 'c-start']);
+      expect(bus.getEffectivePolicy('User.Created').dispatch).toBe('parallel-fail-fast');
+    });
+  });
+
+  describe('Disposable Registrations', () => {
+    const user = { id: 'user-1', name: 'John', email: 'john@example.com', createdAt: new Date() };
+
+    it('should remove exactly the disposed event handler', async () => {
+      const calls: string[] = [];
+      const first = createEventHandler(bus, 'User.Created', async () => {
+        calls.push('first');
+      });
+      createEventHandler(bus, 'User.Created', async () => {
+        calls.push('second');
+      });
+
+      first.dispose();
+      first.dispose();
+      await bus.publishEvent('User.Created', { name: 'John', email: 'john@example.com' }, 'user-1', 1);
+
+      expect(calls).toEqual(['second']);
+      expect(bus.getStats().eventHandlers).toBe(1);
+    });
+
+    it('should remove command handlers and middleware, also through Symbol.dispose', async () => {
+      const seen: string[] = [];
+      const disposeMiddleware = bus.use({
+        execute: async (message, next) => {
+          seen.push(message.type);
+          return next(message);
+        }
+      });
+      const GetUser = createFluentBuilder(bus).query('User.GetUser').handle(async () => user);
+
+      await GetUser.execute({ userId: 'user-1' });
+      disposeMiddleware[DISPOSE]();
+      await GetUser.execute({ userId: 'user-1' });
+      GetUser[DISPOSE]();
+
+      expect(seen).toEqual(['User.GetUser']);
+      await expect(bus.executeQuery('User.GetUser', { userId: 'user-1' })).rejects.toThrow('No handler registered');
+      expect(() => createQuery(bus, 'User.GetUser', async () => user)).not.toThrow();
+    });
+
+    it('should replace handlers atomically and keep the replacement on a stale dispose', async () => {
+      const CreateUser = createCommand(bus, 'User.CreateUser', async (_data, aggregateId) => ({
+        userId: aggregateId,
+        events: ['old']
+      }));
+      const data = { name: 'John', email: 'john@example.com', password: 'secret' };
+
+      bus.replaceHandler('User.CreateUser', {
+        handle: async command => ({ userId: command.aggregateId, events: ['new'] })
+      });
+      CreateUser.dispose();
+
+      await expect(CreateUser.execute(data, 'user-1')).resolves.toEqual({ userId: 'user-1', events: ['new'] });
+      expect(() => bus.replaceHandler('User.DeleteUser', { handle: async () => undefined })).toThrow(
+        'No handler registered for command or query: User.DeleteUser'
+      );
+    });
   });
 
   describe('Statistics and Utilities', () => {
@@ -0,0 +1,164 @@
+import {
+  TypeBus,
+  ValidationError,
+  ValidationMiddleware,
+  Infer,
+  schema,
+  defineSchemas,
+  formatPath,
+  createCommand,
+  createQuery,
+  createEventHandler
+} from '../src';
+
+describe('Validation', () => {
+  const schemas = defineSchemas({
+    commands: {
+      'User.CreateUser': schema.object({
+        name: schema.string({ min: 1 }),
+        email: schema.string({ email: true }),
+        password: schema.string({ min: 8 })
+      }),
+      'User.UpdateProfile': schema.object({
+        name: schema.string().optional(),
+        email: schema.string({ email: true }).optional()
+      })
+    },
+    queries: {
+      'User.GetUser': schema.object({ userId: schema.string({ min: 1 }) })
+    },
+    events: {
+      'User.Created': schema.object({ name: schema.string(), email: schema.string({ email: true }) })
+    }
+  });
+
+  describe('schema DSL', () => {
+    it('should report every issue with its path', () => {
+      const order = schema.object({
+        customerId: schema.string(),
+        items: schema.array(
+          schema.object({ sku: schema.string(), quantity: schema.number({ integer: true, min: 1 }) }),
+          { min: 1 }
+        ),
+        status: schema.enum(['pending', 'paid'] as const)
+      });
+
+      const issues = order.validate({
+        customerId: 42,
+        items: [{ sku: 'A', quantity: 1 }, { sku: 'B', quantity: 0 }],
+        status: 'shipped'
+      });
+
+      expect(issues.map(issue => [formatPath(issue.path), issue.code])).toEqual([
+        ['customerId', 'invalid_type'],
+        ['items[1].quantity', 'too_small'],
+        ['status', 'invalid_value']
+      ]);
+    });
+
+    it('should infer payload types and support optional, nullable and refined schemas', () => {
+      const profile = schema.object({
+        nickname: schema.string().nullable(),
+        age: schema.number().optional(),
+        tags: schema.record(schema.boolean())
+      }).strict();
+      const value: Infer<typeof profile> = { nickname: null, tags: { admin: true } };
+      const range = schema
+        .object({ from: schema.number(), to: schema.number() })
+        .refine(r => r.from <= r.to, 'from must not exceed to', 'invalid_range');
+
+      expect(profile.validate(value)).toEqual([]);
+      expect(profile.validate({ ...value, extra: 1 })).toEqual([
+        { path: ['extra'], code: 'unrecognized_key', message: "Unexpected key 'extra'" }
+      ]);
+      expect(range.validate({ from: 2, to: 1 })).toEqual([
+        { path: [], code: 'invalid_range', message: 'from must not exceed to' }
+      ]);
+      expect(schema.union(schema.string(), schema.number()).validate(true)).toHaveLength(1);
+    });
+
+    it('should reject schemas that do not match the message maps', () => {
+      defineSchemas({
+        commands: {
+          // @ts-expect-error - password is missing from the schema
+          'User.CreateUser': schema.object({ name: schema.string(), email: schema.string() })
+        }
+      });
+      defineSchemas({
+        queries: {
+          // @ts-expect-error - userId must be a string
+          'User.GetUser': schema.object({ userId: schema.number() })
+        }
+      });
+    });
+  });
+
+  describe('ValidationMiddleware', () => {
+    let bus: TypeBus;
+
+    beforeEach(() => {
+      bus = new TypeBus({ enableLogging: false });
+      bus.use(new ValidationMiddleware(schemas));
+    });
+
+    afterEach(() => {
+      bus.clear();
+    });
+
+    it('should reject invalid commands before the handler runs', async () => {
+      const handler = jest.fn();
+      createCommand(bus, 'User.CreateUser', handler);
+
+      const error = await bus
+        .executeCommand('User.CreateUser', { name: '', email: 'not-an-email', password: 'secret' }, 'user-1')
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.messageType).toBe('User.CreateUser');
+      expect(error.issues.map((issue: { path: unknown }) => issue.path)).toEqual([['name'], ['email'], ['password']]);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should pass valid messages and messages without schemas', async () => {
+      createCommand(bus, 'User.UpdateProfile', async () => ({ success: true }));
+      createCommand(bus, 'User.ChangePassword', async () => ({ success: true }));
+
+      await expect(bus.executeCommand('User.UpdateProfile', { name: 'John' }, 'user-1')).resolves.toEqual({
+        success: true
+      });
+      await expect(
+        bus.executeCommand('User.ChangePassword', { currentPassword: '', newPassword: '' }, 'user-1')
+      ).resolves.toEqual({ success: true });
+    });
+
+    it('should validate query params and event data', async () => {
+      const handled = jest.fn();
+      createQuery(bus, 'User.GetUser', async ({ userId }) => ({
+        id: userId,
+        name: 'John',
+        email: 'john@example.com',
+        createdAt: new Date()
+      }));
+      createEventHandler(bus, 'User.Created', async data => handled(data));
+
+      await expect(bus.executeQuery('User.GetUser', { userId: '' })).rejects.toThrow(
+        'Invalid User.GetUser: userId: Expected at least 1 characters'
+      );
+      await expect(bus.publishEvent('User.Created', { name: 'John', email: 'john' }, 'user-1', 1)).rejects.toThrow(
+        ValidationError
+      );
+      expect(handled).not.toHaveBeenCalled();
+    });
+
+    it('should pick the schema by message kind, not by shape', async () => {
+      const versioned = new TypeBus({ enableLogging: false });
+      versioned.use({ execute: (message, next) => next({ ...message, version: 3 }) });
+      versioned.use(new ValidationMiddleware(schemas));
+      createCommand(versioned, 'User.CreateUser', async (_data, aggregateId) => ({ userId: aggregateId, events: [] }));
+
+      await expect(
+        versioned.executeCommand('User.CreateUser', { name: '', email: 'john@example.com', password: 'secret123' }, 'user-1')
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+});